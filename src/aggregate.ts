@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Local Aggregation API
+ *
+ * Computes counts, sums and min/max values over a local table — optionally
+ * grouped by one or more fields — without materialising the rows. The query
+ * is narrowed with the same index planner as the query builder and then
+ * streamed through a Dexie cursor, so memory use is proportional to the
+ * number of groups, not the number of rows.
+ *
+ * ```ts
+ * const byCategory = await engineAggregate<Transaction>('transactions', {
+ *   where: { account_id: accountId },
+ *   groupBy: 'category',
+ *   sum: ['amount'],
+ *   max: ['date']
+ * });
+ * // → [{ group: { category: 'food' }, count: 42, sum: { amount: 812.5 }, min: {}, max: { date: '2024-06-30' } }, ...]
+ * ```
+ *
+ * Soft-deleted rows are always skipped. For a reactive variant that recomputes
+ * when the table changes, see `createAggregateStore` in `stores/factories.ts`.
+ *
+ * @see {@link ./query} for the condition types and index planning
+ * @see {@link ./data} for the public re-export
+ */
+
+import { loadTable } from './engine';
+import { compareValues, openLocalCollection } from './query';
+import type { QueryCondition } from './query';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Options for {@link engineAggregate}.
+ *
+ * @typeParam T - The entity type being aggregated.
+ */
+export interface AggregateOptions<T = Record<string, unknown>> {
+  /**
+   * Rows to include. Either an equality map (`{ status: 'active' }`) or a list
+   * of query conditions that must all match. Defaults to every non-deleted row.
+   */
+  where?: Partial<T> | QueryCondition<T>[];
+  /** Field (or fields) to group by. When omitted, a single group is returned. */
+  groupBy?: (keyof T & string) | (keyof T & string)[];
+  /** Include the number of rows per group. Defaults to `true`. */
+  count?: boolean;
+  /** Numeric fields to sum. Non-numeric values are ignored. */
+  sum?: (keyof T & string)[];
+  /** Fields whose minimum value to report. `null`/`undefined` values are ignored. */
+  min?: (keyof T & string)[];
+  /** Fields whose maximum value to report. `null`/`undefined` values are ignored. */
+  max?: (keyof T & string)[];
+}
+
+/**
+ * One group of an aggregation result.
+ *
+ * @typeParam T - The entity type being aggregated.
+ */
+export interface AggregateGroup<T = Record<string, unknown>> {
+  /** Values of the `groupBy` fields for this group (`{}` when not grouped). */
+  group: Partial<T>;
+  /** Number of rows in the group (omitted when `count: false`). */
+  count?: number;
+  /** Sum per requested field (`0` when the group has no numeric values). */
+  sum: Record<string, number>;
+  /** Minimum per requested field (absent when the group has no values). */
+  min: Record<string, unknown>;
+  /** Maximum per requested field (absent when the group has no values). */
+  max: Record<string, unknown>;
+}
+
+// =============================================================================
+// AGGREGATION
+// =============================================================================
+
+/** Normalise the `where` option into a list of AND-ed conditions. */
+function toConditions<T>(where: AggregateOptions<T>['where']): QueryCondition[] {
+  if (!where) return [];
+  if (Array.isArray(where)) return where as QueryCondition[];
+  return Object.entries(where).map(([field, value]) => ({ field, op: 'eq' as const, value }));
+}
+
+/**
+ * Aggregate a local table without loading it into memory.
+ *
+ * Rows are streamed through a Dexie cursor narrowed by the best index for
+ * `where`; only one accumulator per group is kept. Soft-deleted rows are
+ * skipped. Groups are returned sorted by their `groupBy` values (using the
+ * same locale-independent ordering as the query builder), so results are
+ * stable across devices. Without `groupBy` the result is always exactly one
+ * group, even for an empty table.
+ *
+ * @typeParam T - The entity type being aggregated.
+ * @param table - The Supabase table name (or schema key).
+ * @param opts  - Filter, grouping and the aggregates to compute.
+ * @returns One entry per group.
+ *
+ * @example
+ * ```ts
+ * import { engineAggregate } from 'stellar-drive/data';
+ *
+ * const [totals] = await engineAggregate<Expense>('expenses', {
+ *   where: [{ field: 'date', op: 'between', value: [monthStart, monthEnd] }],
+ *   sum: ['amount']
+ * });
+ * console.log(totals.count, totals.sum.amount);
+ * ```
+ */
+export async function engineAggregate<T extends Record<string, unknown>>(
+  table: string,
+  opts: AggregateOptions<T> = {}
+): Promise<AggregateGroup<T>[]> {
+  await loadTable(table);
+  const groupBy = opts.groupBy === undefined ? [] : ([] as string[]).concat(opts.groupBy);
+  const sumFields = opts.sum ?? [];
+  const minFields = opts.min ?? [];
+  const maxFields = opts.max ?? [];
+  const includeCount = opts.count ?? true;
+
+  const groups = new Map<string, AggregateGroup<T> & { rows: number }>();
+  const groupFor = (row: Record<string, unknown>) => {
+    const values = groupBy.map((field) => row[field] ?? null);
+    const key = JSON.stringify(values);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        group: Object.fromEntries(groupBy.map((field, i) => [field, values[i]])) as Partial<T>,
+        rows: 0,
+        sum: Object.fromEntries(sumFields.map((field) => [field, 0])),
+        min: {},
+        max: {}
+      };
+      groups.set(key, group);
+    }
+    return group;
+  };
+
+  /* Without grouping, an empty table still yields one (zeroed) group. */
+  if (groupBy.length === 0) groupFor({});
+
+  await openLocalCollection(table, toConditions(opts.where)).each(
+    (row: Record<string, unknown>) => {
+      const group = groupFor(row);
+      group.rows++;
+      for (const field of sumFields) {
+        const value = row[field];
+        if (typeof value === 'number' && Number.isFinite(value)) group.sum[field] += value;
+      }
+      for (const field of minFields) {
+        const value = row[field];
+        if (value === null || value === undefined) continue;
+        if (!(field in group.min) || compareValues(value, group.min[field]) < 0) {
+          group.min[field] = value;
+        }
+      }
+      for (const field of maxFields) {
+        const value = row[field];
+        if (value === null || value === undefined) continue;
+        if (!(field in group.max) || compareValues(value, group.max[field]) > 0) {
+          group.max[field] = value;
+        }
+      }
+    }
+  );
+
+  const results = [...groups.values()].map(({ rows, ...group }) =>
+    includeCount ? { ...group, count: rows } : group
+  );
+  return results.sort((a, b) => {
+    for (const field of groupBy) {
+      const cmp = compareValues(
+        (a.group as Record<string, unknown>)[field],
+        (b.group as Record<string, unknown>)[field]
+      );
+      if (cmp !== 0) return cmp;
+    }
+    return 0;
+  });
+}
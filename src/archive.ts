@@ -0,0 +1,636 @@
+/**
+ * @fileoverview User Data Archives (Export and Import)
+ *
+ * Backs a "download my data" button and a "restore into this account" flow:
+ *
+ * - {@link exportUserData} reads the configured tables from IndexedDB and
+ *   returns a versioned, self-describing archive — per table the schema key,
+ *   Supabase name, declared `fields`, column list, a type per column, and the
+ *   rows either as JSON objects or as one CSV document.
+ * - {@link importUserData} writes an archive back, table by table, through
+ *   `engineImport` — so every row is validated, written locally and queued
+ *   for push like any other local write.
+ *
+ * Archive layout (`encoding: 'json'`):
+ * ```
+ * { format: 'stellar-drive-archive', version: 1, app: 'stellar', userId, exportedAt,
+ *   encoding: 'json', includesDeleted: false,
+ *   tables: [{ name: 'goals', supabaseName: 'stellar_goals', fields: {...},
+ *              columns: ['id', ...], types: { id: 'string', ... }, rowCount: 2, rows: [...] }] }
+ * ```
+ * With `encoding: 'csv'` each table carries a `csv` string instead of `rows`.
+ * CSV cells are decoded with the column's recorded type: an unquoted empty
+ * cell is `null`, a quoted one (`""`) the empty string, and `json` columns
+ * hold JSON text.
+ *
+ * IDs are remapped on import when the archive belongs to another account
+ * (the original rows may still exist server-side): every row gets a new ID,
+ * and foreign keys declared through schema `ownership: { parent, fk }` follow
+ * their parent's new ID. Rows matching a local row by a declared unique
+ * constraint — or the existing row of a singleton table — take that row's ID
+ * instead, so restores do not duplicate them.
+ *
+ * Attachments are not part of the archive; their metadata and files live in
+ * Storage, outside the table data.
+ *
+ * @see {@link ./import} for the chunked write path used by imports
+ * @see {@link ./schema} for the relations used to remap foreign keys
+ */
+
+import { findTableConfig, getDexieTableFor, getEngineConfig } from './config';
+import type { TableConfig } from './config';
+import { getUniqueKeys } from './constraints';
+import { getDb, TABLE } from './database';
+import { debugWarn } from './debug';
+import { decryptRows } from './encryption';
+import { loadTable, markEntityModified, scheduleSyncPush } from './engine';
+import { engineImport } from './import';
+import type { ImportResult } from './import';
+import { enterBatchMode, exitBatchMode, queueDeleteOperation } from './queue';
+import { getSchemaRelations } from './schema';
+import { updateSearchIndex } from './search';
+import { getSession } from './supabase/auth';
+import type { FieldType } from './types';
+import { now } from './utils';
+import { recordVersion } from './versions';
+
+// =============================================================================
+// TYPES & CONSTANTS
+// =============================================================================
+
+/** Value of {@link UserDataArchive.format}, identifying stellar-drive archives. */
+const ARCHIVE_FORMAT = 'stellar-drive-archive';
+
+/** Archive layout version written by {@link exportUserData}. */
+const ARCHIVE_VERSION = 1;
+
+/** Columns never carried over by an import — sync metadata set by the engine. */
+const SYNC_COLUMNS = ['_version', 'device_id', 'updated_at', 'deleted'];
+
+/** Rows tombstoned per transaction by a `'replace'` import. */
+const DELETE_CHUNK_SIZE = 500;
+
+/** How a column's values are encoded in a CSV archive. */
+export type ArchiveColumnType = 'string' | 'number' | 'boolean' | 'json';
+
+/**
+ * One table of a {@link UserDataArchive}.
+ */
+export interface ArchivedTable {
+  /** Schema key (or Supabase name for manually configured tables). */
+  name: string;
+  /** Supabase table name at export time. */
+  supabaseName: string;
+  /** The schema `fields` declaration, when the table has one. */
+  fields?: Record<string, FieldType>;
+  /** Every column present in the rows, `id` first. */
+  columns: string[];
+  /** Encoding of each column — how CSV cells are decoded. */
+  types: Record<string, ArchiveColumnType>;
+  /** Number of rows exported. */
+  rowCount: number;
+  /** The rows (`encoding: 'json'`). */
+  rows?: Record<string, unknown>[];
+  /** The rows as a CSV document with a header line (`encoding: 'csv'`). */
+  csv?: string;
+}
+
+/**
+ * A versioned export of a user's data, as produced by {@link exportUserData}.
+ * Plain JSON — serialize it with `JSON.stringify`.
+ */
+export interface UserDataArchive {
+  /** Always `'stellar-drive-archive'`. */
+  format: typeof ARCHIVE_FORMAT;
+  /** Archive layout version. */
+  version: number;
+  /** The app `prefix` the data was exported from. */
+  app: string;
+  /** The account the data belongs to (`null` when exported signed out or in demo mode). */
+  userId: string | null;
+  /** When the archive was created. */
+  exportedAt: string;
+  /** How rows are stored in each table. */
+  encoding: 'json' | 'csv';
+  /** Whether soft-deleted rows are included. */
+  includesDeleted: boolean;
+  /** The exported tables. */
+  tables: ArchivedTable[];
+}
+
+/**
+ * Options for {@link exportUserData}.
+ */
+export interface ExportUserDataOptions {
+  /** Tables to export (schema keys or Supabase names). @default every configured table */
+  tables?: string[];
+  /** `'json'` stores row objects, `'csv'` one CSV document per table. @default 'json' */
+  format?: 'json' | 'csv';
+  /** Include soft-deleted rows (tombstones). @default false */
+  includeDeleted?: boolean;
+}
+
+/**
+ * Options for {@link importUserData}.
+ */
+export interface ImportUserDataOptions {
+  /**
+   * - `'merge'` — add archived rows and update matching local rows, keeping
+   *   local rows changed after the export.
+   * - `'replace'` — additionally delete every local row of the imported
+   *   tables that is not in the archive.
+   * @default 'merge'
+   */
+  mode?: 'merge' | 'replace';
+  /** Tables to import (schema keys or Supabase names). @default every table in the archive */
+  tables?: string[];
+  /**
+   * Give every row a new ID, rewriting foreign keys to match.
+   * @default `true` when the archive belongs to a different account
+   */
+  remapIds?: boolean;
+}
+
+/**
+ * Outcome of an {@link importUserData} for one table.
+ */
+export interface TableImportResult extends ImportResult {
+  /** Local rows deleted because they are not in the archive (`mode: 'replace'`). */
+  deleted: number;
+}
+
+/**
+ * Outcome of an {@link importUserData}.
+ */
+export interface UserDataImportResult {
+  /** Whether row IDs were remapped. */
+  remapped: boolean;
+  /** Counts per imported table, keyed by archived table name. */
+  tables: Record<string, TableImportResult>;
+}
+
+// =============================================================================
+// CSV ENCODING
+// =============================================================================
+
+/** The single encoding that fits every non-null value of a column. */
+function columnType(values: unknown[]): ArchiveColumnType {
+  const kinds = new Set(
+    values.filter((value) => value !== null && value !== undefined).map((value) => typeof value)
+  );
+  if (kinds.size !== 1) return kinds.size === 0 ? 'string' : 'json';
+  const [kind] = kinds;
+  return kind === 'string' || kind === 'number' || kind === 'boolean' ? kind : 'json';
+}
+
+/** Quote a CSV cell. Quoting also marks an empty cell as `''` rather than `null`. */
+function quote(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/** Encode one value as a CSV cell. */
+function encodeCell(value: unknown, type: ArchiveColumnType): string {
+  if (value === null || value === undefined) return '';
+  if (type === 'json') return quote(JSON.stringify(value));
+  const text = String(value);
+  return text === '' || /[",\r\n]/.test(text) ? quote(text) : text;
+}
+
+/** Decode one CSV cell (`null` for an unquoted empty cell). */
+function decodeCell(cell: string | null, type: ArchiveColumnType): unknown {
+  if (cell === null) return null;
+  switch (type) {
+    case 'number':
+      return Number(cell);
+    case 'boolean':
+      return cell === 'true';
+    case 'json':
+      return JSON.parse(cell);
+    default:
+      return cell;
+  }
+}
+
+/** Render rows as a CSV document with a header line. */
+function toCsv(
+  columns: string[],
+  types: Record<string, ArchiveColumnType>,
+  rows: Record<string, unknown>[]
+): string {
+  const lines = [columns.map((column) => encodeCell(column, 'string')).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => encodeCell(row[column], types[column])).join(','));
+  }
+  return lines.join('\r\n');
+}
+
+/**
+ * Split a CSV document into records of cells (RFC 4180). Unquoted empty cells
+ * are returned as `null`.
+ */
+function parseCsv(text: string): (string | null)[][] {
+  const records: (string | null)[][] = [];
+  let record: (string | null)[] = [];
+  let cell = '';
+  let quoted = false;
+  let inQuotes = false;
+
+  const endCell = () => {
+    record.push(cell === '' && !quoted ? null : cell);
+    cell = '';
+    quoted = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char !== '"') cell += char;
+      else if (text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else inQuotes = false;
+    } else if (char === '"') {
+      inQuotes = true;
+      quoted = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endCell();
+      records.push(record);
+      record = [];
+    } else {
+      cell += char;
+    }
+  }
+  if (inQuotes) throw new Error('Malformed CSV: unterminated quoted cell');
+  if (cell !== '' || quoted || record.length > 0) {
+    endCell();
+    records.push(record);
+  }
+  return records;
+}
+
+/** The rows of an archived table, decoding its CSV when needed. */
+function rowsOf(table: ArchivedTable): Record<string, unknown>[] {
+  if (table.rows) return table.rows;
+  if (table.csv === undefined) return [];
+
+  const [header, ...records] = parseCsv(table.csv);
+  const columns = (header ?? []).map((cell) => cell ?? '');
+  return records.map((record) => {
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      row[column] = decodeCell(record[i] ?? null, table.types[column] ?? 'string');
+    });
+    return row;
+  });
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** The public name of a table: its schema key when it has one. */
+function nameOf(table: TableConfig): string {
+  return table.schemaKey ?? table.supabaseName;
+}
+
+/**
+ * Resolve table names to configs.
+ *
+ * @throws {Error} If a name matches no configured table.
+ */
+function resolveTables(names: string[]): TableConfig[] {
+  return names.map((name) => {
+    const table = findTableConfig(name);
+    if (!table) throw new Error(`Unknown table: ${name}`);
+    return table;
+  });
+}
+
+/**
+ * Order tables so every `ownership` parent comes before its children — the
+ * order their rows must be created in.
+ */
+function parentsFirst(tables: TableConfig[]): TableConfig[] {
+  const schema = getEngineConfig().schema;
+  const relations = schema ? getSchemaRelations(schema) : {};
+  const byName = new Map(tables.map((table) => [nameOf(table), table]));
+  const ordered: TableConfig[] = [];
+  const visited = new Set<string>();
+
+  const visit = (name: string) => {
+    if (visited.has(name)) return;
+    visited.add(name);
+    for (const relation of relations[name] ?? []) {
+      if (relation.kind === 'parent') visit(relation.table);
+    }
+    const table = byName.get(name);
+    if (table) ordered.push(table);
+  };
+
+  for (const name of byName.keys()) visit(name);
+  return ordered;
+}
+
+/** The signed-in user's ID, or `null` (signed out, demo mode). */
+async function currentUserId(): Promise<string | null> {
+  return (await getSession())?.user.id ?? null;
+}
+
+/**
+ * Derive the remapped ID of an archived row: a UUID v5-style SHA-1 hash of
+ * the archive's user, the importing user and the row's old ID. The same
+ * archive imported into the same account always yields the same IDs, so a
+ * rerun updates the rows it wrote before instead of duplicating them.
+ */
+async function remapId(
+  sourceUserId: string | null,
+  targetUserId: string | null,
+  oldId: string
+): Promise<string> {
+  const name = new TextEncoder().encode(`${sourceUserId ?? ''}:${targetUserId ?? ''}:${oldId}`);
+  const bytes = new Uint8Array(await crypto.subtle.digest('SHA-1', name)).slice(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Parse and check an archive.
+ *
+ * @throws {Error} If the input is not a stellar-drive archive, or has a newer
+ *                 layout version than this build understands.
+ */
+function readArchive(input: UserDataArchive | string): UserDataArchive {
+  const archive = (typeof input === 'string' ? JSON.parse(input) : input) as UserDataArchive;
+  if (archive?.format !== ARCHIVE_FORMAT || !Array.isArray(archive.tables)) {
+    throw new Error('Not a stellar-drive data archive');
+  }
+  if (typeof archive.version !== 'number' || archive.version > ARCHIVE_VERSION) {
+    throw new Error(
+      `Unsupported archive version ${archive.version} (this build reads up to ${ARCHIVE_VERSION})`
+    );
+  }
+  return archive;
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Export the user's data as a versioned archive.
+ *
+ * Rows are read from IndexedDB, so the archive includes local changes not
+ * yet pushed. Lazy tables are loaded first. Tables with a `syncFilter` or
+ * `hydration: 'none'` only hold part of their rows locally, and only that
+ * part is exported. Encrypted fields are exported as plaintext.
+ *
+ * @param opts - Tables, encoding and tombstone options.
+ * @returns The archive — serialize it with `JSON.stringify`.
+ * @throws {Error} If `opts.tables` names an unknown table.
+ *
+ * @example
+ * ```ts
+ * import { exportUserData } from 'stellar-drive/data';
+ *
+ * const archive = await exportUserData({ format: 'json' });
+ * const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+ * downloadLink.href = URL.createObjectURL(blob);
+ * ```
+ */
+export async function exportUserData(opts: ExportUserDataOptions = {}): Promise<UserDataArchive> {
+  const config = getEngineConfig();
+  const encoding = opts.format ?? 'json';
+  const includeDeleted = opts.includeDeleted ?? false;
+  const tables = opts.tables ? resolveTables(opts.tables) : config.tables;
+  const db = getDb();
+
+  const archived: ArchivedTable[] = [];
+  for (const table of tables) {
+    await loadTable(table.supabaseName);
+    let rows = (await db.table(getDexieTableFor(table)).toArray()) as Record<string, unknown>[];
+    if (!includeDeleted) rows = rows.filter((row) => !row.deleted);
+    rows = await decryptRows(table.supabaseName, rows);
+
+    const columnSet = new Set<string>(['id']);
+    for (const row of rows) for (const column of Object.keys(row)) columnSet.add(column);
+    const columns = Array.from(columnSet);
+    const types: Record<string, ArchiveColumnType> = {};
+    for (const column of columns) types[column] = columnType(rows.map((row) => row[column]));
+
+    const definition = config.schema?.[nameOf(table)];
+    archived.push({
+      name: nameOf(table),
+      supabaseName: table.supabaseName,
+      ...(typeof definition === 'object' && definition.fields ? { fields: definition.fields } : {}),
+      columns,
+      types,
+      rowCount: rows.length,
+      ...(encoding === 'csv' ? { csv: toCsv(columns, types, rows) } : { rows })
+    });
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    app: config.prefix,
+    userId: await currentUserId(),
+    exportedAt: now(),
+    encoding,
+    includesDeleted: includeDeleted,
+    tables: archived
+  };
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/**
+ * Soft-delete local rows and queue the deletes, in chunks. Not recorded in the
+ * undo history, like the imports it accompanies.
+ *
+ * @returns The number of rows deleted.
+ */
+async function tombstoneRows(table: TableConfig, rows: Record<string, unknown>[]): Promise<number> {
+  if (rows.length === 0) return 0;
+  const db = getDb();
+  const dexieTable = db.table(getDexieTableFor(table));
+  const timestamp = now();
+
+  enterBatchMode();
+  try {
+    for (let start = 0; start < rows.length; start += DELETE_CHUNK_SIZE) {
+      const chunk = rows.slice(start, start + DELETE_CHUNK_SIZE);
+      const scope = [dexieTable, db.table('syncQueue'), db.table(TABLE.ENTITY_VERSIONS)];
+      await db.transaction('rw', scope, async () => {
+        for (const row of chunk) {
+          await recordVersion(table.supabaseName, row, 'local');
+          await dexieTable.update(row.id as string, { deleted: true, updated_at: timestamp });
+          await queueDeleteOperation(table.supabaseName, row.id as string);
+        }
+      });
+      for (const row of chunk) markEntityModified(row.id as string);
+      await updateSearchIndex(
+        table.supabaseName,
+        chunk.map((row) => row.id as string)
+      );
+    }
+  } finally {
+    await exitBatchMode();
+    scheduleSyncPush();
+  }
+  return rows.length;
+}
+
+/**
+ * Import an archive produced by {@link exportUserData} into the signed-in
+ * account.
+ *
+ * Tables are imported one at a time, parents before children. Each one goes
+ * through `engineImport`: rows are validated, written locally and queued for
+ * push. Tombstones in the archive are not imported. Sync metadata
+ * (`_version`, `device_id`, `updated_at`, `deleted`) is reset, and the
+ * ownership column (e.g. `user_id`) is set to the signed-in user. Columns the
+ * current schema does not have are dropped.
+ *
+ * When IDs are remapped, every row gets a new ID derived from the archive's
+ * user, the signed-in user and its old ID, and declared foreign keys follow
+ * their parent. Rows matching a local row by a unique constraint, and
+ * the row of a singleton table, take the local row's ID instead.
+ *
+ * If a table fails (e.g. a `ValidationError`), the tables before it stay
+ * imported, and a `'replace'` import deletes nothing from the failed table.
+ * Rerunning a `'merge'` import is safe.
+ *
+ * @param input - The archive, or its JSON text.
+ * @param opts  - Mode, table and remapping options.
+ * @returns Whether IDs were remapped, and counts per table.
+ *
+ * @throws {Error} If the input is not a supported archive, or `opts.tables`
+ *                 names a table the archive or this app does not have.
+ * @throws {ValidationError} If a row does not match the schema `fields`.
+ *
+ * @example
+ * ```ts
+ * import { importUserData } from 'stellar-drive/data';
+ *
+ * const text = await file.text();
+ * const { tables } = await importUserData(text, { mode: 'merge' });
+ * ```
+ */
+export async function importUserData(
+  input: UserDataArchive | string,
+  opts: ImportUserDataOptions = {}
+): Promise<UserDataImportResult> {
+  const archive = readArchive(input);
+  const mode = opts.mode ?? 'merge';
+  const userId = await currentUserId();
+  const remapped =
+    opts.remapIds ?? (archive.userId !== null && userId !== null && archive.userId !== userId);
+
+  /* Pair archived tables with the current config; skip tables this app no longer has. */
+  const archivedByConfig = new Map<TableConfig, ArchivedTable>();
+  for (const archived of archive.tables) {
+    const table = findTableConfig(archived.name) ?? findTableConfig(archived.supabaseName);
+    if (!table) {
+      if (opts.tables?.includes(archived.name)) throw new Error(`Unknown table: ${archived.name}`);
+      debugWarn(`[Archive] Skipping table "${archived.name}": not in this app's schema`);
+      continue;
+    }
+    archivedByConfig.set(table, archived);
+  }
+  let tables = Array.from(archivedByConfig.keys());
+  if (opts.tables) {
+    const wanted = resolveTables(opts.tables);
+    for (const table of wanted) {
+      if (!archivedByConfig.has(table)) throw new Error(`Table not in archive: ${nameOf(table)}`);
+    }
+    tables = wanted;
+  }
+
+  const schema = getEngineConfig().schema;
+  const relations = schema ? getSchemaRelations(schema) : {};
+  const idMaps = new Map<string, Map<string, string>>();
+  const result: UserDataImportResult = { remapped, tables: {} };
+  const db = getDb();
+
+  for (const table of parentsFirst(tables)) {
+    const archived = archivedByConfig.get(table)!;
+    const name = nameOf(table);
+    await loadTable(table.supabaseName);
+    const dexieTable = db.table(getDexieTableFor(table));
+    const local = (await dexieTable.toArray()) as Record<string, unknown>[];
+    const localById = new Map(local.map((row) => [row.id as string, row]));
+    const localByKey = new Map<string, Record<string, unknown>>();
+    for (const row of local) {
+      for (const { key } of getUniqueKeys(table.supabaseName, row)) localByKey.set(key, row);
+    }
+    const singleton = table.isSingleton ? local.find((row) => !row.deleted) : undefined;
+    const allowed = table.columns === '*' ? null : new Set(table.columns.split(','));
+    const parents = (relations[name] ?? []).filter((relation) => relation.kind === 'parent');
+    const idMap = new Map<string, string>();
+    idMaps.set(name, idMap);
+
+    /* ---- Rewrite rows for this account ---- */
+
+    const rows: Record<string, unknown>[] = [];
+    for (const source of rowsOf(archived)) {
+      if (source.deleted) continue;
+      const row: Record<string, unknown> = {};
+      for (const [column, value] of Object.entries(source)) {
+        if (SYNC_COLUMNS.includes(column)) continue;
+        if (allowed && !allowed.has(column)) continue;
+        row[column] = value;
+      }
+      for (const { table: parent, fk } of parents) {
+        const parentId = idMaps.get(parent)?.get(row[fk] as string);
+        if (parentId) row[fk] = parentId;
+      }
+      if (table.ownershipFilter && userId) row[table.ownershipFilter] = userId;
+
+      const oldId = source.id as string;
+      const match =
+        getUniqueKeys(table.supabaseName, row)
+          .map(({ key }) => localByKey.get(key))
+          .find(Boolean) ?? singleton;
+      const id =
+        (match?.id as string) ?? (remapped ? await remapId(archive.userId, userId, oldId) : oldId);
+      idMap.set(oldId, id);
+      row.id = id;
+
+      /* Keep local rows edited after the export. */
+      const existing = localById.get(id);
+      if (
+        mode === 'merge' &&
+        existing &&
+        !existing.deleted &&
+        String(existing.updated_at ?? '') > String(source.updated_at ?? '')
+      ) {
+        continue;
+      }
+      rows.push(row);
+    }
+
+    /* ---- Write ---- */
+
+    /* Import first: if the rows fail validation or a unique constraint, the
+       local rows a replace would delete are left untouched. */
+    const imported = await engineImport(table.supabaseName, rows, { onConflict: 'update' });
+    let deleted = 0;
+    if (mode === 'replace') {
+      const kept = new Set(idMap.values());
+      deleted = await tombstoneRows(
+        table,
+        local.filter((row) => !row.deleted && !kept.has(row.id as string))
+      );
+    }
+    result.tables[archived.name] = { ...imported, deleted };
+  }
+
+  return result;
+}
@@ -0,0 +1,468 @@
+/**
+ * @fileoverview Offline-Capable File Attachments
+ *
+ * Links files to entity rows and syncs them to a Supabase Storage bucket:
+ *
+ * ```ts
+ * initEngine({ ..., attachments: { bucket: 'note-files' } });
+ *
+ * const file = await engineAttach('notes', noteId, input.files[0]);
+ * const blob = await engineGetAttachment(file.id);
+ * ```
+ *
+ * Storage layout (`attachments` system table, one row per file):
+ * ```
+ * { id, table: 'notes', entityId: 'abc', name: 'scan.pdf', type: 'application/pdf',
+ *   size: 48213, status: 'pending', path: null, blob: Blob, retries: 0, ... }
+ * ```
+ * - Added files are stored as blobs in IndexedDB immediately, so they work
+ *   offline, and wait with `status: 'pending'` until a sync uploads them.
+ * - Objects live at `<userId>/<table>/<entityId>/<id>-<name>` in the bucket —
+ *   the first folder is the owner, matching the RLS policies that
+ *   `generateSupabaseSQL` emits for `storage.buckets`. Other devices discover
+ *   an entity's files by listing its folder ({@link engineListAttachments}).
+ * - Downloads are lazy: a blob is fetched on first {@link engineGetAttachment}
+ *   and cached. Cached blobs of uploaded files are evicted least recently used
+ *   first once they exceed `attachments.maxCacheBytes`; pending uploads are
+ *   never evicted.
+ *
+ * Uploads and remote deletes run after each sync push
+ * ({@link processAttachmentQueue}), with `syncStatusStore.progress` reporting
+ * them. Failed transfers are retried with exponential backoff (capped at five
+ * minutes) and are never discarded — the file is the user's data.
+ *
+ * Garbage collection: files whose owning entity has been tombstoned for longer
+ * than `tombstoneMaxAgeDays` are removed locally and from the bucket on the
+ * next sync; uploaded files whose entity is not cached locally are dropped
+ * from the local cache only. Pending uploads are never dropped that way.
+ *
+ * @see {@link ./schema} for `StorageBucketConfig` (bucket creation SQL)
+ * @see {@link ./engine} for where the queue is processed
+ */
+
+import { findTableConfig, getDexieTableFor, getEngineConfig, resolveSupabaseName } from './config';
+import { getDb, TABLE } from './database';
+import { debugError, debugLog, debugWarn } from './debug';
+import { isDemoMode } from './demo';
+import { scheduleSyncPush } from './engine';
+import { syncStatusStore } from './stores/sync';
+import { getSession } from './supabase/auth';
+import { supabase } from './supabase/client';
+import { generateId, now } from './utils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Sync state of an attachment:
+ * - `pending` — stored locally, waiting to be uploaded.
+ * - `synced` — stored in the bucket.
+ */
+export type AttachmentStatus = 'pending' | 'synced';
+
+/**
+ * A file linked to an entity, as returned by {@link engineAttach} and
+ * {@link engineListAttachments}.
+ */
+export interface Attachment {
+  /** Attachment ID (UUID). */
+  id: string;
+  /** Supabase table name of the owning entity. */
+  table: string;
+  /** Primary key of the owning entity. */
+  entityId: string;
+  /** File name. */
+  name: string;
+  /** MIME type (empty when unknown). */
+  type: string;
+  /** Size in bytes. */
+  size: number;
+  /** Whether the file has been uploaded yet. */
+  status: AttachmentStatus;
+  /** Whether the content is available offline. */
+  cached: boolean;
+  /** When the file was attached. */
+  createdAt: string;
+  /** Last upload error, while a pending upload keeps failing. */
+  error?: string;
+}
+
+/** Options for {@link engineAttach}. */
+export interface AttachOptions {
+  /** File name. Defaults to `file.name` for `File`s, otherwise `'file'`. */
+  name?: string;
+}
+
+/** A row in the `attachments` system table. */
+interface AttachmentRow {
+  id: string;
+  table: string;
+  entityId: string;
+  name: string;
+  type: string;
+  size: number;
+  /** `deleting` rows are hidden and wait for their object to be removed. */
+  status: AttachmentStatus | 'deleting';
+  createdAt: string;
+  /** Object path in the bucket, once known. */
+  path: string | null;
+  /** Cached content. */
+  blob?: Blob;
+  /** Last time the content was read or written (drives cache eviction). */
+  lastAccessedAt: string;
+  /** Failed transfer attempts since the last success. */
+  retries: number;
+  lastRetryAt?: string;
+  lastError?: string;
+}
+
+/** Default size of the local blob cache. */
+const DEFAULT_MAX_CACHE_BYTES = 50 * 1024 * 1024;
+
+/** Upper bound for the retry backoff. */
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * The configured bucket.
+ *
+ * @throws {Error} If `attachments` is missing from the engine config.
+ */
+function getBucket(): string {
+  const bucket = getEngineConfig().attachments?.bucket;
+  if (!bucket) {
+    throw new Error('Attachments are not configured: set `attachments.bucket` in initEngine.');
+  }
+  return bucket;
+}
+
+function store() {
+  return getDb().table(TABLE.ATTACHMENTS);
+}
+
+/** Resolve the Dexie table backing a Supabase table name or schema key. */
+function getEntityTable(table: string) {
+  const config = findTableConfig(table);
+  return getDb().table(config ? getDexieTableFor(config) : table);
+}
+
+/** Bucket folder holding an entity's files. */
+function folderOf(userId: string, table: string, entityId: string): string {
+  return `${userId}/${table}/${entityId}`;
+}
+
+/** Object name: the ID keeps names unique, the file name keeps them readable. */
+function objectName(row: AttachmentRow): string {
+  return `${row.id}-${row.name.replace(/[^\w.-]+/g, '_')}`;
+}
+
+function toAttachment(row: AttachmentRow): Attachment {
+  return {
+    id: row.id,
+    table: row.table,
+    entityId: row.entityId,
+    name: row.name,
+    type: row.type,
+    size: row.size,
+    status: row.status === 'deleting' ? 'synced' : row.status,
+    cached: row.blob !== undefined,
+    createdAt: row.createdAt,
+    ...(row.lastError ? { error: row.lastError } : {})
+  };
+}
+
+/** Whether a failed row's backoff window (1s, 2s, 4s, ... capped) has elapsed. */
+function isDue(row: AttachmentRow): boolean {
+  if (row.retries === 0 || !row.lastRetryAt) return true;
+  const backoffMs = Math.min(Math.pow(2, row.retries - 1) * 1000, MAX_BACKOFF_MS);
+  return Date.now() - new Date(row.lastRetryAt).getTime() >= backoffMs;
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Attach a file to an entity. The file is stored locally right away and
+ * uploaded on the next sync.
+ *
+ * @param table    - Supabase table name or schema key of the owning entity.
+ * @param entityId - Primary key of the owning entity.
+ * @param file     - The content (`File` or `Blob`).
+ * @param opts     - Optional file name.
+ * @returns The new attachment (`status: 'pending'`).
+ * @throws {Error} If attachments are not configured or the entity does not
+ *                 exist locally.
+ *
+ * @example
+ * ```ts
+ * const attachment = await engineAttach('notes', noteId, input.files[0]);
+ * ```
+ */
+export async function engineAttach(
+  table: string,
+  entityId: string,
+  file: Blob,
+  opts: AttachOptions = {}
+): Promise<Attachment> {
+  getBucket();
+  const supaTable = resolveSupabaseName(table);
+  const owner = await getEntityTable(table).get(entityId);
+  if (!owner || owner.deleted) {
+    throw new Error(`Cannot attach a file to missing entity ${supaTable}/${entityId}`);
+  }
+
+  const timestamp = now();
+  const row: AttachmentRow = {
+    id: generateId(),
+    table: supaTable,
+    entityId,
+    name: opts.name ?? (file as File).name ?? 'file',
+    type: file.type,
+    size: file.size,
+    status: 'pending',
+    createdAt: timestamp,
+    path: null,
+    blob: file,
+    lastAccessedAt: timestamp,
+    retries: 0
+  };
+  await store().add(row);
+  debugLog(`[Attachments] Queued ${row.name} (${row.size} bytes) for ${supaTable}/${entityId}`);
+  scheduleSyncPush();
+  return toAttachment(row);
+}
+
+/**
+ * List the files attached to an entity. When online, the entity's bucket
+ * folder is listed too, so files attached on other devices appear (with
+ * `cached: false` until downloaded).
+ *
+ * @param table    - Supabase table name or schema key of the owning entity.
+ * @param entityId - Primary key of the owning entity.
+ * @returns The attachments, oldest first.
+ */
+export async function engineListAttachments(
+  table: string,
+  entityId: string
+): Promise<Attachment[]> {
+  const supaTable = resolveSupabaseName(table);
+  const local = (await store()
+    .where('[table+entityId]')
+    .equals([supaTable, entityId])
+    .toArray()) as AttachmentRow[];
+
+  if (!isDemoMode() && isOnline()) {
+    try {
+      const session = await getSession();
+      if (session) {
+        const folder = folderOf(session.user.id, supaTable, entityId);
+        const { data, error } = await supabase.storage.from(getBucket()).list(folder);
+        if (error) throw error;
+        const known = new Set(local.map((row) => row.id));
+        const discovered: AttachmentRow[] = (data ?? [])
+          .filter((object) => object.name.length > 37 && !known.has(object.name.slice(0, 36)))
+          .map((object) => ({
+            id: object.name.slice(0, 36),
+            table: supaTable,
+            entityId,
+            name: object.name.slice(37),
+            type: (object.metadata?.mimetype as string) ?? '',
+            size: (object.metadata?.size as number) ?? 0,
+            status: 'synced',
+            createdAt: object.created_at ?? now(),
+            path: `${folder}/${object.name}`,
+            lastAccessedAt: now(),
+            retries: 0
+          }));
+        if (discovered.length > 0) {
+          await store().bulkPut(discovered);
+          local.push(...discovered);
+        }
+      }
+    } catch (e) {
+      debugWarn(`[Attachments] Failed to list remote files for ${supaTable}/${entityId}:`, e);
+    }
+  }
+
+  return local
+    .filter((row) => row.status !== 'deleting')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(toAttachment);
+}
+
+/**
+ * Read an attachment's content, downloading and caching it on first access.
+ *
+ * @param id - Attachment ID.
+ * @returns The content, or `null` when the attachment is unknown, or is not
+ *          cached and cannot be downloaded (offline, removed remotely).
+ *
+ * @example
+ * ```ts
+ * const blob = await engineGetAttachment(attachment.id);
+ * if (blob) img.src = URL.createObjectURL(blob);
+ * ```
+ */
+export async function engineGetAttachment(id: string): Promise<Blob | null> {
+  const row = (await store().get(id)) as AttachmentRow | undefined;
+  if (!row || row.status === 'deleting') return null;
+
+  if (row.blob) {
+    await store().update(id, { lastAccessedAt: now() });
+    return row.blob;
+  }
+
+  if (!row.path || isDemoMode() || !isOnline()) return null;
+  const { data, error } = await supabase.storage.from(getBucket()).download(row.path);
+  if (error || !data) {
+    debugWarn(`[Attachments] Download failed for ${row.path}:`, error);
+    return null;
+  }
+  await store().update(id, { blob: data, lastAccessedAt: now() });
+  await evictCache();
+  return data;
+}
+
+/**
+ * Remove an attachment. Local content is dropped immediately; the object is
+ * deleted from the bucket on the next sync (or never uploaded, if pending).
+ *
+ * @param id - Attachment ID.
+ */
+export async function engineRemoveAttachment(id: string): Promise<void> {
+  const row = (await store().get(id)) as AttachmentRow | undefined;
+  if (!row) return;
+  await markRemoved(row);
+  scheduleSyncPush();
+}
+
+// =============================================================================
+// QUEUE PROCESSING
+// =============================================================================
+
+/** Drop a row's content and either delete it or leave it for remote removal. */
+async function markRemoved(row: AttachmentRow): Promise<void> {
+  if (row.path) {
+    await store().put({ ...row, status: 'deleting', blob: undefined, retries: 0 });
+  } else {
+    await store().delete(row.id);
+  }
+}
+
+/**
+ * Garbage-collect attachments of entities that were tombstoned longer ago than
+ * `tombstoneMaxAgeDays` (removed locally and from the bucket) — until then
+ * `engineRestore` or undo can still bring the entity back with its files.
+ *
+ * Uploaded files of entities that are not cached locally (evicted by a sync
+ * filter, in an unloaded lazy table, not yet hydrated) are dropped from the
+ * local cache only. Pending uploads are kept: their blob exists nowhere else.
+ */
+async function collectGarbage(): Promise<void> {
+  const maxAgeDays = getEngineConfig().tombstoneMaxAgeDays ?? 7;
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - maxAgeDays);
+  const expiredBefore = cutoff.toISOString();
+
+  const rows = (await store().toArray()) as AttachmentRow[];
+  for (const row of rows) {
+    if (row.status === 'deleting') continue;
+    const owner = (await getEntityTable(row.table).get(row.entityId)) as
+      | Record<string, unknown>
+      | undefined;
+    if (owner) {
+      if (!owner.deleted || String(owner.updated_at ?? '') >= expiredBefore) continue;
+      await markRemoved(row);
+    } else {
+      if (row.status === 'pending') continue;
+      await store().delete(row.id);
+    }
+    debugLog(`[Attachments] Collected ${row.name} of removed ${row.table}/${row.entityId}`);
+  }
+}
+
+/** Evict least recently used blobs of uploaded files beyond the cache limit. */
+async function evictCache(): Promise<void> {
+  const limit = getEngineConfig().attachments?.maxCacheBytes ?? DEFAULT_MAX_CACHE_BYTES;
+  const cached = ((await store().toArray()) as AttachmentRow[]).filter((row) => row.blob);
+  let total = cached.reduce((sum, row) => sum + row.size, 0);
+  const evictable = cached
+    .filter((row) => row.status === 'synced')
+    .sort((a, b) => a.lastAccessedAt.localeCompare(b.lastAccessedAt));
+  for (const row of evictable) {
+    if (total <= limit) break;
+    await store().update(row.id, { blob: undefined });
+    total -= row.size;
+  }
+}
+
+/**
+ * Upload pending attachments and delete removed ones from the bucket.
+ * Called by the engine after each sync push; never throws.
+ *
+ * @param userId - The signed-in user (the first folder of every object path).
+ */
+export async function processAttachmentQueue(userId: string): Promise<void> {
+  if (isDemoMode() || !getEngineConfig().attachments) return;
+
+  try {
+    await collectGarbage();
+
+    const due = ((await store().toArray()) as AttachmentRow[]).filter(
+      (row) => (row.status === 'pending' || row.status === 'deleting') && isDue(row)
+    );
+    if (due.length === 0) return;
+
+    const bucket = supabase.storage.from(getBucket());
+    syncStatusStore.startProgress(due.length);
+    try {
+      for (const row of due) {
+        syncStatusStore.advanceProgress(0, 0, row.table);
+        try {
+          if (row.status === 'deleting') {
+            const { error } = await bucket.remove([row.path!]);
+            if (error) throw error;
+            await store().delete(row.id);
+          } else {
+            const path = `${folderOf(userId, row.table, row.entityId)}/${objectName(row)}`;
+            const { error } = await bucket.upload(path, row.blob!, {
+              contentType: row.type || undefined,
+              upsert: true
+            });
+            if (error) throw error;
+            await store().update(row.id, {
+              status: 'synced',
+              path,
+              retries: 0,
+              lastError: undefined
+            });
+          }
+          syncStatusStore.advanceProgress(1);
+        } catch (e) {
+          debugWarn(`[Attachments] Transfer failed for ${row.name}:`, e);
+          await store().update(row.id, {
+            retries: row.retries + 1,
+            lastRetryAt: now(),
+            lastError: e instanceof Error ? e.message : String(e)
+          });
+          syncStatusStore.advanceProgress(1, 1);
+        }
+      }
+    } finally {
+      syncStatusStore.clearProgress();
+    }
+
+    await evictCache();
+  } catch (e) {
+    debugError('[Attachments] Failed to process attachment queue:', e);
+  }
+}
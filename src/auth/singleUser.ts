@@ -69,6 +69,7 @@ import { getSession } from '../supabase/auth';
 import { debugLog, debugWarn, debugError } from '../debug';
 import { preCheckLogin, onLoginSuccess, onLoginFailure } from './loginGuard';
 import { isDemoMode } from '../demo';
+import { changeEncryptionSecret, lockEncryption, unlockEncryption } from '../encryption';
 import type { PreCheckStrategy } from './loginGuard';
 
 /** Singleton key used for the single config record in IndexedDB. */
@@ -141,6 +142,21 @@ async function writeConfig(config: SingleUserConfig): Promise<void> {
   await db.table(TABLE.SINGLE_USER_CONFIG).put(config);
 }
 
+/**
+ * Unlock field encryption with the verified gate when the engine is
+ * configured with `encryption.keySource: 'gate'`.
+ *
+ * Failures are logged, not returned — the user is signed in either way, and
+ * pushes to encrypted tables simply wait until a later unlock succeeds.
+ *
+ * @param gate - The gate the user just entered.
+ */
+async function unlockEncryptionWithGate(gate: string): Promise<void> {
+  if (getEngineConfig().encryption?.keySource !== 'gate') return;
+  const { error } = await unlockEncryption(gate);
+  if (error) debugWarn('[SingleUser] Failed to unlock field encryption:', error);
+}
+
 // =============================================================================
 // PUBLIC API
 // =============================================================================
@@ -344,6 +360,7 @@ export async function setupSingleUser(
           debugWarn('[SingleUser] Failed to trust device:', e);
         }
 
+        await unlockEncryptionWithGate(gate);
         authState.setSupabaseAuth(session);
         debugLog('[SingleUser] Setup complete (online, no confirmation needed), userId:', user.id);
       }
@@ -630,6 +647,9 @@ export async function unlockSingleUser(gate: string): Promise<{
         await writeConfig(config);
       }
 
+      /* The gate is verified and the device trusted — unlock field encryption
+         before any sync runs. An untrusted device returned above without it. */
+      await unlockEncryptionWithGate(gate);
       authState.setSupabaseAuth(session);
 
       /* Clear lock flag now that the user has successfully authenticated */
@@ -656,6 +676,8 @@ export async function unlockSingleUser(gate: string): Promise<{
         return { error: 'Incorrect code' };
       }
 
+      await unlockEncryptionWithGate(gate);
+
       /* Try to restore a cached Supabase session from the Supabase client's
          internal storage — this may still be valid if the token hasn't expired */
       const cachedSession = await getSession();
@@ -861,6 +883,7 @@ export async function lockSingleUser(): Promise<void> {
 
   syncStatusStore.reset();
   authState.setNoAuth();
+  lockEncryption();
 
   /* Persist lock state to IndexedDB so it survives page refreshes and
      new tab navigations (the Supabase session in localStorage would
@@ -938,12 +961,22 @@ export async function changeSingleUserGate(
         }
       }
 
+      /* Re-wrap the field-encryption key under the new gate first — a gate
+         change that left the key wrapped under the old gate would lock the
+         user out of their encrypted data. */
+      const rewrapKey = getEngineConfig().encryption?.keySource === 'gate';
+      if (rewrapKey) {
+        const { error: keyError } = await changeEncryptionSecret(oldGate, newGate);
+        if (keyError) return { error: `Failed to update encryption key: ${keyError}` };
+      }
+
       /* Update password in Supabase so all devices use the new gate */
       const { error: updateError } = await supabase.auth.updateUser({
         password: padPin(newGate)
       });
 
       if (updateError) {
+        if (rewrapKey) await changeEncryptionSecret(newGate, oldGate);
         return { error: `Failed to update code: ${updateError.message}` };
       }
     }
@@ -1415,6 +1448,7 @@ export async function linkSingleUserDevice(
       debugWarn('[SingleUser] Failed to create offline session on link:', e);
     }
 
+    await unlockEncryptionWithGate(pin);
     authState.setSupabaseAuth(session);
     debugLog('[SingleUser] Device linked successfully, userId:', user.id);
 
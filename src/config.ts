@@ -22,7 +22,14 @@
 
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type { Session } from '@supabase/supabase-js';
-import type { SingleUserGateType, SchemaDefinition, SchemaTableConfig, AuthConfig } from './types';
+import type {
+  SingleUserGateType,
+  SchemaDefinition,
+  SchemaTableConfig,
+  AuthConfig,
+  RetryPolicy,
+  SyncFilterCondition
+} from './types';
 import type { DemoConfig } from './demo';
 import { _setDebugPrefix } from './debug';
 import { _setDeviceIdPrefix } from './deviceId';
@@ -144,6 +151,28 @@ export interface SyncEngineConfig {
   /** Minimum time (ms) between online-reconnect syncs to avoid duplicate traffic. Default: 120000 (2 min). */
   onlineReconnectCooldownMs?: number;
 
+  /**
+   * Record local writes for `engineUndo` / `engineRedo`. Pass `true` for the
+   * default history size (100 actions) or `{ limit }` to change it.
+   * Default: disabled.
+   */
+  undo?: boolean | { limit?: number };
+
+  /**
+   * Field-level end-to-end encryption for schema fields marked `encrypted`.
+   * `keySource: 'gate'` unlocks the key with the single-user gate on every
+   * unlock; `'passphrase'` (default) leaves it to the app to call
+   * `unlockEncryption` with a separate passphrase.
+   */
+  encryption?: { keySource?: 'gate' | 'passphrase' };
+
+  /**
+   * File attachments (see `engineAttach`). `bucket` is the Supabase Storage
+   * bucket files are uploaded to; `maxCacheBytes` bounds the local cache of
+   * downloaded files (default 50 MB).
+   */
+  attachments?: { bucket: string; maxCacheBytes?: number };
+
   /**
    * Demo mode configuration. When provided, enables the demo mode system.
    * In demo mode, the app uses a separate sandboxed Dexie database, makes
@@ -190,6 +219,20 @@ export interface TableConfig {
   numericMergeFields?: string[];
   /** Optional callback invoked when a remote change arrives for this table via realtime. */
   onRemoteChange?: (table: string, record: Record<string, unknown>) => void;
+  /** Fields included in the local full-text search index (see `engineSearch`). */
+  searchFields?: string[];
+  /** Version history retention, when enabled (see `engineGetHistory`). */
+  history?: { limit?: number; maxAgeDays?: number };
+  /** Fields encrypted end-to-end before push (see `unlockEncryption`). */
+  encryptedFields?: string[];
+  /** `order` holds string order keys — schema `fields: { order: 'orderKey' }`. */
+  orderKeys?: boolean;
+  /** Conditions limiting which rows are replicated locally (see `SchemaTableConfig.syncFilter`). */
+  syncFilter?: SyncFilterCondition[] | (() => SyncFilterCondition[]);
+  /** When the table is downloaded (see `SchemaTableConfig.hydration`). @default 'eager' */
+  hydration?: 'eager' | 'lazy' | 'none';
+  /** How failed pushes are retried (see `SchemaTableConfig.retry`). */
+  retryPolicy?: RetryPolicy;
 }
 
 // =============================================================================
@@ -520,6 +563,15 @@ function generateTablesFromSchema(schema: SchemaDefinition, prefix: string): Tab
     if (config.excludeFromConflict) tableConfig.excludeFromConflict = config.excludeFromConflict;
     if (config.numericMergeFields) tableConfig.numericMergeFields = config.numericMergeFields;
     if (config.onRemoteChange) tableConfig.onRemoteChange = config.onRemoteChange;
+    if (config.searchable?.length) tableConfig.searchFields = config.searchable;
+    if (config.history) tableConfig.history = config.history === true ? {} : config.history;
+    if (config.encrypted?.length) tableConfig.encryptedFields = config.encrypted;
+    if (config.fields?.order === 'orderKey' || config.fields?.order === 'orderKey?') {
+      tableConfig.orderKeys = true;
+    }
+    if (config.syncFilter) tableConfig.syncFilter = config.syncFilter;
+    if (config.hydration) tableConfig.hydration = config.hydration;
+    if (config.retry) tableConfig.retryPolicy = config.retry;
 
     tables.push(tableConfig);
   }
@@ -20,8 +20,11 @@
  * **Tier 3 -- Same field on the same entity (STRATEGY-BASED)**
  *   When the exact same field was modified on both sides, a resolution strategy
  *   is selected based on the field's nature and any pending local operations:
- *     - **local_pending** -- The field has unsynced local ops; local value wins
- *       so user intent is never silently discarded.
+ *     - **intent_merge** -- Every unsynced local op on the field is an array,
+ *       toggle or patch intent; they are replayed on top of the remote value,
+ *       so both devices' edits survive (the server does the same on push).
+ *     - **local_pending** -- The field has other unsynced local ops; local
+ *       value wins so user intent is never silently discarded.
  *     - **numeric_merge** -- Reserved for fields declared in
  *       `numericMergeFields`; currently falls through to last-write-wins
  *       because true delta-merge requires an operation-inbox system.
@@ -71,6 +74,7 @@ import { debugLog, debugError, isDebugMode } from './debug';
 import { findTableConfig } from './config';
 import { getDb, TABLE } from './database';
 import { getDeviceId } from './deviceId';
+import { applyFieldOperation, isFieldIntent } from './intents';
 import type { SyncOperationItem } from './types';
 import type { ConflictHistoryEntry } from './types';
 
@@ -111,7 +115,7 @@ export interface FieldConflictResolution {
    * Which side's value was accepted.
    * - `'local'`  -- local device value was kept
    * - `'remote'` -- server value was kept
-   * - `'merged'` -- a new value was computed from both sides (e.g., numeric merge)
+   * - `'merged'` -- a new value was computed from both sides (e.g., intent merge)
    */
   winner: 'local' | 'remote' | 'merged';
 
@@ -121,10 +125,11 @@ export interface FieldConflictResolution {
    * - `'numeric_merge'` -- reserved for additive delta merge
    * - `'delete_wins'`   -- delete operation trumps edits
    * - `'local_pending'` -- unsynced local operation takes priority
+   * - `'intent_merge'`  -- unsynced array/toggle/patch intents replayed on the remote value
    *
    * @see the Tier 3 description in the file-level JSDoc for details
    */
-  strategy: 'last_write' | 'numeric_merge' | 'delete_wins' | 'local_pending';
+  strategy: 'last_write' | 'numeric_merge' | 'delete_wins' | 'local_pending' | 'intent_merge';
 }
 
 /**
@@ -460,7 +465,26 @@ export async function resolveConflicts(
     // Determine resolution strategy
     let resolution: FieldConflictResolution;
 
-    if (hasPendingOps) {
+    if (hasPendingOps && fieldOps.every((op) => isFieldIntent(op.operationType))) {
+      /* Tier 3a': Every pending op on this field is an array, toggle or patch
+         intent -- edits that build on whatever the value is. Replaying them
+         on the remote value keeps the other device's change and the user's
+         own, and matches what the server computes when the intents are
+         pushed. Ops are replayed in enqueue order. */
+      let resolvedValue = remoteValue;
+      for (const op of [...fieldOps].sort((a, b) => a.timestamp.localeCompare(b.timestamp))) {
+        resolvedValue = applyFieldOperation(op.operationType, resolvedValue, op.value);
+      }
+      resolution = {
+        field,
+        localValue,
+        remoteValue,
+        resolvedValue,
+        winner: 'merged',
+        strategy: 'intent_merge'
+      };
+      mergedEntity[field] = resolvedValue;
+    } else if (hasPendingOps) {
       /* Tier 3a: The user has an unsynced local operation touching this field.
          Local wins unconditionally so we never silently discard user intent
          that hasn't reached the server yet. The pending op will be pushed on
@@ -0,0 +1,323 @@
+/**
+ * @fileoverview Local Enforcement of Schema `uniqueConstraints`
+ *
+ * IndexedDB can only express single-column, non-partial unique indexes
+ * (Dexie's `&col`). Multi-column and partial constraints used to be enforced
+ * server-side only, so a duplicate created offline sat in the sync queue
+ * until push, where Postgres rejected it with a 23505 that the push loop
+ * swallows — leaving the local copy forever unsynced.
+ *
+ * This module checks every declared constraint against local data inside the
+ * write's own transaction, before the row is stored or queued:
+ *
+ * - All columns of the candidate row must be non-null for the constraint to
+ *   apply (SQL treats `NULL`s as distinct).
+ * - Partial constraints apply only when the `where` predicate holds, for both
+ *   the candidate and the existing row. Predicates are evaluated locally when
+ *   they are a conjunction (`and`) of simple comparisons:
+ *   `col is [not] null`, `col is [not] true|false`, and `col = | <> | != literal`
+ *   with string, number, boolean or `null` literals. Anything else (`or`,
+ *   functions, parentheses, ...) cannot be evaluated, so that constraint
+ *   stays server-enforced only.
+ * - Soft-deleted rows count, exactly like on the server, unless the predicate
+ *   excludes them (e.g. `where deleted = false`).
+ *
+ * Only rows present locally are compared, so constraints spanning other
+ * users' data are still caught by the server alone.
+ *
+ * @see {@link ./types} for `SchemaTableConfig.uniqueConstraints`
+ * @see {@link ./data} for the write paths that call these checks and `engineUpsert`
+ */
+
+import { findTableConfig, getDexieTableFor, getEngineConfig } from './config';
+import { getDb } from './database';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Thrown by engine writes that would duplicate a row under one of the
+ * table's declared `uniqueConstraints`. Nothing has been written locally or
+ * queued when it is thrown.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await engineCreate('projects', { user_id, slug: 'home' });
+ * } catch (e) {
+ *   if (e instanceof UniqueConstraintError) showError(`${e.columns.join(', ')} already taken`);
+ * }
+ * ```
+ */
+export class UniqueConstraintError extends Error {
+  /** Table the rejected write targeted. */
+  readonly table: string;
+  /** Columns of the violated constraint. */
+  readonly columns: string[];
+  /** Primary key of the existing row holding the same values. */
+  readonly existingId: string;
+
+  constructor(table: string, columns: string[], existingId: string) {
+    super(
+      `Unique constraint on ${table}(${columns.join(', ')}) violated: ` +
+        `row ${existingId} already has the same values.`
+    );
+    this.name = 'UniqueConstraintError';
+    this.table = table;
+    this.columns = columns;
+    this.existingId = existingId;
+  }
+}
+
+/** A declared unique constraint as written in the schema. */
+interface UniqueConstraint {
+  columns: string[];
+  where?: string;
+}
+
+/** One `<column> <op> <literal>` term of a partial-index predicate. */
+interface PredicateTerm {
+  column: string;
+  op: 'eq' | 'neq' | 'is' | 'is_not';
+  value: unknown;
+}
+
+// =============================================================================
+// PREDICATES
+// =============================================================================
+
+const IS_PATTERN = /^"?(\w+)"?\s+is\s+(not\s+)?(null|true|false)$/i;
+const COMPARE_PATTERN = /^"?(\w+)"?\s*(=|<>|!=)\s*(.+)$/;
+
+/** Parse a SQL literal, or return `undefined` when it is not a simple one. */
+function parseLiteral(text: string): unknown {
+  const trimmed = text.trim();
+  const quoted = /^'((?:[^']|'')*)'$/.exec(trimmed);
+  if (quoted) return quoted[1].replace(/''/g, "'");
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed);
+  const lower = trimmed.toLowerCase();
+  if (lower === 'true') return true;
+  if (lower === 'false') return false;
+  if (lower === 'null') return null;
+  return undefined;
+}
+
+/**
+ * Parse a partial-index `where` clause into AND-ed terms.
+ *
+ * @returns The terms, or `null` when the clause uses anything beyond the
+ *          supported subset and so cannot be evaluated locally.
+ */
+function parsePredicate(where: string): PredicateTerm[] | null {
+  if (/[()]/.test(where) || /\bor\b/i.test(where)) return null;
+  const terms: PredicateTerm[] = [];
+  for (const part of where.trim().split(/\s+and\s+/i)) {
+    const clause = part.trim();
+    const is = IS_PATTERN.exec(clause);
+    if (is) {
+      const literal = is[3].toLowerCase();
+      terms.push({
+        column: is[1],
+        op: is[2] ? 'is_not' : 'is',
+        value: literal === 'null' ? null : literal === 'true'
+      });
+      continue;
+    }
+    const compare = COMPARE_PATTERN.exec(clause);
+    const value = compare ? parseLiteral(compare[3]) : undefined;
+    if (!compare || value === undefined) return null;
+    terms.push({ column: compare[1], op: compare[2] === '=' ? 'eq' : 'neq', value });
+  }
+  return terms;
+}
+
+/** Evaluate parsed terms against a row with SQL semantics (`NULL` never compares equal). */
+function matchesPredicate(terms: PredicateTerm[], row: Record<string, unknown>): boolean {
+  return terms.every(({ column, op, value }) => {
+    const actual = row[column] ?? null;
+    switch (op) {
+      case 'is':
+        return actual === value;
+      case 'is_not':
+        return actual !== value;
+      case 'eq':
+        return actual !== null && value !== null && actual === value;
+      case 'neq':
+        return actual !== null && value !== null && actual !== value;
+    }
+  });
+}
+
+// =============================================================================
+// LOOKUP
+// =============================================================================
+
+/** The constraints declared for a table in the schema (empty in manual mode). */
+function getUniqueConstraints(table: string): UniqueConstraint[] {
+  const schema = getEngineConfig().schema;
+  if (!schema) return [];
+  const definition = schema[findTableConfig(table)?.schemaKey ?? table];
+  if (!definition || typeof definition === 'string') return [];
+  return definition.uniqueConstraints ?? [];
+}
+
+/** Resolve the Dexie table backing a Supabase table name or schema key. */
+function getDexieTable(table: string) {
+  const config = findTableConfig(table);
+  return getDb().table(config ? getDexieTableFor(config) : table);
+}
+
+/**
+ * Find an existing row (other than `row` itself) that holds the same values
+ * as `row` under `constraint`.
+ *
+ * @returns The conflicting row, or `null`. Also `null` when the constraint
+ *          does not apply to `row` or its predicate cannot be evaluated.
+ */
+async function findDuplicate(
+  table: string,
+  constraint: UniqueConstraint,
+  row: Record<string, unknown>
+): Promise<Record<string, unknown> | null> {
+  const terms = constraint.where ? parsePredicate(constraint.where) : [];
+  if (!terms || !matchesPredicate(terms, row)) return null;
+  if (constraint.columns.some((column) => row[column] === null || row[column] === undefined)) {
+    return null;
+  }
+
+  const dexieTable = getDexieTable(table);
+  /* Narrow with an index on one of the columns when there is one (booleans
+     are not valid IndexedDB keys); otherwise fall back to a scan. */
+  const indexed = constraint.columns.find(
+    (column) =>
+      dexieTable.schema.idxByName[column] &&
+      (typeof row[column] === 'string' || typeof row[column] === 'number')
+  );
+  const collection = indexed
+    ? dexieTable.where(indexed).equals(row[indexed] as string)
+    : dexieTable.toCollection();
+
+  const match = await collection
+    .filter(
+      (other: Record<string, unknown>) =>
+        other.id !== row.id &&
+        constraint.columns.every((column) => other[column] === row[column]) &&
+        matchesPredicate(terms, other)
+    )
+    .first();
+  return (match as Record<string, unknown> | undefined) ?? null;
+}
+
+// =============================================================================
+// ENFORCEMENT
+// =============================================================================
+
+/**
+ * Check a row about to be created against the table's unique constraints.
+ * Must run inside the write's transaction so concurrent writes cannot slip
+ * a duplicate in between.
+ *
+ * @param table - Supabase table name or schema key.
+ * @param row   - The full row that will be stored.
+ * @throws {UniqueConstraintError} If an existing row holds the same values.
+ */
+export async function assertUniqueCreate(
+  table: string,
+  row: Record<string, unknown>
+): Promise<void> {
+  for (const constraint of getUniqueConstraints(table)) {
+    const duplicate = await findDuplicate(table, constraint, row);
+    if (duplicate) {
+      throw new UniqueConstraintError(table, constraint.columns, duplicate.id as string);
+    }
+  }
+}
+
+/**
+ * Check an update against the table's unique constraints, using the row as
+ * it will be after the update. Only constraints whose columns (or predicate
+ * columns) are touched by `fields` are checked. Missing rows are ignored.
+ *
+ * @param table  - Supabase table name or schema key.
+ * @param id     - Primary key of the row being updated.
+ * @param fields - The fields being written.
+ * @throws {UniqueConstraintError} If another row holds the same values.
+ */
+export async function assertUniqueUpdate(
+  table: string,
+  id: string,
+  fields: Record<string, unknown>
+): Promise<void> {
+  const constraints = getUniqueConstraints(table).filter((constraint) => {
+    const columns = [
+      ...constraint.columns,
+      ...(parsePredicate(constraint.where ?? '') ?? []).map((term) => term.column)
+    ];
+    return columns.some((column) => column in fields);
+  });
+  if (constraints.length === 0) return;
+
+  const current = (await getDexieTable(table).get(id)) as Record<string, unknown> | undefined;
+  if (!current) return;
+  const row = { ...current, ...fields };
+  for (const constraint of constraints) {
+    const duplicate = await findDuplicate(table, constraint, row);
+    if (duplicate) {
+      throw new UniqueConstraintError(table, constraint.columns, duplicate.id as string);
+    }
+  }
+}
+
+/**
+ * Compute the keys a row occupies under the table's unique constraints, for
+ * in-memory deduplication of large inputs. Constraints that do not apply to
+ * the row (a `null` column, an unsatisfied or unevaluable `where`) yield no key.
+ *
+ * @param table - Supabase table name or schema key.
+ * @param row   - The row to key.
+ * @returns One opaque `key` per applicable constraint, with the constraint's
+ *          `columns`; two rows conflict when they share a key.
+ */
+export function getUniqueKeys(
+  table: string,
+  row: Record<string, unknown>
+): { key: string; columns: string[] }[] {
+  const keys: { key: string; columns: string[] }[] = [];
+  getUniqueConstraints(table).forEach((constraint, i) => {
+    const terms = constraint.where ? parsePredicate(constraint.where) : [];
+    if (!terms || !matchesPredicate(terms, row)) return;
+    const values = constraint.columns.map((column) => row[column] ?? null);
+    if (values.includes(null)) return;
+    keys.push({ key: `${i}:${JSON.stringify(values)}`, columns: constraint.columns });
+  });
+  return keys;
+}
+
+/**
+ * Find the row an upsert should update: the one matching `match` under the
+ * declared constraint whose columns are exactly the keys of `match`.
+ *
+ * @param table - Supabase table name or schema key.
+ * @param match - Values for every column of one declared unique constraint.
+ * @param values - The values being upserted (used to evaluate `where`).
+ * @returns The existing row (possibly soft-deleted), or `null`.
+ * @throws {Error} If no declared constraint has exactly the columns of `match`.
+ */
+export async function findUpsertTarget(
+  table: string,
+  match: Record<string, unknown>,
+  values: Record<string, unknown>
+): Promise<Record<string, unknown> | null> {
+  const keys = Object.keys(match).sort();
+  const constraint = getUniqueConstraints(table).find(
+    (c) => c.columns.length === keys.length && [...c.columns].sort().every((k, i) => k === keys[i])
+  );
+  if (!constraint) {
+    throw new Error(
+      `engineUpsert: ${table} declares no unique constraint on (${keys.join(', ')}). ` +
+        'Add it to the schema `uniqueConstraints`.'
+    );
+  }
+  return findDuplicate(table, constraint, { ...values, ...match, id: undefined });
+}
@@ -8,7 +8,7 @@
  * - Callers reference tables by their **Supabase** name (the remote/canonical name).
  * - Internally, every operation resolves that name to the corresponding **Dexie**
  *   (IndexedDB) table name via the configured table map.
- * - All write operations (create, update, delete, increment, batch) follow the
+ * - All write operations (create, update, delete, increment, field intents, batch) follow the
  *   same transactional pattern:
  *     1. Open a Dexie read-write transaction spanning the target table + syncQueue.
  *     2. Apply the mutation locally.
@@ -28,8 +28,14 @@
  * @see {@link ./conflicts} for conflict resolution during sync pull
  */
 
-import { getTableMap, getTableColumns, resolveSupabaseName } from './config';
-import { getDb } from './database';
+import {
+  findTableConfig,
+  getEngineConfig,
+  getTableMap,
+  getTableColumns,
+  resolveSupabaseName
+} from './config';
+import { getDb, TABLE } from './database';
 import {
   queueCreateOperation,
   queueDeleteOperation,
@@ -37,11 +43,39 @@ import {
   enterBatchMode,
   exitBatchMode
 } from './queue';
-import { markEntityModified, scheduleSyncPush, hasHydrated } from './engine';
-import { generateId, now } from './utils';
+import { markEntityModified, scheduleSyncPush, hasHydrated, loadTable } from './engine';
+import {
+  compareOrder,
+  generateId,
+  isOrderKey,
+  now,
+  orderKeyBetween,
+  spreadOrderKeys
+} from './utils';
 import { debugError } from './debug';
 import { supabase } from './supabase/client';
 import { isDemoMode } from './demo';
+import { updateSearchIndex } from './search';
+import { byOrder, collectDescendants, loadRelations } from './relations';
+import { validateWrite } from './validation';
+import { assertUniqueCreate, assertUniqueUpdate, findUpsertTarget } from './constraints';
+import {
+  describeChange,
+  describeIncrement,
+  isUndoEnabled,
+  recordUndo,
+  settleHistoryEntry,
+  takeHistoryEntry
+} from './undo';
+import type { UndoChange, UndoOperation } from './undo';
+import type { SyncOperationItem } from './types';
+import { findVersion, isVersioned, recordVersion } from './versions';
+import { decryptRow, decryptRows } from './encryption';
+import { getSyncFilter } from './syncFilter';
+import { query } from './query';
+import type { QueryBuilder } from './query';
+import { applyFieldOperation, toPatchPath } from './intents';
+import type { FieldIntentType, JsonPatchEntry } from './intents';
 
 // =============================================================================
 // HELPERS
@@ -65,6 +99,74 @@ function getDexieTableName(supabaseName: string): string {
   return map[supabaseName] || supabaseName;
 }
 
+/**
+ * Pick the current values of the given fields from a row, for undo history.
+ * `updated_at` is skipped (every write sets it) and absent fields map to `null`.
+ */
+function snapshotFields(row: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(
+    keys.filter((key) => key !== 'updated_at').map((key) => [key, row[key] ?? null])
+  );
+}
+
+/** Undo history for creating a row: undo tombstones it, redo brings it back. */
+function describeCreate(table: string, id: string): UndoChange {
+  return describeChange(table, id, { deleted: true }, { deleted: false });
+}
+
+/**
+ * Queue the sync operation for a local update that has just been written.
+ *
+ * Normally a `set` of the updated fields. An update that un-deletes a
+ * tombstone (`deleted: false`) while neither a create nor a delete is queued
+ * for the row is queued as a `create` of the whole row instead: its create
+ * may have been cancelled against its delete by queue coalescing, in which
+ * case the server never had the row and a `set` would update nothing. Creates
+ * are pushed as upserts, so this also un-deletes a row the server does have.
+ *
+ * Must run inside a transaction that includes the table and `syncQueue`.
+ *
+ * @param table        - The Supabase table name.
+ * @param id           - The primary key of the updated row.
+ * @param updateFields - The fields written, including `updated_at`.
+ * @param wasDeleted   - Whether the row was a tombstone before the update.
+ */
+async function queueUpdateOperation(
+  table: string,
+  id: string,
+  updateFields: Record<string, unknown>,
+  wasDeleted: boolean
+): Promise<void> {
+  const db = getDb();
+  const supaTable = resolveSupabaseName(table);
+  if (wasDeleted && updateFields.deleted === false) {
+    const queued = (await db
+      .table('syncQueue')
+      .where('entityId')
+      .equals(id)
+      .toArray()) as SyncOperationItem[];
+    const pending = queued.some(
+      (item) =>
+        item.table === supaTable &&
+        (item.operationType === 'create' || item.operationType === 'delete')
+    );
+    const row = (await db.table(getDexieTableName(supaTable)).get(id)) as
+      | Record<string, unknown>
+      | undefined;
+    if (!pending && row) {
+      const { id: _id, _version: _v, ...queuePayload } = row;
+      await queueCreateOperation(supaTable, id, queuePayload);
+      return;
+    }
+  }
+  await queueSyncOperation({
+    table: supaTable,
+    entityId: id,
+    operationType: 'set',
+    value: updateFields
+  });
+}
+
 // =============================================================================
 // SINGLE-ENTITY WRITE OPERATIONS
 // =============================================================================
@@ -90,6 +192,9 @@ function getDexieTableName(supabaseName: string): string {
  * @returns The created entity payload (with `id` guaranteed to be present).
  *
  * @throws {Dexie.ConstraintError} If an entity with the same `id` already exists.
+ * @throws {ValidationError} If the payload does not match the schema `fields`.
+ * @throws {UniqueConstraintError} If the row duplicates one under a declared
+ *                                 `uniqueConstraints` entry.
  *
  * @example
  * ```ts
@@ -121,20 +226,25 @@ export async function engineCreate(
     ...data,
     id: entityId
   };
+  validateWrite(table, payload, 'create');
 
   /* The queue stores `id` as a separate column, so we strip it from the payload
      to avoid duplicating it in the serialized operation data. */
   const { id: _id, ...queuePayload } = payload;
 
   await db.transaction('rw', [db.table(dexieTable), db.table('syncQueue')], async () => {
+    await assertUniqueCreate(table, payload);
     await db.table(dexieTable).add(payload);
     await queueCreateOperation(supaTable, entityId, queuePayload);
   });
 
   /* Post-transaction side effects: these are intentionally outside the transaction
-     because they are non-critical (UI reactivity + debounced network push). */
+     because they are non-critical (UI reactivity + debounced network push +
+     derived search index + undo history). */
+  if (isUndoEnabled()) recordUndo([describeCreate(table, entityId)]);
   markEntityModified(entityId);
   scheduleSyncPush();
+  await updateSearchIndex(table, [entityId]);
 
   return payload;
 }
@@ -155,6 +265,10 @@ export async function engineCreate(
  * @param fields - A partial record of fields to merge into the entity.
  * @returns The fully updated entity record, or `undefined` if the entity was not found.
  *
+ * @throws {ValidationError} If the fields do not match the schema `fields`.
+ * @throws {UniqueConstraintError} If the updated row would duplicate another
+ *                                 under a declared `uniqueConstraints` entry.
+ *
  * @example
  * ```ts
  * const updated = await engineUpdate('tasks', taskId, { title: 'New title' });
@@ -174,9 +288,17 @@ export async function engineUpdate(
   const supaTable = resolveSupabaseName(table);
   const timestamp = now();
   const updateFields = { ...fields, updated_at: timestamp };
+  validateWrite(table, updateFields, 'update');
 
+  const recording = isUndoEnabled();
+  const versioned = isVersioned(table);
   let updated: Record<string, unknown> | undefined;
-  await db.transaction('rw', [db.table(dexieTable), db.table('syncQueue')], async () => {
+  let change: UndoChange | undefined;
+  const scope = [db.table(dexieTable), db.table('syncQueue'), db.table(TABLE.ENTITY_VERSIONS)];
+  await db.transaction('rw', scope, async () => {
+    await assertUniqueUpdate(table, id, fields);
+    const previous = recording || versioned ? await db.table(dexieTable).get(id) : undefined;
+    await recordVersion(table, previous, 'local');
     await db.table(dexieTable).update(id, updateFields);
     /* Re-read the entity after update to return the complete merged record,
        and to verify the entity actually existed before queuing a sync op. */
@@ -188,12 +310,23 @@ export async function engineUpdate(
         operationType: 'set',
         value: updateFields
       });
+      if (previous) {
+        const keys = Object.keys(fields);
+        change = describeChange(
+          table,
+          id,
+          snapshotFields(previous, keys),
+          snapshotFields(updated, keys)
+        );
+      }
     }
   });
 
   if (updated) {
+    if (change) recordUndo([change]);
     markEntityModified(id);
     scheduleSyncPush();
+    await updateSearchIndex(table, [id]);
   }
 
   return updated;
@@ -210,8 +343,15 @@ export async function engineUpdate(
  * The entity remains in the local Dexie store (with `deleted: true`) until a
  * future compaction or full re-sync removes it.
  *
+ * With `cascade: true`, every non-deleted descendant reachable through the
+ * schema's `ownership: { parent, fk }` declarations is tombstoned too, in one
+ * {@link engineBatchWrite} (deepest rows first). The cascaded rows are
+ * recorded locally so {@link engineRestore} can bring them back together.
+ *
  * @param table - The Supabase table name.
  * @param id    - The primary key of the entity to soft-delete.
+ * @param opts  - Optional configuration.
+ * @param opts.cascade - If `true`, also soft-delete child rows. Defaults to `false`.
  * @returns Resolves when the local update and queue entry are committed.
  *
  * @example
@@ -219,23 +359,157 @@ export async function engineUpdate(
  * await engineDelete('tasks', taskId);
  * // The task still exists locally with deleted: true
  * // It will be synced as a deletion on the next push
+ *
+ * // Delete a list and all of its goals
+ * await engineDelete('goal_lists', listId, { cascade: true });
  * ```
  *
  * @see {@link queueDeleteOperation} for the delete queue entry format
+ * @see {@link engineRestore} to undo a (cascading) delete
  */
-export async function engineDelete(table: string, id: string): Promise<void> {
+export async function engineDelete(
+  table: string,
+  id: string,
+  opts?: { cascade?: boolean }
+): Promise<void> {
+  if (opts?.cascade) {
+    const descendants = await collectDescendants(table, id);
+    if (descendants.length > 0) {
+      const record: CascadeRecord = {
+        id: `${resolveSupabaseName(table)}:${id}`,
+        deletedAt: now(),
+        children: descendants
+      };
+      /* The record commits with the tombstones, so a restore always finds
+         the children of a cascade that happened. */
+      await runBatchWrite(
+        [
+          ...descendants.map((d) => ({ type: 'delete' as const, table: d.table, id: d.id })),
+          { type: 'delete', table, id }
+        ],
+        {
+          tables: [TABLE.CASCADE_DELETES],
+          write: async () => {
+            await getDb().table(TABLE.CASCADE_DELETES).put(record);
+          }
+        }
+      );
+      return;
+    }
+  }
+
   const db = getDb();
   const dexieTable = getDexieTableName(table);
   const supaTable = resolveSupabaseName(table);
   const timestamp = now();
 
-  await db.transaction('rw', [db.table(dexieTable), db.table('syncQueue')], async () => {
+  const recording = isUndoEnabled();
+  const versioned = isVersioned(table);
+  let change: UndoChange | undefined;
+  const scope = [db.table(dexieTable), db.table('syncQueue'), db.table(TABLE.ENTITY_VERSIONS)];
+  await db.transaction('rw', scope, async () => {
+    const previous = recording || versioned ? await db.table(dexieTable).get(id) : undefined;
+    await recordVersion(table, previous, 'local');
     await db.table(dexieTable).update(id, { deleted: true, updated_at: timestamp });
     await queueDeleteOperation(supaTable, id);
+    if (previous && !previous.deleted) {
+      change = describeChange(table, id, { deleted: false }, { deleted: true });
+    }
   });
 
+  if (change) recordUndo([change]);
   markEntityModified(id);
   scheduleSyncPush();
+  await updateSearchIndex(table, [id]);
+}
+
+/**
+ * A row in the `cascadeDeletes` system table: the descendants tombstoned by
+ * one cascading {@link engineDelete}, keyed by `<supabaseTable>:<rootId>`.
+ */
+interface CascadeRecord {
+  id: string;
+  /** ISO timestamp of the cascading delete (pruned with expired tombstones). */
+  deletedAt: string;
+  /** Tombstoned descendants, deepest first (`table` is the schema key). */
+  children: Array<{ table: string; id: string }>;
+}
+
+/**
+ * Un-delete a soft-deleted entity, together with any children that were
+ * tombstoned by a cascading {@link engineDelete} of it.
+ *
+ * The restore is queued as ordinary `set` operations of `deleted: false` in
+ * one {@link engineBatchWrite}, so it syncs like any other update. If the
+ * original delete is still waiting in the queue, coalescing cancels it. A row
+ * whose create was cancelled against its delete before it was pushed is
+ * queued as a full create instead, so the server still gets it.
+ * Children deleted separately (before the cascade) stay deleted.
+ *
+ * Cascaded children are tracked on the device that performed the delete;
+ * on other devices only the entity itself is restored.
+ *
+ * @param table - The Supabase table name.
+ * @param id    - The primary key of the entity to restore.
+ * @returns The restored entity, the entity unchanged if it was not deleted,
+ *          or `undefined` if it no longer exists locally.
+ *
+ * @throws {Error} If the tombstone is older than `tombstoneMaxAgeDays` and may
+ *                 already have been hard-deleted on the server.
+ *
+ * @example
+ * ```ts
+ * await engineDelete('goal_lists', listId, { cascade: true });
+ * await engineRestore('goal_lists', listId); // list and its goals are back
+ * ```
+ */
+export async function engineRestore(
+  table: string,
+  id: string
+): Promise<Record<string, unknown> | undefined> {
+  const db = getDb();
+  const dexieTable = getDexieTableName(table);
+  const row = (await db.table(dexieTable).get(id)) as Record<string, unknown> | undefined;
+  if (!row || !row.deleted) return row;
+
+  const maxAgeDays = getEngineConfig().tombstoneMaxAgeDays ?? 7;
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - maxAgeDays);
+  if ((row.updated_at as string) < cutoff.toISOString()) {
+    throw new Error(
+      `Cannot restore ${table}/${id}: it was deleted more than ${maxAgeDays} days ago ` +
+        '(tombstoneMaxAgeDays) and may already be purged from the server.'
+    );
+  }
+
+  const recordId = `${resolveSupabaseName(table)}:${id}`;
+  const record = (await db.table(TABLE.CASCADE_DELETES).get(recordId)) as CascadeRecord | undefined;
+
+  /* Restore parents before children — the reverse of the delete order. Only
+     children that are still tombstoned (and still present) are touched. */
+  const operations: BatchOperation[] = [{ type: 'update', table, id, fields: { deleted: false } }];
+  for (const child of [...(record?.children ?? [])].reverse()) {
+    const current = (await db.table(getDexieTableName(child.table)).get(child.id)) as
+      | Record<string, unknown>
+      | undefined;
+    if (current?.deleted) {
+      operations.push({
+        type: 'update',
+        table: child.table,
+        id: child.id,
+        fields: { deleted: false }
+      });
+    }
+  }
+
+  await runBatchWrite(operations, {
+    tables: [TABLE.CASCADE_DELETES],
+    write: async () => {
+      if (record) await db.table(TABLE.CASCADE_DELETES).delete(recordId);
+    }
+  });
+
+  return (await db.table(dexieTable).get(id)) as Record<string, unknown> | undefined;
 }
 
 // =============================================================================
@@ -296,6 +570,10 @@ export type BatchOperation =
  * @returns Resolves when all operations have been committed.
  *
  * @throws {Dexie.AbortError} If any operation fails, the entire batch is rolled back.
+ * @throws {ValidationError} If any create/update payload does not match the
+ *                           schema `fields` (checked before anything is written).
+ * @throws {UniqueConstraintError} If any create/update violates a declared
+ *                                 `uniqueConstraints` entry (the batch is rolled back).
  *
  * @example
  * ```ts
@@ -311,6 +589,18 @@ export type BatchOperation =
  * @see {@link engineDelete} for single-entity delete semantics
  */
 export async function engineBatchWrite(operations: BatchOperation[]): Promise<void> {
+  await runBatchWrite(operations);
+}
+
+/**
+ * Implementation of {@link engineBatchWrite}. `extra.write` runs at the end
+ * of the same Dexie transaction, with `extra.tables` added to its scope — for
+ * bookkeeping that must commit (or roll back) together with the batch.
+ */
+async function runBatchWrite(
+  operations: BatchOperation[],
+  extra?: { tables: string[]; write: () => Promise<void> }
+): Promise<void> {
   const db = getDb();
   const timestamp = now();
 
@@ -319,12 +609,31 @@ export async function engineBatchWrite(operations: BatchOperation[]): Promise<vo
      upfront, avoiding deadlocks with concurrent transactions. */
   const tableNames = new Set<string>();
   tableNames.add('syncQueue');
+  tableNames.add(TABLE.ENTITY_VERSIONS);
   for (const op of operations) {
     tableNames.add(getDexieTableName(op.table));
   }
+  for (const name of extra?.tables ?? []) tableNames.add(name);
+
+  /* Validate every operation up front so an invalid one rejects the whole
+     batch before anything is written or queued. */
+  for (const op of operations) {
+    if (op.type === 'create') {
+      validateWrite(
+        op.table,
+        { created_at: timestamp, updated_at: timestamp, deleted: false, ...op.data },
+        'create'
+      );
+    } else if (op.type === 'update') {
+      validateWrite(op.table, { ...op.fields, updated_at: timestamp }, 'update');
+    }
+  }
 
   const tables = Array.from(tableNames).map((name) => db.table(name));
   const modifiedIds: string[] = [];
+  const modifiedByTable = new Map<string, string[]>();
+  const recording = isUndoEnabled();
+  const changes: UndoChange[] = [];
 
   // Suppress per-item eager pending count updates during the batch.
   // A single count is done after the transaction commits, turning
@@ -337,6 +646,8 @@ export async function engineBatchWrite(operations: BatchOperation[]): Promise<vo
         const dexieTable = getDexieTableName(op.table);
 
         const supaTable = resolveSupabaseName(op.table);
+        if (!modifiedByTable.has(op.table)) modifiedByTable.set(op.table, []);
+        const tableIds = modifiedByTable.get(op.table)!;
 
         switch (op.type) {
           case 'create': {
@@ -349,31 +660,62 @@ export async function engineBatchWrite(operations: BatchOperation[]): Promise<vo
               id: entityId
             };
             const { id: _id, ...queuePayload } = payload;
+            await assertUniqueCreate(op.table, payload);
             await db.table(dexieTable).add(payload);
             await queueCreateOperation(supaTable, entityId, queuePayload);
+            if (recording) changes.push(describeCreate(op.table, entityId));
             modifiedIds.push(entityId);
+            tableIds.push(entityId);
             break;
           }
           case 'update': {
             const updateFields = { ...op.fields, updated_at: timestamp };
+            await assertUniqueUpdate(op.table, op.id, op.fields);
+            /* The previous row also tells whether this un-deletes a tombstone
+               (engineRestore), which may need a create — see queueUpdateOperation. */
+            const previous =
+              recording || isVersioned(op.table) || op.fields.deleted === false
+                ? await db.table(dexieTable).get(op.id)
+                : undefined;
+            if (recording || isVersioned(op.table)) {
+              await recordVersion(op.table, previous, 'local');
+              if (recording && previous) {
+                const keys = Object.keys(op.fields);
+                changes.push(
+                  describeChange(
+                    op.table,
+                    op.id,
+                    snapshotFields(previous, keys),
+                    snapshotFields({ ...previous, ...op.fields }, keys)
+                  )
+                );
+              }
+            }
             await db.table(dexieTable).update(op.id, updateFields);
-            await queueSyncOperation({
-              table: supaTable,
-              entityId: op.id,
-              operationType: 'set',
-              value: updateFields
-            });
+            await queueUpdateOperation(op.table, op.id, updateFields, !!previous?.deleted);
             modifiedIds.push(op.id);
+            tableIds.push(op.id);
             break;
           }
           case 'delete': {
+            if (recording || isVersioned(op.table)) {
+              const previous = await db.table(dexieTable).get(op.id);
+              await recordVersion(op.table, previous, 'local');
+              if (recording && previous && !previous.deleted) {
+                changes.push(
+                  describeChange(op.table, op.id, { deleted: false }, { deleted: true })
+                );
+              }
+            }
             await db.table(dexieTable).update(op.id, { deleted: true, updated_at: timestamp });
             await queueDeleteOperation(supaTable, op.id);
             modifiedIds.push(op.id);
+            tableIds.push(op.id);
             break;
           }
         }
       }
+      if (extra) await extra.write();
     });
   } finally {
     // Single pending count update now that all items are queued.
@@ -383,11 +725,428 @@ export async function engineBatchWrite(operations: BatchOperation[]): Promise<vo
 
   /* Batch-notify all modified entities after the transaction commits.
      A single scheduleSyncPush() call is sufficient because the push logic
-     drains the entire queue, not just one entry. */
+     drains the entire queue, not just one entry. The whole batch is one
+     undo entry. */
+  recordUndo(changes);
   for (const id of modifiedIds) {
     markEntityModified(id);
   }
   scheduleSyncPush();
+  for (const [table, ids] of modifiedByTable) {
+    await updateSearchIndex(table, ids);
+  }
+}
+
+// =============================================================================
+// INTERACTIVE TRANSACTIONS
+// =============================================================================
+
+/**
+ * Transaction-scoped read/write handle passed to the {@link engineTransaction}
+ * callback. Every call runs inside the same Dexie transaction, so reads see
+ * the transaction's own earlier writes.
+ *
+ * Only tables listed in the `tables` argument of {@link engineTransaction}
+ * may be used; anything else throws.
+ */
+export interface EngineTransaction {
+  /** Read one entity by primary key (including soft-deleted rows), or `null`. */
+  get<T extends Record<string, unknown> = Record<string, unknown>>(
+    table: string,
+    id: string
+  ): Promise<T | null>;
+  /**
+   * Start a local query on a table. Remote fallback must not be used here —
+   * a network request would let the transaction commit early.
+   */
+  query<T extends Record<string, unknown> = Record<string, unknown>>(
+    table: string
+  ): QueryBuilder<T>;
+  /** Same semantics as {@link engineCreate}. */
+  create(table: string, data: Record<string, unknown>): Promise<Record<string, unknown>>;
+  /** Same semantics as {@link engineUpdate}. */
+  update(
+    table: string,
+    id: string,
+    fields: Record<string, unknown>
+  ): Promise<Record<string, unknown> | undefined>;
+  /** Same semantics as {@link engineDelete} without `cascade`. */
+  delete(table: string, id: string): Promise<void>;
+}
+
+/**
+ * Run a read-modify-write sequence atomically.
+ *
+ * Unlike {@link engineBatchWrite}, which takes a precomputed list of
+ * operations, the callback can read current state and decide what to write
+ * based on it. All local writes and their sync queue entries commit together
+ * when the callback resolves, or are rolled back together if it throws.
+ *
+ * After commit, modified entities are marked, the search index is refreshed,
+ * and a single sync push is scheduled — exactly as for a batch write.
+ *
+ * The callback must only await work done through `tx` (or other IndexedDB
+ * calls on the listed tables). Awaiting a network request or a timer lets
+ * IndexedDB commit the transaction early, after which further `tx` calls
+ * fail. Call `tx` methods rather than `engineCreate` & co. inside the callback.
+ *
+ * @param tables - Supabase table names (or schema keys) the callback will use.
+ * @param fn     - The transaction body. Its resolved value is returned.
+ * @returns Whatever `fn` resolves to, once the transaction has committed.
+ *
+ * @throws {ValidationError} If a write does not match the schema `fields`
+ *                           (the whole transaction is rolled back).
+ * @throws {UniqueConstraintError} If a write violates a declared
+ *                                 `uniqueConstraints` entry (also rolled back).
+ * @throws {Error} If `tx` is used with a table not listed in `tables`.
+ *
+ * @example
+ * ```ts
+ * const task = await engineTransaction(['tasks'], async (tx) => {
+ *   const last = await tx.query<Task>('tasks')
+ *     .where('project_id', 'eq', projectId)
+ *     .orderBy('order', 'desc')
+ *     .first();
+ *   return tx.create('tasks', { title, project_id: projectId, order: (last?.order ?? 0) + 1 });
+ * });
+ * ```
+ *
+ * @see {@link engineBatchWrite} for precomputed atomic writes
+ */
+export async function engineTransaction<R>(
+  tables: string[],
+  fn: (tx: EngineTransaction) => Promise<R>
+): Promise<R> {
+  const db = getDb();
+  const timestamp = now();
+  const scope = new Set(tables.map((t) => getDexieTableName(t)));
+  const modifiedByTable = new Map<string, string[]>();
+  const recording = isUndoEnabled();
+  const changes: UndoChange[] = [];
+
+  /** Resolve a table's Dexie name, rejecting tables outside the transaction scope. */
+  const scoped = (table: string): string => {
+    const dexieTable = getDexieTableName(table);
+    if (!scope.has(dexieTable)) {
+      throw new Error(
+        `Table ${table} is not part of this transaction. Add it to the tables passed to engineTransaction().`
+      );
+    }
+    return dexieTable;
+  };
+  const track = (table: string, id: string) => {
+    if (!modifiedByTable.has(table)) modifiedByTable.set(table, []);
+    modifiedByTable.get(table)!.push(id);
+  };
+
+  const tx: EngineTransaction = {
+    async get<T extends Record<string, unknown>>(table: string, id: string) {
+      return ((await db.table(scoped(table)).get(id)) as T | undefined) ?? null;
+    },
+
+    query<T extends Record<string, unknown>>(table: string) {
+      scoped(table);
+      return query<T>(table);
+    },
+
+    async create(table, data) {
+      const dexieTable = scoped(table);
+      const entityId = (data.id as string) || generateId();
+      const payload = {
+        created_at: timestamp,
+        updated_at: timestamp,
+        deleted: false,
+        ...data,
+        id: entityId
+      };
+      validateWrite(table, payload, 'create');
+      const { id: _id, ...queuePayload } = payload;
+      await assertUniqueCreate(table, payload);
+      await db.table(dexieTable).add(payload);
+      await queueCreateOperation(resolveSupabaseName(table), entityId, queuePayload);
+      if (recording) changes.push(describeCreate(table, entityId));
+      track(table, entityId);
+      return payload;
+    },
+
+    async update(table, id, fields) {
+      const dexieTable = scoped(table);
+      const updateFields = { ...fields, updated_at: timestamp };
+      validateWrite(table, updateFields, 'update');
+      await assertUniqueUpdate(table, id, fields);
+      const previous =
+        recording || isVersioned(table) ? await db.table(dexieTable).get(id) : undefined;
+      await recordVersion(table, previous, 'local');
+      await db.table(dexieTable).update(id, updateFields);
+      const updated = (await db.table(dexieTable).get(id)) as Record<string, unknown> | undefined;
+      if (updated) {
+        await queueSyncOperation({
+          table: resolveSupabaseName(table),
+          entityId: id,
+          operationType: 'set',
+          value: updateFields
+        });
+        if (previous) {
+          const keys = Object.keys(fields);
+          changes.push(
+            describeChange(table, id, snapshotFields(previous, keys), snapshotFields(updated, keys))
+          );
+        }
+        track(table, id);
+      }
+      return updated;
+    },
+
+    async delete(table, id) {
+      const dexieTable = scoped(table);
+      const previous =
+        recording || isVersioned(table) ? await db.table(dexieTable).get(id) : undefined;
+      await recordVersion(table, previous, 'local');
+      await db.table(dexieTable).update(id, { deleted: true, updated_at: timestamp });
+      await queueDeleteOperation(resolveSupabaseName(table), id);
+      if (previous && !previous.deleted) {
+        changes.push(describeChange(table, id, { deleted: false }, { deleted: true }));
+      }
+      track(table, id);
+    }
+  };
+
+  /* As in engineBatchWrite: one pending-count refresh for the whole transaction. */
+  enterBatchMode();
+  let result: R;
+  try {
+    result = await db.transaction(
+      'rw',
+      [...scope, 'syncQueue', TABLE.ENTITY_VERSIONS].map((name) => db.table(name)),
+      () => fn(tx)
+    );
+  } finally {
+    await exitBatchMode();
+  }
+
+  /* Side effects only for committed writes — a rolled-back transaction never
+     reaches this point. The whole transaction is one undo entry. */
+  recordUndo(changes);
+  if (modifiedByTable.size > 0) {
+    for (const ids of modifiedByTable.values()) {
+      for (const id of ids) markEntityModified(id);
+    }
+    scheduleSyncPush();
+    for (const [table, ids] of modifiedByTable) {
+      await updateSearchIndex(table, ids);
+    }
+  }
+
+  return result;
+}
+
+// =============================================================================
+// UNDO / REDO
+// =============================================================================
+
+/**
+ * Apply recorded history operations in one Dexie transaction, through the
+ * same local-write + queue path as ordinary writes. Rows that no longer exist
+ * locally (e.g. purged tombstones) are skipped. Nothing is recorded, so
+ * replaying never adds history of its own.
+ */
+async function applyHistoryOperations(operations: UndoOperation[]): Promise<void> {
+  const db = getDb();
+  const timestamp = now();
+
+  for (const op of operations) {
+    if (op.type === 'set')
+      validateWrite(op.table, { ...op.fields, updated_at: timestamp }, 'update');
+  }
+
+  const tableNames = new Set([
+    'syncQueue',
+    TABLE.ENTITY_VERSIONS,
+    ...operations.map((op) => getDexieTableName(op.table))
+  ]);
+  const modifiedByTable = new Map<string, string[]>();
+
+  enterBatchMode();
+  try {
+    await db.transaction(
+      'rw',
+      [...tableNames].map((name) => db.table(name)),
+      async () => {
+        for (const op of operations) {
+          const dexieTable = getDexieTableName(op.table);
+          const supaTable = resolveSupabaseName(op.table);
+          const current = (await db.table(dexieTable).get(op.id)) as
+            | Record<string, unknown>
+            | undefined;
+          if (!current) continue;
+          await recordVersion(op.table, current, 'local');
+
+          switch (op.type) {
+            case 'set': {
+              const updateFields = { ...op.fields, updated_at: timestamp };
+              await assertUniqueUpdate(op.table, op.id, op.fields);
+              await db.table(dexieTable).update(op.id, updateFields);
+              await queueUpdateOperation(op.table, op.id, updateFields, !!current.deleted);
+              break;
+            }
+            case 'delete': {
+              await db.table(dexieTable).update(op.id, { deleted: true, updated_at: timestamp });
+              await queueDeleteOperation(supaTable, op.id);
+              break;
+            }
+            case 'increment': {
+              const value = ((current[op.field] as number) || 0) + op.amount;
+              await db
+                .table(dexieTable)
+                .update(op.id, { [op.field]: value, updated_at: timestamp });
+              await queueSyncOperation({
+                table: supaTable,
+                entityId: op.id,
+                operationType: 'increment',
+                field: op.field,
+                value: op.amount
+              });
+              break;
+            }
+          }
+
+          if (!modifiedByTable.has(op.table)) modifiedByTable.set(op.table, []);
+          modifiedByTable.get(op.table)!.push(op.id);
+        }
+      }
+    );
+  } finally {
+    await exitBatchMode();
+  }
+
+  for (const ids of modifiedByTable.values()) {
+    for (const id of ids) markEntityModified(id);
+  }
+  scheduleSyncPush();
+  for (const [table, ids] of modifiedByTable) {
+    await updateSearchIndex(table, ids);
+  }
+}
+
+/** Replay the top entry of the undo or redo stack. */
+async function replayHistory(direction: 'undo' | 'redo'): Promise<boolean> {
+  const entry = takeHistoryEntry(direction);
+  if (!entry) return false;
+  try {
+    await applyHistoryOperations(entry[direction]);
+  } catch (e) {
+    settleHistoryEntry(direction, entry, false);
+    throw e;
+  }
+  settleHistoryEntry(direction, entry, true);
+  return true;
+}
+
+/**
+ * Revert the most recent recorded action (one write call or one
+ * `undoGroup`). Requires the `undo` option of `initEngine`.
+ *
+ * The revert is written locally and queued like any other write, so it
+ * syncs to other devices. Deletes are reverted by restoring `deleted: false`,
+ * creates by tombstoning the row, and increments by applying the negated
+ * delta (so increments made concurrently on other devices are kept).
+ *
+ * @returns `true` if an action was undone, `false` if the history is empty.
+ * @throws {ValidationError} If the recorded values no longer match the schema.
+ * @throws {UniqueConstraintError} If restoring a value would now duplicate another row.
+ *
+ * @example
+ * ```ts
+ * window.addEventListener('keydown', (e) => {
+ *   if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
+ *     e.shiftKey ? engineRedo() : engineUndo();
+ *   }
+ * });
+ * ```
+ *
+ * @see {@link engineRedo}
+ */
+export async function engineUndo(): Promise<boolean> {
+  return replayHistory('undo');
+}
+
+/**
+ * Re-apply the most recently undone action. Any new write after an undo
+ * clears the redo history.
+ *
+ * @returns `true` if an action was redone, `false` if there is nothing to redo.
+ * @throws {ValidationError} If the recorded values no longer match the schema.
+ *
+ * @see {@link engineUndo}
+ */
+export async function engineRedo(): Promise<boolean> {
+  return replayHistory('redo');
+}
+
+// =============================================================================
+// VERSION HISTORY
+// =============================================================================
+
+/** Columns a revert never writes: identity, sync metadata and ownership. */
+const REVERT_EXCLUDED_FIELDS = new Set([
+  'id',
+  'user_id',
+  'created_at',
+  'updated_at',
+  '_version',
+  'device_id'
+]);
+
+/**
+ * Restore an entity to an earlier recorded state. Requires the schema
+ * `history` option on the table.
+ *
+ * The target is looked up among the current row and the snapshots returned
+ * by {@link engineGetHistory}: a number selects the newest state with that
+ * `_version`, an ISO timestamp the state the entity was in at that moment.
+ * The fields that differ from the current row are then written with
+ * {@link engineUpdate}, so the revert is validated, queued and synced like any
+ * other update — and becomes a snapshot (and undo entry) of its own.
+ *
+ * @param table              - The Supabase table name (or schema key).
+ * @param id                 - Primary key of the entity.
+ * @param versionOrTimestamp - A `_version` number or an ISO timestamp.
+ * @returns The updated entity (unchanged when the state already matches), or
+ *          `undefined` if the entity does not exist locally.
+ *
+ * @throws {Error} If no recorded state matches `versionOrTimestamp`.
+ * @throws {ValidationError} If the recorded values no longer match the schema.
+ * @throws {UniqueConstraintError} If a restored value would now duplicate another row.
+ *
+ * @example
+ * ```ts
+ * // Undo everything that happened to the note since yesterday morning
+ * await engineRevertTo('notes', noteId, '2026-10-17T08:00:00Z');
+ * ```
+ */
+export async function engineRevertTo(
+  table: string,
+  id: string,
+  versionOrTimestamp: number | string
+): Promise<Record<string, unknown> | undefined> {
+  const current = (await getDb().table(getDexieTableName(table)).get(id)) as
+    | Record<string, unknown>
+    | undefined;
+  if (!current) return undefined;
+
+  const target = await findVersion(table, current, versionOrTimestamp);
+  if (!target) {
+    throw new Error(`No recorded state of ${table}/${id} matches ${versionOrTimestamp}.`);
+  }
+
+  const fields: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(target)) {
+    if (REVERT_EXCLUDED_FIELDS.has(field)) continue;
+    if (JSON.stringify(value) !== JSON.stringify(current[field])) fields[field] = value;
+  }
+  if (Object.keys(fields).length === 0) return current;
+
+  return engineUpdate(table, id, fields);
 }
 
 // =============================================================================
@@ -439,14 +1198,18 @@ export async function engineIncrement(
   const dexieTable = getDexieTableName(table);
   const supaTable = resolveSupabaseName(table);
   const timestamp = now();
+  validateWrite(table, { [field]: amount, ...additionalFields }, 'update');
 
   let updated: Record<string, unknown> | undefined;
-  await db.transaction('rw', [db.table(dexieTable), db.table('syncQueue')], async () => {
+  let change: UndoChange | undefined;
+  const scope = [db.table(dexieTable), db.table('syncQueue'), db.table(TABLE.ENTITY_VERSIONS)];
+  await db.transaction('rw', scope, async () => {
     /* Read current value inside the transaction to prevent TOCTOU race:
        another tab or transaction could modify the value between our read
        and write if we read outside the transaction boundary. */
     const current = await db.table(dexieTable).get(id);
     if (!current) return;
+    await recordVersion(table, current, 'local');
 
     const currentValue = (current[field] as number) || 0;
     const newValue = currentValue + amount;
@@ -479,17 +1242,252 @@ export async function engineIncrement(
           value: { ...additionalFields, updated_at: timestamp }
         });
       }
+      if (isUndoEnabled()) {
+        const keys = Object.keys(additionalFields ?? {});
+        change = describeIncrement(
+          table,
+          id,
+          field,
+          amount,
+          snapshotFields(current, keys),
+          snapshotFields(updated, keys)
+        );
+      }
+    }
+  });
+
+  if (updated) {
+    if (change) recordUndo([change]);
+    markEntityModified(id);
+    scheduleSyncPush();
+    await updateSearchIndex(table, [id]);
+  }
+
+  return updated;
+}
+
+// =============================================================================
+// ARRAY, TOGGLE AND PATCH OPERATIONS
+// =============================================================================
+
+/**
+ * Check that a field's current value can take an intent: an array for adds
+ * and removes, a boolean for toggles, an object or array for patches. A
+ * missing value is fine for all of them.
+ *
+ * @throws {TypeError} If the value has another type.
+ */
+function assertIntentTarget(type: FieldIntentType, field: string, current: unknown): void {
+  if (current === null || current === undefined) return;
+  const ok =
+    type === 'toggle'
+      ? typeof current === 'boolean'
+      : type === 'patch'
+        ? typeof current === 'object'
+        : Array.isArray(current);
+  if (!ok) throw new TypeError(`Cannot apply ${type} to ${field}: it holds a ${typeof current}`);
+}
+
+/**
+ * Apply a field intent to the local row and queue it, like
+ * {@link engineIncrement} does for numeric deltas. The new value is validated
+ * against the schema `fields` before it is stored.
+ *
+ * The queued operation keeps the intent, so the sync push applies it to the
+ * server's current value and conflict resolution replays it on remote
+ * changes — concurrent edits from other devices are merged, not overwritten.
+ * Undo restores the field's previous value.
+ *
+ * @returns The updated entity, or `undefined` if the entity was not found.
+ * @throws {TypeError} If the field holds a value of the wrong type.
+ * @throws {ValidationError} If the new value does not match the schema `fields`.
+ */
+async function writeFieldIntent(
+  table: string,
+  id: string,
+  field: string,
+  operationType: FieldIntentType,
+  value?: unknown
+): Promise<Record<string, unknown> | undefined> {
+  const db = getDb();
+  const dexieTable = getDexieTableName(table);
+  const supaTable = resolveSupabaseName(table);
+  const timestamp = now();
+
+  let updated: Record<string, unknown> | undefined;
+  let change: UndoChange | undefined;
+  const scope = [db.table(dexieTable), db.table('syncQueue'), db.table(TABLE.ENTITY_VERSIONS)];
+  await db.transaction('rw', scope, async () => {
+    /* Read inside the transaction, as for increments: the intent is applied
+       to the value as it is at write time. */
+    const current = await db.table(dexieTable).get(id);
+    if (!current) return;
+    assertIntentTarget(operationType, field, current[field]);
+    const nextValue = applyFieldOperation(operationType, current[field], value);
+    validateWrite(table, { [field]: nextValue }, 'update');
+    await recordVersion(table, current, 'local');
+
+    await db.table(dexieTable).update(id, { [field]: nextValue, updated_at: timestamp });
+    updated = await db.table(dexieTable).get(id);
+    if (updated) {
+      await queueSyncOperation({
+        table: supaTable,
+        entityId: id,
+        operationType,
+        field,
+        ...(value !== undefined ? { value } : {})
+      });
+      if (isUndoEnabled()) {
+        change = describeChange(
+          table,
+          id,
+          snapshotFields(current, [field]),
+          snapshotFields(updated, [field])
+        );
+      }
     }
   });
 
   if (updated) {
+    if (change) recordUndo([change]);
     markEntityModified(id);
     scheduleSyncPush();
+    await updateSearchIndex(table, [id]);
   }
 
   return updated;
 }
 
+/**
+ * Add items to a JSON array field — each one unless an equal item is already
+ * there. New items are appended in order.
+ *
+ * Unlike an `engineUpdate` of the whole array, the sync queue keeps the
+ * **add intent** (operationType: `'arrayAdd'`): the server appends the items
+ * to its current array, so tags added on two devices while offline all end up
+ * in the list instead of one device's list replacing the other's.
+ *
+ * @param table - The Supabase table name.
+ * @param id    - The primary key of the entity.
+ * @param field - The JSON array field.
+ * @param items - The items to add (compared by value, so objects work too).
+ * @returns The updated entity, or `undefined` if the entity was not found.
+ *
+ * @throws {TypeError} If the field holds something other than an array.
+ * @throws {ValidationError} If the new array does not match the schema `fields`.
+ *
+ * @example
+ * ```ts
+ * await engineArrayAdd('notes', noteId, 'tags', ['urgent']);
+ * ```
+ *
+ * @see {@link engineArrayRemove} for the inverse
+ * @see {@link ./intents} for the merge rules
+ */
+export async function engineArrayAdd(
+  table: string,
+  id: string,
+  field: string,
+  items: unknown[]
+): Promise<Record<string, unknown> | undefined> {
+  return writeFieldIntent(table, id, field, 'arrayAdd', items);
+}
+
+/**
+ * Remove every element equal to one of `items` from a JSON array field.
+ *
+ * Queued as a **remove intent** (operationType: `'arrayRemove'`), applied to
+ * the server's current array — items other devices added meanwhile stay.
+ *
+ * @param table - The Supabase table name.
+ * @param id    - The primary key of the entity.
+ * @param field - The JSON array field.
+ * @param items - The items to remove (compared by value).
+ * @returns The updated entity, or `undefined` if the entity was not found.
+ *
+ * @throws {TypeError} If the field holds something other than an array.
+ * @throws {ValidationError} If the new array does not match the schema `fields`.
+ *
+ * @example
+ * ```ts
+ * await engineArrayRemove('checklists', listId, 'items', [{ text: 'Milk', done: true }]);
+ * ```
+ */
+export async function engineArrayRemove(
+  table: string,
+  id: string,
+  field: string,
+  items: unknown[]
+): Promise<Record<string, unknown> | undefined> {
+  return writeFieldIntent(table, id, field, 'arrayRemove', items);
+}
+
+/**
+ * Flip a boolean field (`null` counts as `false`).
+ *
+ * Queued as a **toggle intent** (operationType: `'toggle'`): the server flips
+ * its current value. Two toggles of the same field cancel out in the queue.
+ *
+ * @param table - The Supabase table name.
+ * @param id    - The primary key of the entity.
+ * @param field - The boolean field.
+ * @returns The updated entity, or `undefined` if the entity was not found.
+ *
+ * @throws {TypeError} If the field holds something other than a boolean.
+ *
+ * @example
+ * ```ts
+ * await engineToggle('tasks', taskId, 'pinned');
+ * ```
+ */
+export async function engineToggle(
+  table: string,
+  id: string,
+  field: string
+): Promise<Record<string, unknown> | undefined> {
+  return writeFieldIntent(table, id, field, 'toggle');
+}
+
+/**
+ * Set one key inside a JSON object field, leaving the rest of the object as it
+ * is. Missing intermediate objects are created. Pass `undefined` as the value
+ * to remove the key.
+ *
+ * Queued as a **patch intent** (operationType: `'patch'`): the server sets the
+ * key on its current object, so two devices changing different keys of the
+ * same settings object both keep their change. Patches to the same field
+ * merge in the queue, a later one replacing an earlier one at the same path.
+ *
+ * @param table - The Supabase table name.
+ * @param id    - The primary key of the entity.
+ * @param field - The JSON field.
+ * @param path  - The key to set: a dotted string (`'theme.accent'`) or an
+ *                array of keys (use this when a key contains a dot; array
+ *                indexes are given as strings).
+ * @param value - The new value, or `undefined` to remove the key.
+ * @returns The updated entity, or `undefined` if the entity was not found.
+ *
+ * @throws {TypeError} If the field holds something other than an object or array.
+ * @throws {ValidationError} If the new value does not match the schema `fields`.
+ *
+ * @example
+ * ```ts
+ * await enginePatch('profiles', profileId, 'settings', 'theme.accent', '#ff8800');
+ * await enginePatch('profiles', profileId, 'settings', 'legacyFlag', undefined);
+ * ```
+ */
+export async function enginePatch(
+  table: string,
+  id: string,
+  field: string,
+  path: string | string[],
+  value: unknown
+): Promise<Record<string, unknown> | undefined> {
+  const entry: JsonPatchEntry = { path: toPatchPath(path) };
+  if (value !== undefined) entry.value = value;
+  return writeFieldIntent(table, id, field, 'patch', [entry]);
+}
+
 // =============================================================================
 // QUERY OPERATIONS
 // =============================================================================
@@ -510,8 +1508,12 @@ export async function engineIncrement(
  * @param opts  - Optional configuration.
  * @param opts.remoteFallback - If `true`, fall back to a Supabase query when
  *                              the entity is not found locally. Defaults to `false`.
+ * @param opts.include        - Relation names (from schema `ownership`
+ *                              declarations) to attach from the local DB.
  * @returns The entity record, or `null` if not found (locally or remotely).
  *
+ * @throws {Error} If `include` names a relation the table does not declare.
+ *
  * @example
  * ```ts
  * // Local-only lookup (fast, offline-safe)
@@ -519,6 +1521,9 @@ export async function engineIncrement(
  *
  * // With remote fallback for cache misses
  * const task = await engineGet('tasks', taskId, { remoteFallback: true });
+ *
+ * // A list together with its non-deleted goals, sorted by order
+ * const list = await engineGet('goal_lists', listId, { include: ['goals'] });
  * ```
  *
  * @see {@link engineGetAll} for retrieving all entities from a table
@@ -528,13 +1533,18 @@ export async function engineIncrement(
 export async function engineGet(
   table: string,
   id: string,
-  opts?: { remoteFallback?: boolean }
+  opts?: { remoteFallback?: boolean; include?: string[] }
 ): Promise<Record<string, unknown> | null> {
+  await loadTable(table);
   const db = getDb();
   const dexieTable = getDexieTableName(table);
 
   const local = await db.table(dexieTable).get(id);
-  if (local) return local as Record<string, unknown>;
+  if (local) {
+    if (!opts?.include?.length) return local as Record<string, unknown>;
+    const [withRelations] = await loadRelations(table, [local], opts.include);
+    return withRelations;
+  }
 
   /* Remote fallback: only attempted when explicitly opted in AND the browser
      reports online status. Skipped in demo mode (sandboxed, no Supabase). */
@@ -556,8 +1566,11 @@ export async function engineGet(
 
       if (!error && data) {
         /* Cache the remote result locally so future reads are instant and offline-safe. */
-        await db.table(dexieTable).put(data);
-        return data as unknown as Record<string, unknown>;
+        const record = await decryptRow(table, data as unknown as Record<string, unknown>);
+        await db.table(dexieTable).put(record);
+        if (!opts.include?.length) return record;
+        const [withRelations] = await loadRelations(table, [record], opts.include);
+        return withRelations;
       }
     } catch (e) {
       debugError(`[Data] Remote fallback failed for ${table}/${id}:`, e);
@@ -602,6 +1615,7 @@ export async function engineGetAll(
   table: string,
   opts?: { orderBy?: string; remoteFallback?: boolean }
 ): Promise<Record<string, unknown>[]> {
+  await loadTable(table);
   const db = getDb();
   const dexieTable = getDexieTableName(table);
 
@@ -641,7 +1655,7 @@ export async function engineGetAll(
           .range(offset, offset + PAGE_SIZE - 1);
 
         if (error || !data) break;
-        allData.push(...(data as unknown as Record<string, unknown>[]));
+        allData.push(...(await decryptRows(table, data as unknown as Record<string, unknown>[])));
         hasMore = data.length === PAGE_SIZE;
         offset += PAGE_SIZE;
       }
@@ -664,6 +1678,28 @@ export async function engineGetAll(
   return results;
 }
 
+/**
+ * Combine local query results with rows fetched by a remote fallback. Remote
+ * rows not held locally are decrypted and cached (until evicted, for tables
+ * with a `syncFilter`); rows already held locally keep their local state,
+ * which may include unpushed changes.
+ *
+ * @returns The local rows followed by the newly cached remote rows.
+ */
+async function mergeRemoteRows(
+  table: string,
+  local: Record<string, unknown>[],
+  remote: Record<string, unknown>[]
+): Promise<Record<string, unknown>[]> {
+  const localIds = new Set(local.map((row) => row.id));
+  const fresh = await decryptRows(
+    table,
+    remote.filter((row) => !localIds.has(row.id))
+  );
+  if (fresh.length > 0) await getDb().table(getDexieTableName(table)).bulkPut(fresh);
+  return [...local, ...fresh];
+}
+
 /**
  * Query entities by a single indexed field value (equivalent to `WHERE index = value`).
  *
@@ -676,7 +1712,9 @@ export async function engineGetAll(
  * @param value - The value to match against the indexed field.
  * @param opts  - Optional configuration.
  * @param opts.remoteFallback - If `true`, fall back to Supabase when no local
- *                              results are found. Defaults to `false`.
+ *                              results are found — or always, for tables with a
+ *                              `syncFilter`, whose matches may lie outside the
+ *                              local window. Defaults to `false`.
  * @returns An array of matching entity records.
  *
  * @example
@@ -697,6 +1735,7 @@ export async function engineQuery(
   value: unknown,
   opts?: { remoteFallback?: boolean }
 ): Promise<Record<string, unknown>[]> {
+  await loadTable(table);
   const db = getDb();
   const dexieTable = getDexieTableName(table);
 
@@ -707,7 +1746,7 @@ export async function engineQuery(
     .toArray();
 
   if (
-    results.length === 0 &&
+    (results.length === 0 || getSyncFilter(table)) &&
     opts?.remoteFallback &&
     !isDemoMode() &&
     typeof navigator !== 'undefined' &&
@@ -723,11 +1762,12 @@ export async function engineQuery(
         .or('deleted.is.null,deleted.eq.false');
 
       if (!error && data && data.length > 0) {
-        /* Cache remote results locally for future offline access. bulkPut is
-           used instead of bulkAdd to handle the case where some records may
-           already exist locally (e.g., partial sync). */
-        await db.table(dexieTable).bulkPut(data);
-        results = data as unknown as Record<string, unknown>[];
+        /* Cache remote results locally for future offline access. */
+        results = await mergeRemoteRows(
+          table,
+          results,
+          data as unknown as Record<string, unknown>[]
+        );
       }
     } catch (e) {
       debugError(`[Data] Remote query fallback failed for ${table}.${index}:`, e);
@@ -753,7 +1793,9 @@ export async function engineQuery(
  * @param upper - The inclusive upper bound of the range.
  * @param opts  - Optional configuration.
  * @param opts.remoteFallback - If `true`, fall back to Supabase when no local
- *                              results are found. Defaults to `false`.
+ *                              results are found — or always, for tables with a
+ *                              `syncFilter`, whose matches may lie outside the
+ *                              local window. Defaults to `false`.
  * @returns An array of matching entity records within the range.
  *
  * @example
@@ -774,6 +1816,7 @@ export async function engineQueryRange(
   upper: unknown,
   opts?: { remoteFallback?: boolean }
 ): Promise<Record<string, unknown>[]> {
+  await loadTable(table);
   const db = getDb();
   const dexieTable = getDexieTableName(table);
 
@@ -781,7 +1824,7 @@ export async function engineQueryRange(
   let results = await db.table(dexieTable).where(index).between(lower, upper, true, true).toArray();
 
   if (
-    results.length === 0 &&
+    (results.length === 0 || getSyncFilter(table)) &&
     opts?.remoteFallback &&
     !isDemoMode() &&
     typeof navigator !== 'undefined' &&
@@ -798,8 +1841,11 @@ export async function engineQueryRange(
         .or('deleted.is.null,deleted.eq.false');
 
       if (!error && data && data.length > 0) {
-        await db.table(dexieTable).bulkPut(data);
-        results = data as unknown as Record<string, unknown>[];
+        results = await mergeRemoteRows(
+          table,
+          results,
+          data as unknown as Record<string, unknown>[]
+        );
       }
     } catch (e) {
       debugError(`[Data] Remote range query fallback failed for ${table}.${index}:`, e);
@@ -894,8 +1940,9 @@ export async function engineGetOrCreate(
 
       if (data) {
         /* Cache the remote record locally for offline access. */
-        await db.table(dexieTable).put(data);
-        return data as unknown as Record<string, unknown>;
+        const record = await decryptRow(table, data as unknown as Record<string, unknown>);
+        await db.table(dexieTable).put(record);
+        return record;
       }
     } catch {
       /* Offline or network error -- fall through to local create.
@@ -913,20 +1960,68 @@ export async function engineGetOrCreate(
     created_at: timestamp,
     updated_at: timestamp
   };
+  validateWrite(table, payload, 'create');
 
   const { id: _id, ...queuePayload } = payload;
 
   await db.transaction('rw', [db.table(dexieTable), db.table('syncQueue')], async () => {
+    await assertUniqueCreate(table, payload);
     await db.table(dexieTable).add(payload);
     await queueCreateOperation(supaTable, entityId, queuePayload);
   });
 
+  if (isUndoEnabled()) recordUndo([describeCreate(table, entityId)]);
   markEntityModified(entityId);
   scheduleSyncPush();
+  await updateSearchIndex(table, [entityId]);
 
   return payload;
 }
 
+// =============================================================================
+// UPSERT
+// =============================================================================
+
+/**
+ * Insert a row, or update the existing row that holds the same values under
+ * a declared unique constraint.
+ *
+ * `match` names the constraint: its keys must be exactly the `columns` of one
+ * of the table's `uniqueConstraints`. The lookup and the write run in one
+ * {@link engineTransaction}, so two concurrent upserts for the same key
+ * cannot both insert. An existing soft-deleted row is revived (its
+ * `deleted` flag is cleared) rather than duplicated, because the server
+ * constraint still covers tombstones.
+ *
+ * @param table  - The Supabase table name.
+ * @param match  - Values for every column of the constraint to resolve by.
+ * @param values - Fields to write; on insert they are combined with `match`.
+ * @returns The inserted or updated entity.
+ *
+ * @throws {Error} If no declared constraint has exactly the columns of `match`.
+ * @throws {ValidationError} If the write does not match the schema `fields`.
+ *
+ * @example
+ * ```ts
+ * // schema: daily_logs: { uniqueConstraints: [{ columns: ['user_id', 'date'] }], ... }
+ * await engineUpsert('daily_logs', { user_id: userId, date: today }, { minutes: 45 });
+ * ```
+ *
+ * @see {@link engineGetOrCreate} to read without overwriting an existing row
+ */
+export async function engineUpsert(
+  table: string,
+  match: Record<string, unknown>,
+  values: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  return engineTransaction([table], async (tx) => {
+    const existing = await findUpsertTarget(table, match, values);
+    if (!existing) return tx.create(table, { ...values, ...match });
+    const fields = existing.deleted ? { ...values, deleted: false } : values;
+    return (await tx.update(table, existing.id as string, fields))!;
+  });
+}
+
 // =============================================================================
 // QUERY HELPERS
 // =============================================================================
@@ -936,7 +2031,8 @@ export async function engineGetOrCreate(
  *
  * A convenience wrapper around {@link engineGetAll} that applies the two most
  * common post-processing steps: filtering out soft-deleted records and sorting
- * by the `order` field. This eliminates the repetitive
+ * by the `order` field (numbers or order keys, ties broken by `id` — see
+ * `compareOrder`). This eliminates the repetitive
  * `.filter(i => !i.deleted).sort(...)` pattern from every query function.
  *
  * @typeParam T - The entity type (must have at least `deleted` and `order` fields).
@@ -946,6 +2042,7 @@ export async function engineGetOrCreate(
  *                              table is empty. Defaults to `false`.
  * @param opts.orderBy        - A Dexie-indexed field to pre-sort by before
  *                              filtering. Defaults to `undefined`.
+ * @param opts.include        - Relation names to attach (see {@link engineGet}).
  * @returns An array of non-deleted entity records sorted by `order`.
  *
  * @example
@@ -963,14 +2060,18 @@ export async function engineGetOrCreate(
  */
 export async function queryAll<T extends Record<string, unknown>>(
   table: string,
-  opts?: { remoteFallback?: boolean; orderBy?: string; autoRemoteFallback?: boolean }
+  opts?: {
+    remoteFallback?: boolean;
+    orderBy?: string;
+    autoRemoteFallback?: boolean;
+    include?: string[];
+  }
 ): Promise<T[]> {
   const remoteFallback =
     opts?.remoteFallback ?? (opts?.autoRemoteFallback ? !hasHydrated() : false);
   const results = await engineGetAll(table, { orderBy: opts?.orderBy, remoteFallback });
-  return results
-    .filter((item) => !item.deleted)
-    .sort((a, b) => ((a.order as number) ?? 0) - ((b.order as number) ?? 0)) as T[];
+  const live = results.filter((item) => !item.deleted).sort(byOrder) as T[];
+  return opts?.include?.length ? loadRelations(table, live, opts.include) : live;
 }
 
 /**
@@ -986,6 +2087,7 @@ export async function queryAll<T extends Record<string, unknown>>(
  * @param opts  - Optional configuration.
  * @param opts.remoteFallback - If `true`, fall back to Supabase when the entity
  *                              is not found locally. Defaults to `false`.
+ * @param opts.include        - Relation names to attach (see {@link engineGet}).
  * @returns The entity record, or `null` if not found or soft-deleted.
  *
  * @example
@@ -1004,11 +2106,11 @@ export async function queryAll<T extends Record<string, unknown>>(
 export async function queryOne<T extends Record<string, unknown>>(
   table: string,
   id: string,
-  opts?: { remoteFallback?: boolean; autoRemoteFallback?: boolean }
+  opts?: { remoteFallback?: boolean; autoRemoteFallback?: boolean; include?: string[] }
 ): Promise<T | null> {
   const remoteFallback =
     opts?.remoteFallback ?? (opts?.autoRemoteFallback ? !hasHydrated() : false);
-  const record = await engineGet(table, id, { remoteFallback });
+  const record = await engineGet(table, id, { remoteFallback, include: opts?.include });
   if (!record || record.deleted) return null;
   return record as T;
 }
@@ -1058,11 +2160,7 @@ export async function queryByIndex<T extends Record<string, unknown>>(
   const results = await engineQuery(table, index, value, { remoteFallback });
   let filtered = results.filter((item) => !item.deleted) as T[];
   if (opts?.sortByOrder) {
-    filtered = filtered.sort(
-      (a, b) =>
-        (((a as Record<string, unknown>).order as number) ?? 0) -
-        (((b as Record<string, unknown>).order as number) ?? 0)
-    );
+    filtered = filtered.sort(byOrder);
   }
   return filtered;
 }
@@ -1109,15 +2207,193 @@ export async function queryByRange<T extends Record<string, unknown>>(
   const results = await engineQueryRange(table, index, lower, upper, { remoteFallback });
   let filtered = results.filter((item) => !item.deleted) as T[];
   if (opts?.sortByOrder) {
-    filtered = filtered.sort(
-      (a, b) =>
-        (((a as Record<string, unknown>).order as number) ?? 0) -
-        (((b as Record<string, unknown>).order as number) ?? 0)
-    );
+    filtered = filtered.sort(byOrder);
   }
   return filtered;
 }
 
+// =============================================================================
+// CURSOR PAGINATION
+// =============================================================================
+
+/**
+ * Options for {@link enginePaginate}.
+ *
+ * @typeParam T - The entity type.
+ */
+export interface PaginateOptions<T> {
+  /** Indexed field to order by. Defaults to `'id'` (the primary key). */
+  orderBy?: string;
+  /** Sort direction. Defaults to `'asc'`. */
+  direction?: 'asc' | 'desc';
+  /** Maximum number of rows per page. Defaults to `50`. */
+  pageSize?: number;
+  /** Cursor returned by a previous page; the page starts right after it. */
+  after?: string | null;
+  /**
+   * Read every row up to and including the row identified by this cursor,
+   * ignoring `pageSize`. Used to re-read an already-loaded window after the
+   * underlying table changes.
+   */
+  until?: string | null;
+  /** Optional in-memory predicate applied on the cursor (e.g., scope to a parent). */
+  filter?: (row: T) => boolean;
+}
+
+/**
+ * A single page returned by {@link enginePaginate}.
+ *
+ * @typeParam T - The entity type.
+ */
+export interface PageResult<T> {
+  /** Non-deleted rows in this page, in cursor order. */
+  items: T[];
+  /** Opaque cursor for the next page, or `null` when the table is exhausted. */
+  nextCursor: string | null;
+  /**
+   * Cursor of the last row in this page (even on the final page), or `null`
+   * when the page is empty. Pass it as `until` to re-read everything loaded so far.
+   */
+  endCursor: string | null;
+}
+
+/** Decoded form of a pagination cursor. */
+interface PageCursor {
+  /** Field the cursor was issued for. */
+  f: string;
+  /** Direction the cursor was issued for. */
+  d: 'asc' | 'desc';
+  /** Value of the sort field on the boundary row. */
+  v: unknown;
+  /** Primary key of the boundary row (tiebreaker for equal sort values). */
+  id: string;
+}
+
+/**
+ * Encode a boundary row as an opaque cursor string. The JSON is
+ * percent-encoded first so `btoa` only ever sees ASCII.
+ */
+function encodeCursor(
+  field: string,
+  direction: 'asc' | 'desc',
+  row: Record<string, unknown>
+): string {
+  const cursor: PageCursor = { f: field, d: direction, v: row[field], id: row.id as string };
+  return btoa(encodeURIComponent(JSON.stringify(cursor)));
+}
+
+/**
+ * Decode a cursor and check it was issued for the same field and direction.
+ *
+ * @throws {Error} If the cursor is malformed or belongs to a different ordering.
+ */
+function decodeCursor(cursor: string, field: string, direction: 'asc' | 'desc'): PageCursor {
+  let decoded: PageCursor;
+  try {
+    decoded = JSON.parse(decodeURIComponent(atob(cursor))) as PageCursor;
+  } catch {
+    throw new Error('Invalid pagination cursor');
+  }
+  if (decoded.f !== field || decoded.d !== direction) {
+    throw new Error(
+      `Pagination cursor was issued for ${decoded.f} ${decoded.d}, not ${field} ${direction}`
+    );
+  }
+  return decoded;
+}
+
+/**
+ * Read one page of non-deleted rows using keyset (cursor) pagination.
+ *
+ * Unlike {@link engineGetAll}, only the requested page is read from IndexedDB:
+ * the sort field's index is opened at the cursor position and iteration stops
+ * after `pageSize` matching rows. Ordering is stable — rows with equal sort
+ * values are ordered by primary key, which IndexedDB already does within an
+ * index — and the cursor encodes both the sort value and the `id`, so rows
+ * inserted or removed by sync between page loads never cause duplicates or
+ * skipped rows.
+ *
+ * Rows whose sort field is missing, `null` or boolean are not part of the
+ * IndexedDB index and therefore never appear in paginated results.
+ *
+ * @typeParam T - The entity type.
+ * @param table - The Supabase table name.
+ * @param opts  - Ordering, page size, cursor and optional filter.
+ * @returns The page of rows and the cursor for the next page.
+ *
+ * @throws {Error} If a cursor is malformed or was issued for another ordering.
+ *
+ * @example
+ * ```ts
+ * import { enginePaginate } from 'stellar-drive/data';
+ *
+ * const first = await enginePaginate<Transaction>('transactions', {
+ *   orderBy: 'date',
+ *   direction: 'desc',
+ *   pageSize: 100
+ * });
+ * const second = await enginePaginate<Transaction>('transactions', {
+ *   orderBy: 'date',
+ *   direction: 'desc',
+ *   pageSize: 100,
+ *   after: first.nextCursor
+ * });
+ * ```
+ *
+ * @see {@link createInfiniteCollectionStore} for an infinite-scroll store built on this
+ */
+export async function enginePaginate<T extends Record<string, unknown>>(
+  table: string,
+  opts?: PaginateOptions<T>
+): Promise<PageResult<T>> {
+  await loadTable(table);
+  const db = getDb();
+  const dexieTable = db.table(getDexieTableName(table));
+  const field = opts?.orderBy ?? 'id';
+  const direction = opts?.direction ?? 'asc';
+  const desc = direction === 'desc';
+  const after = opts?.after ? decodeCursor(opts.after, field, direction) : null;
+  const until = opts?.until ? decodeCursor(opts.until, field, direction) : null;
+
+  /* Map the cursors onto an index key range. Descending iteration walks the
+     range backwards, so the "after" cursor becomes the upper bound. */
+  const lower = desc ? until : after;
+  const upper = desc ? after : until;
+  const clause = dexieTable.where(field);
+  let collection =
+    lower && upper
+      ? clause.between(lower.v, upper.v, true, true)
+      : lower
+        ? clause.aboveOrEqual(lower.v)
+        : upper
+          ? clause.belowOrEqual(upper.v)
+          : dexieTable.orderBy(field);
+  if (desc) collection = collection.reverse();
+
+  /* The key range is inclusive on the sort value, so rows that share the
+     boundary value are trimmed by primary key to honour the exact cursor. */
+  collection = collection.filter((row: Record<string, unknown>) => {
+    if (row.deleted) return false;
+    const id = row.id as string;
+    if (after && row[field] === after.v && (desc ? id >= after.id : id <= after.id)) return false;
+    if (until && row[field] === until.v && (desc ? id < until.id : id > until.id)) return false;
+    return opts?.filter ? opts.filter(row as T) : true;
+  });
+
+  if (opts?.until) {
+    const items = (await collection.toArray()) as T[];
+    return { items, nextCursor: opts.until, endCursor: opts.until };
+  }
+
+  /* Read one extra row to learn whether another page exists. */
+  const pageSize = Math.max(1, opts?.pageSize ?? 50);
+  const rows = (await collection.limit(pageSize + 1).toArray()) as T[];
+  const items = rows.slice(0, pageSize);
+  const endCursor =
+    items.length > 0 ? encodeCursor(field, direction, items[items.length - 1]) : null;
+  return { items, nextCursor: rows.length > pageSize ? endCursor : null, endCursor };
+}
+
 // =============================================================================
 // REPOSITORY HELPERS
 // =============================================================================
@@ -1132,7 +2408,8 @@ export async function queryByRange<T extends Record<string, unknown>>(
  * @typeParam T - The entity type.
  * @param table    - The Supabase table name.
  * @param id       - The primary key of the entity to reorder.
- * @param newOrder - The new order value.
+ * @param newOrder - The new order value — a number, or a string order key
+ *                   for tables whose `order` field is declared `'orderKey'`.
  * @returns The updated entity, or `undefined` if not found.
  *
  * @example
@@ -1143,11 +2420,12 @@ export async function queryByRange<T extends Record<string, unknown>>(
  * ```
  *
  * @see {@link engineUpdate} for the underlying update
+ * @see {@link moveEntity} to move by position instead of by order value
  */
 export async function reorderEntity<T extends Record<string, unknown>>(
   table: string,
   id: string,
-  newOrder: number
+  newOrder: number | string
 ): Promise<T | undefined> {
   const result = await engineUpdate(table, id, { order: newOrder });
   return result as T | undefined;
@@ -1186,3 +2464,287 @@ export async function prependOrder(
   const minOrder = Math.min(...active.map((r) => (r.order as number) ?? 0));
   return minOrder - 1;
 }
+
+/**
+ * Compute a string order key for inserting at the top of a list — the
+ * {@link prependOrder} counterpart for tables whose `order` field is declared
+ * `'orderKey'`.
+ *
+ * @param table      - The Supabase table name.
+ * @param indexField - The indexed field to filter on (e.g., `'user_id'`).
+ * @param indexValue - The value to match against the index.
+ * @returns An order key sorting before every non-deleted matching record.
+ *
+ * @example
+ * ```ts
+ * const order = await prependOrderKey('tasks', 'list_id', listId);
+ * await engineCreate('tasks', { ..., order });
+ * ```
+ */
+export async function prependOrderKey(
+  table: string,
+  indexField: string,
+  indexValue: string
+): Promise<string> {
+  const records = await engineQuery(table, indexField, indexValue);
+  const keys = records.filter((r) => !r.deleted && isOrderKey(r.order)).map((r) => r.order);
+  if (keys.length === 0) return orderKeyBetween(null, null);
+  return orderKeyBetween(null, (keys as string[]).sort()[0]);
+}
+
+/**
+ * The sibling set an ordered entity belongs to: the rows whose `field`
+ * equals `value` (e.g. `{ field: 'list_id', value: listId }`). `field` must
+ * be indexed.
+ */
+export interface OrderScope {
+  field: string;
+  value: unknown;
+}
+
+/** Numeric gaps below this are treated as exhausted (doubles keep ~15 digits). */
+const MIN_ORDER_GAP = 1e-9;
+
+/** Order keys longer than this trigger a rebalance instead of growing further. */
+const MAX_ORDER_KEY_LENGTH = 24;
+
+/** Read the non-deleted rows of a scope, in display order. */
+async function readOrderedScope(
+  table: string,
+  scope: OrderScope
+): Promise<Record<string, unknown>[]> {
+  const records = await engineQuery(table, scope.field, scope.value);
+  return records.filter((r) => !r.deleted).sort(compareOrder);
+}
+
+/**
+ * An order value strictly between two neighbouring rows (either may be absent
+ * at the ends of the list), or `null` when there is no usable room — the gap
+ * is exhausted, the neighbours collided (e.g. two devices reordered
+ * concurrently), or a neighbour's value is malformed.
+ */
+function orderBetween(
+  prev: Record<string, unknown> | undefined,
+  next: Record<string, unknown> | undefined,
+  useKeys: boolean
+): number | string | null {
+  const isValid = useKeys ? isOrderKey : (v: unknown) => typeof v === 'number';
+  if ((prev && !isValid(prev.order)) || (next && !isValid(next.order))) return null;
+
+  if (useKeys) {
+    const before = (prev?.order as string | undefined) ?? null;
+    const after = (next?.order as string | undefined) ?? null;
+    if (before !== null && after !== null && before >= after) return null;
+    const key = orderKeyBetween(before, after);
+    return key.length > MAX_ORDER_KEY_LENGTH ? null : key;
+  }
+
+  const low = prev?.order as number | undefined;
+  const high = next?.order as number | undefined;
+  if (low === undefined) return high === undefined ? 0 : high - 1;
+  if (high === undefined) return low + 1;
+  const midpoint = (low + high) / 2;
+  return high - low < MIN_ORDER_GAP || midpoint <= low || midpoint >= high ? null : midpoint;
+}
+
+/**
+ * Rewrite `order` on `rows` (already in their intended sequence) to evenly
+ * spaced values, in one batch. Rows that already hold their new value are
+ * left untouched.
+ *
+ * @returns The number of rows updated.
+ */
+async function writeEvenOrder(table: string, rows: Record<string, unknown>[]): Promise<number> {
+  const orders: (number | string)[] = findTableConfig(table)?.orderKeys
+    ? spreadOrderKeys(rows.length)
+    : rows.map((_, i) => i);
+  const operations: BatchOperation[] = [];
+  rows.forEach((row, i) => {
+    if (row.order !== orders[i]) {
+      operations.push({
+        type: 'update',
+        table,
+        id: row.id as string,
+        fields: { order: orders[i] }
+      });
+    }
+  });
+  if (operations.length > 0) await engineBatchWrite(operations);
+  return operations.length;
+}
+
+/**
+ * Move an entity to a position within its sibling list.
+ *
+ * Siblings are sorted by `order` with `id` as tie-breaker (see
+ * `compareOrder`), and the entity receives an order value between its new
+ * neighbours: a numeric midpoint, or a string key for tables whose `order`
+ * field is declared `'orderKey'`. When there is no room left between the
+ * neighbours — float precision is exhausted, the keys have grown long, or two
+ * devices gave items equal orders — the whole list is rebalanced to evenly
+ * spaced values in one batch write instead.
+ *
+ * @typeParam T - The entity type.
+ * @param table   - The Supabase table name.
+ * @param id      - The primary key of the entity to move.
+ * @param toIndex - Target position among the siblings (clamped to the list).
+ * @param scope   - The sibling set, e.g. `{ field: 'list_id', value: listId }`.
+ * @returns The updated entity, or `undefined` if it is not in the scope.
+ *
+ * @example
+ * ```ts
+ * // Drag-and-drop handler
+ * await moveEntity<Task>('tasks', task.id, dropIndex, { field: 'list_id', value: listId });
+ * ```
+ *
+ * @see {@link rebalanceOrder} to rebalance a list explicitly
+ */
+export async function moveEntity<T extends Record<string, unknown>>(
+  table: string,
+  id: string,
+  toIndex: number,
+  scope: OrderScope
+): Promise<T | undefined> {
+  const siblings = await readOrderedScope(table, scope);
+  const moving = siblings.find((row) => row.id === id);
+  if (!moving) return undefined;
+
+  const others = siblings.filter((row) => row !== moving);
+  const index = Math.max(0, Math.min(toIndex, others.length));
+  const order = orderBetween(others[index - 1], others[index], !!findTableConfig(table)?.orderKeys);
+  if (order !== null) return reorderEntity<T>(table, id, order);
+
+  others.splice(index, 0, moving);
+  await writeEvenOrder(table, others);
+  return ((await engineGet(table, id)) ?? undefined) as T | undefined;
+}
+
+/**
+ * Reassign evenly spaced `order` values to every non-deleted entity in a
+ * scope, keeping their current sequence (ties broken by `id`).
+ *
+ * {@link moveEntity} does this automatically when a gap runs out; call it
+ * directly to normalise a list, e.g. after converting a table to order keys.
+ *
+ * @param table - The Supabase table name.
+ * @param scope - The sibling set, e.g. `{ field: 'list_id', value: listId }`.
+ * @returns The number of entities whose `order` changed.
+ */
+export async function rebalanceOrder(table: string, scope: OrderScope): Promise<number> {
+  return writeEvenOrder(table, await readOrderedScope(table, scope));
+}
+
+// =============================================================================
+// COMPOSABLE QUERY BUILDER
+// =============================================================================
+
+/* The chainable query builder lives in its own module (it carries a small
+   planner and a PostgREST translator) but is part of the data-access surface,
+   so it is re-exported here for `stellar-drive/data` consumers. */
+export { query } from './query';
+export type {
+  QueryBuilder,
+  QueryCondition,
+  QueryExecOptions,
+  QueryField,
+  QueryOperator,
+  QueryPlan,
+  QueryValue,
+  SortDirection
+} from './query';
+
+// =============================================================================
+// FULL-TEXT SEARCH
+// =============================================================================
+
+/* Search is backed by a derived index maintained in `./search`; re-exported
+   here so it sits alongside the other read APIs. */
+export { engineSearch, rebuildSearchIndex } from './search';
+export type { SearchHit, SearchOptions } from './search';
+
+// =============================================================================
+// AGGREGATION
+// =============================================================================
+
+/* Cursor-streaming aggregation (count/sum/min/max, grouped) lives in
+   `./aggregate` next to the query planner it reuses. */
+export { engineAggregate } from './aggregate';
+export type { AggregateGroup, AggregateOptions } from './aggregate';
+
+// =============================================================================
+// WRITE VALIDATION
+// =============================================================================
+
+/* Thrown by the write paths above when a payload does not match the schema
+   `fields` or duplicates a row under `uniqueConstraints`; re-exported so
+   callers can `instanceof`-check them. */
+export { ValidationError } from './validation';
+export type { ValidationIssue } from './validation';
+export { UniqueConstraintError } from './constraints';
+
+// =============================================================================
+// UNDO HISTORY
+// =============================================================================
+
+/* History recording lives in its own module; `undoGroup` is how callers shape
+   it, so it is part of the data-access surface. */
+export { undoGroup } from './undo';
+
+// =============================================================================
+// BULK IMPORT
+// =============================================================================
+
+/* Chunked, deduplicating imports of large datasets live in `./import`; they
+   write through the same queue as the operations above. */
+export { engineImport } from './import';
+export type { ImportOptions, ImportResult } from './import';
+
+// =============================================================================
+// ENTITY VERSIONS
+// =============================================================================
+
+/* Snapshots are recorded by the write paths above and stored by `./versions`;
+   reading them sits alongside `engineRevertTo`. */
+export { engineGetHistory } from './versions';
+export type { EntityVersion, VersionSource } from './versions';
+
+// =============================================================================
+// FIELD INTENTS
+// =============================================================================
+
+/* The merge rules for array, toggle and patch operations live in `./intents`,
+   shared with the queue and conflict resolution; the patch entry is the
+   queued payload of `enginePatch`. */
+export type { JsonPatchEntry } from './intents';
+
+// =============================================================================
+// ATTACHMENTS
+// =============================================================================
+
+/* Files linked to entity rows live in `./attachments`, which owns their local
+   blob cache and upload queue; they are addressed by table and entity ID like
+   the operations above. */
+export {
+  engineAttach,
+  engineListAttachments,
+  engineGetAttachment,
+  engineRemoveAttachment
+} from './attachments';
+export type { Attachment, AttachmentStatus, AttachOptions } from './attachments';
+
+// =============================================================================
+// USER DATA ARCHIVES
+// =============================================================================
+
+/* Whole-account export and restore live in `./archive`; imports are written
+   through `engineImport` above, so they sync like any other local write. */
+export { exportUserData, importUserData } from './archive';
+export type {
+  ArchiveColumnType,
+  ArchivedTable,
+  ExportUserDataOptions,
+  ImportUserDataOptions,
+  TableImportResult,
+  UserDataArchive,
+  UserDataImportResult
+} from './archive';
@@ -33,7 +33,12 @@ export const TABLE = {
   SINGLE_USER_CONFIG: 'singleUserConfig',
   OFFLINE_CREDENTIALS: 'offlineCredentials',
   OFFLINE_SESSION: 'offlineSession',
-  CONFLICT_HISTORY: 'conflictHistory'
+  CONFLICT_HISTORY: 'conflictHistory',
+  SEARCH_INDEX: 'searchIndex',
+  CASCADE_DELETES: 'cascadeDeletes',
+  ENTITY_VERSIONS: 'entityVersions',
+  ATTACHMENTS: 'attachments',
+  DEAD_LETTERS: 'deadLetters'
 } as const;
 
 // =============================================================================
@@ -98,13 +103,23 @@ export const SYSTEM_INDEXES = 'id, user_id, created_at, updated_at, deleted, _ve
  * - `offlineCredentials` — Cached user credentials for offline sign-in
  * - `offlineSession`     — Offline session tokens
  * - `singleUserConfig`   — Single-user mode gate configuration
+ * - `searchIndex`        — Tokenized full-text index for `searchable` tables
+ * - `cascadeDeletes`     — Children tombstoned by a cascading delete (for `engineRestore`)
+ * - `entityVersions`     — Prior entity snapshots for tables with `history` enabled
+ * - `attachments`        — File metadata and cached blobs for `engineAttach`
+ * - `deadLetters`        — Sync operations that exhausted their retries, kept for review
  */
 const SYSTEM_TABLES: Record<string, string> = {
   syncQueue: '++id, table, entityId, timestamp',
   conflictHistory: '++id, entityId, entityType, timestamp',
   offlineCredentials: 'id',
   offlineSession: 'id',
-  singleUserConfig: 'id'
+  singleUserConfig: 'id',
+  searchIndex: '[table+entityId], *tokens',
+  cascadeDeletes: 'id, deletedAt',
+  entityVersions: '++id, [table+entityId], recordedAt',
+  attachments: 'id, [table+entityId]',
+  deadLetters: '++id, table, entityId, failedAt'
 };
 
 // =============================================================================
@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Dead-Letter Queue for Failed Sync Operations
+ *
+ * A sync operation that exhausts its table's retry policy — `maxAttempts`
+ * failed pushes, or an error the policy lists as permanent (an RLS rejection,
+ * a constraint the server enforces but the schema does not declare, ...) — is
+ * moved out of the `syncQueue` into the `deadLetters` system table by
+ * `cleanupFailedItems`, with its payload, last error and the errors of its
+ * recent attempts. Nothing is dropped: the local row keeps the user's change,
+ * and the operation waits here until the app decides what to do with it:
+ *
+ * - {@link retryDeadLetter} — put it back in the queue, optionally with an
+ *   edited value (also applied to the local row).
+ * - {@link discardDeadLetter} — give up on it.
+ *
+ * {@link deadLetterStore} publishes the current list so a "changes that could
+ * not be saved" panel can bind to it.
+ *
+ * Retried operations keep their original enqueue `timestamp`, so they are
+ * pushed — and coalesced with later operations on the same entity — in the
+ * order the user made them.
+ *
+ * @see {@link ./queue} for the retry policy and `cleanupFailedItems`
+ * @see {@link ./engine} for when failed items are dead-lettered
+ */
+
+import { writable } from 'svelte/store';
+import { findTableConfig, getDexieTableFor } from './config';
+import { getDb, TABLE } from './database';
+import { debugLog } from './debug';
+import { scheduleSyncPush } from './engine';
+import { updateSearchIndex } from './search';
+import { syncStatusStore } from './stores/sync';
+import { isFieldIntent } from './intents';
+import type { OperationType, SyncAttempt, SyncOperationItem } from './types';
+import { validateWrite } from './validation';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A sync operation that exhausted its retries, as stored in the `deadLetters`
+ * table and listed by {@link listDeadLetters}.
+ */
+export interface DeadLetter {
+  /** Auto-increment primary key. */
+  id: number;
+  /** Supabase table name. */
+  table: string;
+  /** Primary key of the entity the operation targets. */
+  entityId: string;
+  /** The operation intent. */
+  operationType: OperationType;
+  /** Target field (increments, single-field sets and field intents). */
+  field?: string;
+  /** The payload — delta, new value(s) or full entity, as queued. */
+  value?: unknown;
+  /** When the operation was originally queued. */
+  queuedAt: string;
+  /** When it was moved to the dead-letter queue. */
+  failedAt: string;
+  /** Error message of the last push attempt. */
+  lastError: string;
+  /** The most recent failed push attempts (up to 20), oldest first. */
+  attempts: SyncAttempt[];
+}
+
+// =============================================================================
+// STORE
+// =============================================================================
+
+const { subscribe, set } = writable<DeadLetter[]>([]);
+
+/**
+ * Svelte store of every dead-lettered operation, oldest first. Updated when
+ * operations are dead-lettered, retried or discarded.
+ *
+ * @example
+ * ```svelte
+ * {#each $deadLetterStore as letter (letter.id)}
+ *   <p>{letter.table}: {letter.lastError}</p>
+ *   <button on:click={() => retryDeadLetter(letter.id)}>Retry</button>
+ *   <button on:click={() => discardDeadLetter(letter.id)}>Discard</button>
+ * {/each}
+ * ```
+ */
+export const deadLetterStore = { subscribe };
+
+/**
+ * Reload {@link deadLetterStore} from IndexedDB. Called by the engine after
+ * `cleanupFailedItems` and on start.
+ */
+export async function refreshDeadLetters(): Promise<void> {
+  set(await listDeadLetters());
+}
+
+// =============================================================================
+// API
+// =============================================================================
+
+/**
+ * List dead-lettered operations, oldest first.
+ *
+ * @param table - Only list operations on this table (Supabase name or schema key).
+ * @returns The operations.
+ */
+export async function listDeadLetters(table?: string): Promise<DeadLetter[]> {
+  const store = getDb().table(TABLE.DEAD_LETTERS);
+  const supaTable = table ? (findTableConfig(table)?.supabaseName ?? table) : null;
+  const letters = (
+    supaTable ? await store.where('table').equals(supaTable).toArray() : await store.toArray()
+  ) as DeadLetter[];
+  return letters.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+/**
+ * Look up a dead-lettered operation.
+ *
+ * @throws {Error} If no dead letter has that ID.
+ */
+async function getDeadLetter(id: number): Promise<DeadLetter> {
+  const letter = (await getDb().table(TABLE.DEAD_LETTERS).get(id)) as DeadLetter | undefined;
+  if (!letter) throw new Error(`Unknown dead letter: ${id}`);
+  return letter;
+}
+
+/**
+ * Apply an edited value to the local row, so it shows what will be pushed.
+ * Increments shift the field by the change in delta.
+ *
+ * @throws {ValidationError} If the new value does not match the schema `fields`.
+ */
+async function applyEdit(letter: DeadLetter, value: unknown): Promise<void> {
+  const tableConfig = findTableConfig(letter.table);
+  if (!tableConfig) return;
+  const dexieTable = getDb().table(getDexieTableFor(tableConfig));
+
+  let fields: Record<string, unknown>;
+  if (letter.operationType === 'increment') {
+    const row = (await dexieTable.get(letter.entityId)) as Record<string, unknown> | undefined;
+    const delta = (value as number) - ((letter.value as number) ?? 0);
+    fields = { [letter.field!]: ((row?.[letter.field!] as number) ?? 0) + delta };
+  } else if (letter.field) {
+    fields = { [letter.field]: value };
+  } else {
+    fields = value as Record<string, unknown>;
+  }
+
+  if (letter.operationType === 'create') {
+    validateWrite(letter.table, { ...fields, id: letter.entityId }, 'create');
+  } else if (letter.operationType !== 'increment') {
+    validateWrite(letter.table, fields, 'update');
+  }
+  await dexieTable.update(letter.entityId, fields);
+  await updateSearchIndex(letter.table, [letter.entityId]);
+}
+
+/**
+ * Put a dead-lettered operation back in the sync queue and schedule a push.
+ * It gets a fresh set of retries.
+ *
+ * Pass `edit.value` to retry with a corrected payload — the delta of an
+ * increment, the field value of a single-field set, the changed fields of a
+ * multi-field set, or the full row of a create. The edit is validated and
+ * applied to the local row as well. Deletes and array, toggle and patch
+ * operations cannot be edited — discard them and write again instead.
+ *
+ * @param id   - The dead letter's ID.
+ * @param edit - A replacement value for the operation.
+ *
+ * @throws {Error} If no dead letter has that ID, or `edit` targets a delete or
+ *                 a field intent.
+ * @throws {ValidationError} If the edited value does not match the schema `fields`.
+ *
+ * @example
+ * ```ts
+ * // A title the server rejected as too long:
+ * await retryDeadLetter(letter.id, { value: letter.value.slice(0, 200) });
+ * ```
+ */
+export async function retryDeadLetter(id: number, edit?: { value: unknown }): Promise<void> {
+  const letter = await getDeadLetter(id);
+  if (edit && letter.operationType === 'delete') {
+    throw new Error('A delete operation has no value to edit');
+  }
+  if (edit && isFieldIntent(letter.operationType)) {
+    /* The intent is already applied to the local row and cannot be taken
+       back exactly, so a replacement could not be mirrored there. */
+    throw new Error(`A ${letter.operationType} operation cannot be edited`);
+  }
+  if (edit) await applyEdit(letter, edit.value);
+
+  const item: SyncOperationItem = {
+    table: letter.table,
+    entityId: letter.entityId,
+    operationType: letter.operationType,
+    ...(letter.field !== undefined ? { field: letter.field } : {}),
+    ...(edit ? { value: edit.value } : letter.value !== undefined ? { value: letter.value } : {}),
+    timestamp: letter.queuedAt,
+    retries: 0
+  };
+
+  const db = getDb();
+  await db.transaction('rw', [db.table('syncQueue'), db.table(TABLE.DEAD_LETTERS)], async () => {
+    await db.table(TABLE.DEAD_LETTERS).delete(id);
+    await db.table('syncQueue').add(item);
+  });
+  debugLog(`[DeadLetters] Retrying ${letter.operationType} ${letter.table}/${letter.entityId}`);
+
+  syncStatusStore.setPendingCount(await db.table('syncQueue').count());
+  await refreshDeadLetters();
+  scheduleSyncPush();
+}
+
+/**
+ * Drop a dead-lettered operation for good.
+ *
+ * The local row is left as it is, so it may differ from the server until it
+ * is edited again or a remote change replaces it.
+ *
+ * @param id - The dead letter's ID.
+ */
+export async function discardDeadLetter(id: number): Promise<void> {
+  await getDb().table(TABLE.DEAD_LETTERS).delete(id);
+  await refreshDeadLetters();
+}
@@ -299,7 +299,7 @@ export function _setDemoPrefix(prefix: string): void {
  * Steps:
  * 1. Check `_demoSeeded` flag — return if already seeded.
  * 2. Clear all app tables (using engine config's table definitions).
- * 3. Clear system tables (`syncQueue`, `conflictHistory`).
+ * 3. Clear system tables (`syncQueue`, `conflictHistory`, `entityVersions`, `attachments`).
  * 4. Call the consumer's `seedData(db)` callback.
  * 5. Set `_demoSeeded = true`.
  *
@@ -325,7 +325,12 @@ export async function seedDemoData(): Promise<void> {
   }
 
   /* Clear system tables */
-  for (const systemTable of ['syncQueue', TABLE.CONFLICT_HISTORY]) {
+  for (const systemTable of [
+    'syncQueue',
+    TABLE.CONFLICT_HISTORY,
+    TABLE.ENTITY_VERSIONS,
+    TABLE.ATTACHMENTS
+  ]) {
     try {
       await db.table(systemTable).clear();
     } catch {
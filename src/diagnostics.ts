@@ -27,7 +27,7 @@
 import { _getEngineDiagnostics } from './engine';
 import { _getRealtimeDiagnostics } from './realtime';
 import { _getRecentConflictHistory } from './conflicts';
-import { getPendingSync, getPendingEntityIds } from './queue';
+import { getPendingSync, getPendingEntityIds, getRetrySchedule } from './queue';
 import { getEngineConfig } from './config';
 import { getDeviceId } from './deviceId';
 import { syncStatusStore } from './stores/sync';
@@ -101,6 +101,18 @@ export interface DiagnosticsSnapshot {
     byOperationType: Record<string, number>;
     oldestPendingTimestamp: string | null;
     itemsInBackoff: number;
+    /** Earliest time a failed operation will be retried, or null if none is waiting */
+    nextRetryAt: string | null;
+    /** Failed operations waiting for a retry, soonest first */
+    retrying: {
+      table: string;
+      entityId: string;
+      operationType: string;
+      attempts: number;
+      lastError: string | null;
+      lastErrorCode: string | null;
+      nextRetryAt: string;
+    }[];
   };
 
   /** Realtime WebSocket connection state */
@@ -342,11 +354,13 @@ export function getRealtimeDiagnostics() {
 /**
  * Get pending sync queue diagnostics (async — reads IndexedDB).
  *
- * @returns Pending operation count, entity IDs, and breakdowns by table/operation type
+ * @returns Pending operation count, entity IDs, breakdowns by table/operation type,
+ *          and when each failed operation will be retried
  */
 export async function getQueueDiagnostics(): Promise<DiagnosticsSnapshot['queue']> {
   const pending = await getPendingSync();
   const entityIds = await getPendingEntityIds();
+  const schedule = await getRetrySchedule();
 
   // Breakdown by table
   const byTable: Record<string, number> = {};
@@ -371,7 +385,17 @@ export async function getQueueDiagnostics(): Promise<DiagnosticsSnapshot['queue'
     byTable,
     byOperationType,
     oldestPendingTimestamp: oldestTimestamp,
-    itemsInBackoff
+    itemsInBackoff,
+    nextRetryAt: schedule[0]?.nextRetryAt ?? null,
+    retrying: schedule.map(({ item, nextRetryAt }) => ({
+      table: item.table,
+      entityId: item.entityId,
+      operationType: item.operationType,
+      attempts: item.retries,
+      lastError: item.lastError ?? null,
+      lastErrorCode: item.lastErrorCode ?? null,
+      nextRetryAt
+    }))
   };
 }
 
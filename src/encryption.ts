@@ -0,0 +1,457 @@
+/**
+ * @fileoverview Field-Level End-to-End Encryption
+ *
+ * Encrypts the fields a schema marks as `encrypted` before they leave the
+ * device, so Supabase only ever stores ciphertext for them:
+ *
+ * ```ts
+ * schema: {
+ *   journal_entries: { fields: { title: 'string', body: 'string' }, encrypted: ['body'] }
+ * }
+ * ```
+ *
+ * Key model:
+ * - A random AES-GCM-256 **data key** encrypts field values. It is generated
+ *   once per account and never leaves the device unwrapped.
+ * - The data key is stored **wrapped** (AES-GCM) under a key derived with
+ *   PBKDF2-SHA-256 from a user-held secret — the single-user gate
+ *   (`encryption.keySource: 'gate'`) or a separate passphrase passed to
+ *   {@link unlockEncryption}. The wrapped record lives in Supabase
+ *   `user_metadata.encryption_key`, so every device of the account can unwrap
+ *   it, and is cached in localStorage for offline unlocks.
+ * - Changing the secret re-wraps the same data key
+ *   ({@link changeEncryptionSecret}); existing ciphertext stays valid.
+ *
+ * Data flow:
+ * - IndexedDB holds **plaintext** — local queries, search and conflict
+ *   resolution work unchanged.
+ * - Push encrypts marked fields of outgoing payloads ({@link encryptPayload}).
+ *   While the key is locked, operations on encrypted tables stay queued.
+ * - Pull, hydration, realtime and remote-fallback reads decrypt marked fields
+ *   ({@link decryptRow}). Rows that arrive while the key is locked are stored
+ *   as ciphertext and decrypted in place by the next {@link unlockEncryption}.
+ *
+ * Ciphertext format: `enc:v1:<base64 iv>:<base64 ciphertext>`, wrapping the
+ * JSON encoding of the value (so numbers, booleans and objects round-trip).
+ * The field name is bound as additional authenticated data, so ciphertext
+ * cannot be moved between columns unnoticed. `null` is never encrypted.
+ *
+ * Limits: the server cannot filter, sort, index or constrain encrypted
+ * columns, and the secret's strength bounds the protection — a short numeric
+ * gate code can be brute-forced by anyone holding the wrapped key, so prefer
+ * a passphrase for sensitive data.
+ *
+ * @see {@link ./types} for `SchemaTableConfig.encrypted`
+ * @see {@link ./engine} for the push and pull hooks
+ * @see {@link ./schema} for how encrypted columns are typed in generated SQL
+ */
+
+import { findTableConfig, getDexieTableFor, getEngineConfig } from './config';
+import { getDb } from './database';
+import { debugError, debugLog, debugWarn } from './debug';
+import { supabase } from './supabase/client';
+
+// =============================================================================
+// TYPES & CONSTANTS
+// =============================================================================
+
+/** The wrapped data key, as stored in `user_metadata` and localStorage. */
+interface WrappedKey {
+  /** Format version. */
+  v: 1;
+  /** Base64 PBKDF2 salt. */
+  salt: string;
+  /** Base64 AES-GCM IV used to wrap the data key. */
+  iv: string;
+  /** Base64 wrapped data key. */
+  key: string;
+}
+
+/** Prefix marking an encrypted value. */
+const CIPHERTEXT_PREFIX = 'enc:v1:';
+
+/** `user_metadata` key holding the wrapped data key. */
+const METADATA_KEY = 'encryption_key';
+
+/** PBKDF2 iterations for deriving the wrapping key. */
+const PBKDF2_ITERATIONS = 310_000;
+
+/** The unwrapped data key while unlocked. */
+let dataKey: CryptoKey | null = null;
+
+// =============================================================================
+// ENCODING HELPERS
+// =============================================================================
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+// =============================================================================
+// KEY MANAGEMENT
+// =============================================================================
+
+/** localStorage key caching the wrapped data key for offline unlocks. */
+function getCacheKey(): string {
+  return `${getEngineConfig().prefix}_encryption_key`;
+}
+
+/** Derive the key-wrapping key from a secret and salt. */
+async function deriveWrappingKey(
+  secret: string,
+  salt: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+/** Wrap `key` under a fresh salt and IV derived from `secret`. */
+async function wrapDataKey(key: CryptoKey, secret: string): Promise<WrappedKey> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const wrapping = await deriveWrappingKey(secret, salt);
+  const wrapped = await crypto.subtle.wrapKey('raw', key, wrapping, { name: 'AES-GCM', iv });
+  return { v: 1, salt: toBase64(salt), iv: toBase64(iv), key: toBase64(new Uint8Array(wrapped)) };
+}
+
+/**
+ * Unwrap a stored data key.
+ *
+ * @throws If `secret` is wrong (AES-GCM authentication fails).
+ */
+async function unwrapDataKey(
+  record: WrappedKey,
+  secret: string,
+  extractable: boolean
+): Promise<CryptoKey> {
+  const wrapping = await deriveWrappingKey(secret, fromBase64(record.salt));
+  return crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(record.key),
+    wrapping,
+    { name: 'AES-GCM', iv: fromBase64(record.iv) },
+    { name: 'AES-GCM', length: 256 },
+    extractable,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function readCachedRecord(): WrappedKey | null {
+  if (typeof localStorage === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(getCacheKey());
+    return stored ? (JSON.parse(stored) as WrappedKey) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCachedRecord(record: WrappedKey): void {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(getCacheKey(), JSON.stringify(record));
+  } catch {
+    /* Cache only — the record is authoritative in user_metadata. */
+  }
+}
+
+/**
+ * Load the wrapped data key: from `user_metadata` when online (refreshed from
+ * the server, so a key created on another device is seen), otherwise from
+ * the localStorage cache.
+ *
+ * @returns The record (or `null`), and whether the server confirmed it — a
+ *          new key may only be created when the server says none exists.
+ */
+async function loadRecord(): Promise<{ record: WrappedKey | null; confirmed: boolean }> {
+  const offline = typeof navigator !== 'undefined' && !navigator.onLine;
+  if (!offline) {
+    try {
+      const { data, error } = await supabase.auth.getUser();
+      if (!error && data.user) {
+        const record = (data.user.user_metadata?.[METADATA_KEY] as WrappedKey | undefined) ?? null;
+        if (record) writeCachedRecord(record);
+        return { record, confirmed: true };
+      }
+    } catch (e) {
+      debugWarn('[Encryption] Failed to read key from user_metadata:', e);
+    }
+  }
+  return { record: readCachedRecord(), confirmed: false };
+}
+
+/** Persist the wrapped data key to `user_metadata` and the local cache. */
+async function saveRecord(record: WrappedKey): Promise<string | null> {
+  const { error } = await supabase.auth.updateUser({ data: { [METADATA_KEY]: record } });
+  if (error) return error.message;
+  writeCachedRecord(record);
+  return null;
+}
+
+// =============================================================================
+// LOCK / UNLOCK
+// =============================================================================
+
+/**
+ * Unlock field encryption with the user's secret.
+ *
+ * Unwraps the account's data key; on the account's first unlock (no key
+ * stored yet) generates one and stores it wrapped under `secret`, which
+ * requires being online. After unlocking, ciphertext already stored locally
+ * (rows pulled while locked) is decrypted in place, and queued operations
+ * for encrypted tables can be pushed again.
+ *
+ * With `encryption.keySource: 'gate'` the single-user auth flow calls this
+ * with the gate automatically; call it yourself for `'passphrase'`.
+ *
+ * @param secret - The gate code or passphrase.
+ * @returns `error` is `null` on success, or a message (wrong secret, offline
+ *          first-time setup, ...).
+ *
+ * @example
+ * ```ts
+ * const { error } = await unlockEncryption(passphrase);
+ * if (error) showError(error);
+ * ```
+ */
+export async function unlockEncryption(secret: string): Promise<{ error: string | null }> {
+  try {
+    const { record, confirmed } = await loadRecord();
+    if (record) {
+      try {
+        dataKey = await unwrapDataKey(record, secret, false);
+      } catch {
+        return { error: 'Incorrect encryption passphrase' };
+      }
+    } else {
+      if (!confirmed) return { error: 'Encryption must be set up while online' };
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+        'encrypt',
+        'decrypt'
+      ]);
+      const saveError = await saveRecord(await wrapDataKey(key, secret));
+      if (saveError) return { error: saveError };
+      /* Re-import as non-extractable for day-to-day use. */
+      const raw = await crypto.subtle.exportKey('raw', key);
+      dataKey = await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+      debugLog('[Encryption] Created new data key');
+    }
+
+    await decryptLocalData();
+    debugLog('[Encryption] Unlocked');
+    return { error: null };
+  } catch (e) {
+    debugError('[Encryption] Unlock failed:', e);
+    return { error: e instanceof Error ? e.message : 'Failed to unlock encryption' };
+  }
+}
+
+/**
+ * Re-wrap the data key under a new secret. Existing ciphertext is unaffected.
+ * Requires being online (the wrapped key is stored in `user_metadata`). A
+ * no-op when no key has been created yet.
+ *
+ * With `encryption.keySource: 'gate'`, `changeSingleUserGate` calls this
+ * automatically.
+ *
+ * @param oldSecret - The current gate code or passphrase.
+ * @param newSecret - The new one.
+ * @returns `error` is `null` on success, or a message.
+ */
+export async function changeEncryptionSecret(
+  oldSecret: string,
+  newSecret: string
+): Promise<{ error: string | null }> {
+  try {
+    const { record } = await loadRecord();
+    /* Nothing wrapped yet — the first unlock will use the new secret. */
+    if (!record) return { error: null };
+
+    let key: CryptoKey;
+    try {
+      key = await unwrapDataKey(record, oldSecret, true);
+    } catch {
+      return { error: 'Incorrect encryption passphrase' };
+    }
+
+    const saveError = await saveRecord(await wrapDataKey(key, newSecret));
+    if (saveError) return { error: saveError };
+    debugLog('[Encryption] Re-wrapped data key under new secret');
+    return { error: null };
+  } catch (e) {
+    debugError('[Encryption] Secret change failed:', e);
+    return { error: e instanceof Error ? e.message : 'Failed to change encryption secret' };
+  }
+}
+
+/**
+ * Forget the data key. Pushes for encrypted tables pause until the next
+ * {@link unlockEncryption}. Called by `lockSingleUser` and on cache clear.
+ */
+export function lockEncryption(): void {
+  dataKey = null;
+}
+
+/** Whether the data key is currently unlocked. */
+export function isEncryptionUnlocked(): boolean {
+  return dataKey !== null;
+}
+
+// =============================================================================
+// FIELD ENCRYPTION
+// =============================================================================
+
+/** The encrypted fields of a table (empty when none). */
+function getEncryptedFields(table: string): string[] {
+  return findTableConfig(table)?.encryptedFields ?? [];
+}
+
+/**
+ * Whether operations on `table` must wait for {@link unlockEncryption} before
+ * they can be pushed.
+ *
+ * @param table - Supabase table name or schema key.
+ */
+export function isEncryptionPending(table: string): boolean {
+  return dataKey === null && getEncryptedFields(table).length > 0;
+}
+
+function isCiphertext(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(CIPHERTEXT_PREFIX);
+}
+
+async function encryptValue(key: CryptoKey, field: string, value: unknown): Promise<string> {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(field) },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return `${CIPHERTEXT_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+async function decryptValue(key: CryptoKey, field: string, value: string): Promise<unknown> {
+  const [iv, ciphertext] = value.slice(CIPHERTEXT_PREFIX.length).split(':');
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv), additionalData: new TextEncoder().encode(field) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/**
+ * Encrypt the marked fields present in an outgoing payload. Fields that are
+ * absent, `null` or already ciphertext are left as they are.
+ *
+ * @param table   - Supabase table name or schema key.
+ * @param payload - The payload about to be sent to Supabase.
+ * @returns A copy with marked fields encrypted (`payload` itself when the
+ *          table has none).
+ * @throws {Error} If the table has encrypted fields and the key is locked.
+ */
+export async function encryptPayload(
+  table: string,
+  payload: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const fields = getEncryptedFields(table).filter(
+    (field) =>
+      payload[field] !== undefined && payload[field] !== null && !isCiphertext(payload[field])
+  );
+  if (fields.length === 0) return payload;
+  if (!dataKey) throw new Error(`Encryption is locked; cannot push to ${table}`);
+
+  const result = { ...payload };
+  for (const field of fields) {
+    result[field] = await encryptValue(dataKey, field, payload[field]);
+  }
+  return result;
+}
+
+/**
+ * Decrypt the marked fields of a row received from Supabase. Idempotent:
+ * plaintext values pass through. While the key is locked, or when a value
+ * fails to decrypt (wrong key, tampering), the ciphertext is kept.
+ *
+ * @param table - Supabase table name or schema key.
+ * @param row   - The row as received.
+ * @returns A copy with marked fields decrypted (`row` itself when nothing
+ *          was decrypted).
+ */
+export async function decryptRow<T extends Record<string, unknown>>(
+  table: string,
+  row: T
+): Promise<T> {
+  const key = dataKey;
+  if (!key) return row;
+  const fields = getEncryptedFields(table).filter((field) => isCiphertext(row[field]));
+  if (fields.length === 0) return row;
+
+  const result: Record<string, unknown> = { ...row };
+  for (const field of fields) {
+    try {
+      result[field] = await decryptValue(key, field, row[field] as string);
+    } catch (e) {
+      debugError(`[Encryption] Failed to decrypt ${table}.${field} of ${row.id}:`, e);
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Decrypt a list of rows. See {@link decryptRow}.
+ *
+ * @param table - Supabase table name or schema key.
+ * @param rows  - The rows as received.
+ */
+export async function decryptRows<T extends Record<string, unknown>>(
+  table: string,
+  rows: T[]
+): Promise<T[]> {
+  if (!dataKey || getEncryptedFields(table).length === 0) return rows;
+  return Promise.all(rows.map((row) => decryptRow(table, row)));
+}
+
+/**
+ * Decrypt, in place, ciphertext stored locally by pulls that ran while the
+ * key was locked.
+ */
+async function decryptLocalData(): Promise<void> {
+  const db = getDb();
+  for (const table of getEngineConfig().tables) {
+    const fields = table.encryptedFields ?? [];
+    if (fields.length === 0) continue;
+    const dexieTable = db.table(getDexieTableFor(table));
+    const stale = (await dexieTable
+      .filter((row: Record<string, unknown>) => fields.some((f) => isCiphertext(row[f])))
+      .toArray()) as Record<string, unknown>[];
+    if (stale.length === 0) continue;
+    await dexieTable.bulkPut(await decryptRows(table.supabaseName, stale));
+    debugLog(`[Encryption] Decrypted ${stale.length} stored rows of ${table.supabaseName}`);
+  }
+}
@@ -60,6 +60,7 @@
  * @see {@link ./config.ts} - Engine configuration and table definitions
  */
 
+import Dexie from 'dexie';
 import {
   getEngineConfig,
   getDexieTableFor,
@@ -67,10 +68,12 @@ import {
   findTableConfig,
   RECENTLY_MODIFIED_TTL_MS
 } from './config';
+import type { TableConfig } from './config';
 import { clearDbResetFlag, getDb, TABLE } from './database';
 import { debugLog, debugWarn, debugError, isDebugMode } from './debug';
 import {
   getPendingSync,
+  getPushableSync,
   removeSyncItem,
   bulkRemoveSyncItems,
   incrementRetry,
@@ -111,6 +114,28 @@ import { validateSchema } from './supabase/validate';
 import { formatBytes } from './utils';
 import { getDiagnostics } from './diagnostics';
 import { isDemoMode } from './demo';
+import { updateSearchIndex } from './search';
+import { clearUndoHistory } from './undo';
+import { cleanupEntityVersions, recordVersion } from './versions';
+import { applySyncFilter, evictOutsideSyncFilter, evictRows, getSyncFilter } from './syncFilter';
+import { processAttachmentQueue } from './attachments';
+import { refreshDeadLetters } from './deadLetters';
+import {
+  clearTableCursors,
+  getHydrationMode,
+  getTableCursor,
+  initTableLoadStates,
+  setTableCursor,
+  setTableLoadState
+} from './tableHydration';
+import {
+  decryptRow,
+  decryptRows,
+  encryptPayload,
+  isEncryptionPending,
+  lockEncryption
+} from './encryption';
+import { isFieldIntent } from './intents';
 
 // =============================================================================
 // CONFIG ACCESSORS
@@ -286,12 +311,13 @@ let authValidatedAfterReconnect = true;
 let _schemaValidated = false;
 
 /**
- * Clear all pending sync operations from the outbox queue.
+ * Clear all pending sync operations from the outbox queue, and the dead-letter
+ * queue with it.
  *
  * **SECURITY**: Called when offline credentials are found to be invalid, to prevent
  * unauthorized data from being synced to the server. Without this, a user who
  * tampered with offline credentials could queue malicious writes that get pushed
- * once the device reconnects.
+ * once the device reconnects (or are retried from the dead-letter queue).
  *
  * @returns The number of operations that were cleared
  *
@@ -307,6 +333,8 @@ export async function clearPendingSyncQueue(): Promise<number> {
     const db = getDb();
     const count = await db.table('syncQueue').count();
     await db.table('syncQueue').clear();
+    await db.table(TABLE.DEAD_LETTERS).clear();
+    await refreshDeadLetters();
     debugLog(`[SYNC] Cleared ${count} pending sync operations (auth invalid)`);
     return count;
   } catch (e) {
@@ -1044,6 +1072,8 @@ async function resetSyncCursor(): Promise<void> {
     localStorage.removeItem(`lastSyncCursor_${userId}`);
     debugLog('[SYNC] Sync cursor reset - next sync will pull all data');
   }
+  // Lazy tables reload in full on their next read
+  clearTableCursors(userId);
 }
 
 /**
@@ -1112,10 +1142,12 @@ async function forceFullSync(): Promise<void> {
  *
  * This is the "download" half of the sync cycle. It:
  * 1. Queries all configured tables for rows with `updated_at > lastSyncCursor`
+ *    (narrowed by the table's `syncFilter`, when it has one)
  * 2. For each remote record, applies it to local DB with conflict resolution
  * 3. Skips recently-modified entities (protected by the TTL guard)
  * 4. Skips entities just processed by realtime (prevents double-processing)
  * 5. Advances the sync cursor to the newest `updated_at` seen
+ * 6. Evicts local copies of rows that changed out of their table's `syncFilter`
  *
  * All table queries run in parallel for minimal wall-clock time. The entire
  * local write is wrapped in a Dexie transaction for atomicity.
@@ -1162,18 +1194,26 @@ async function pullRemoteChanges(minCursor?: string): Promise<{ bytes: number; r
   async function pullTablePaginated(table: {
     supabaseName: string;
     columns: string;
-  }): Promise<{ data: Record<string, unknown>[]; error: unknown }> {
+  }): Promise<{ data: Record<string, unknown>[]; error: unknown; departedIds: string[] }> {
     const allData: Record<string, unknown>[] = [];
     let offset = 0;
     let hasMore = true;
 
+    // Lazy tables are pulled from their own cursor once loaded; `none` tables never
+    const mode = getHydrationMode(table.supabaseName);
+    const tableCursor = mode === 'lazy' ? getTableCursor(userId!, table.supabaseName) : null;
+    if (mode === 'none' || (mode === 'lazy' && tableCursor === null)) {
+      return { data: allData, error: null, departedIds: [] };
+    }
+    const since = tableCursor ?? lastSync;
+
     while (hasMore) {
       const { data, error } = (await withTimeout(
         Promise.resolve(
-          supabase
-            .from(table.supabaseName)
-            .select(table.columns)
-            .gt('updated_at', lastSync)
+          applySyncFilter(
+            table.supabaseName,
+            supabase.from(table.supabaseName).select(table.columns).gt('updated_at', since)
+          )
             .order('updated_at', { ascending: true })
             .order('id', { ascending: true })
             .range(offset, offset + PULL_PAGE_SIZE - 1)
@@ -1183,15 +1223,44 @@ async function pullRemoteChanges(minCursor?: string): Promise<{ bytes: number; r
       )) as { data: Record<string, unknown>[] | null; error: unknown };
       debugLog(`[SYNC] Pulled ${table.supabaseName} offset=${offset} rows=${data?.length ?? 0}`);
 
-      if (error) return { data: allData, error };
+      if (error) return { data: allData, error, departedIds: [] };
       if (!data) break;
 
-      allData.push(...(data as unknown as Record<string, unknown>[]));
+      allData.push(
+        ...(await decryptRows(table.supabaseName, data as unknown as Record<string, unknown>[]))
+      );
       hasMore = data.length === PULL_PAGE_SIZE;
       offset += PULL_PAGE_SIZE;
     }
 
-    return { data: allData, error: null };
+    if (!getSyncFilter(table.supabaseName)) return { data: allData, error: null, departedIds: [] };
+
+    /* Rows that changed but no longer match the sync filter (e.g. archived on
+       another device) are absent from the filtered pull. List every changed
+       ID so their stale local copies can be evicted. */
+    const pulledIds = new Set(allData.map((row) => row.id as string));
+    const departedIds: string[] = [];
+    for (let idOffset = 0; ; idOffset += PULL_PAGE_SIZE) {
+      const { data, error } = (await withTimeout(
+        Promise.resolve(
+          supabase
+            .from(table.supabaseName)
+            .select('id')
+            .gt('updated_at', since)
+            .order('id', { ascending: true })
+            .range(idOffset, idOffset + PULL_PAGE_SIZE - 1)
+        ),
+        30_000,
+        `Pull ${table.supabaseName} changed IDs at offset ${idOffset}`
+      )) as { data: { id: string }[] | null; error: unknown };
+      if (error) return { data: allData, error, departedIds: [] };
+      for (const { id } of data ?? []) {
+        if (!pulledIds.has(id)) departedIds.push(id);
+      }
+      if (!data || data.length < PULL_PAGE_SIZE) break;
+    }
+
+    return { data: allData, error: null, departedIds };
   }
 
   // No global timeout here — outer timeout in runFullSync wraps the entire pull.
@@ -1225,14 +1294,16 @@ async function pullRemoteChanges(minCursor?: string): Promise<{ bytes: number; r
    * @param entityType - The Supabase table name (for conflict history logging)
    * @param remoteRecords - Records fetched from the server
    * @param table - Dexie table handle for local reads/writes
+   * @returns IDs of the entities that were written locally
    */
   async function applyRemoteWithConflictResolution<T extends { id: string; updated_at: string }>(
     entityType: string,
     remoteRecords: T[] | null,
     table: { get: (id: string) => Promise<T | undefined>; put: (entity: T) => Promise<unknown> }
-  ): Promise<void> {
+  ): Promise<string[]> {
     // Fetch pending entity IDs per-table to avoid stale data from earlier in the pull
     const pendingEntityIds = await getPendingEntityIds();
+    const written: string[] = [];
 
     for (const remote of remoteRecords || []) {
       // Skip recently modified entities (protects against race conditions)
@@ -1253,6 +1324,7 @@ async function pullRemoteChanges(minCursor?: string): Promise<{ bytes: number; r
       // If no local entity, just accept remote
       if (!local) {
         await table.put(remote);
+        written.push(remote.id);
         continue;
       }
 
@@ -1266,7 +1338,9 @@ async function pullRemoteChanges(minCursor?: string): Promise<{ bytes: number; r
 
       if (!hasPendingOps) {
         // No pending ops and remote is newer - simple case, accept remote
+        await recordVersion(entityType, local as unknown as Record<string, unknown>, 'remote');
         await table.put(remote);
+        written.push(remote.id);
       } else {
         // Entity has pending operations - apply field-level conflict resolution
         const pendingOps = await getPendingOpsForEntity(remote.id);
@@ -1279,7 +1353,9 @@ async function pullRemoteChanges(minCursor?: string): Promise<{ bytes: number; r
         );
 
         // Store the merged entity
+        await recordVersion(entityType, local as unknown as Record<string, unknown>, 'conflict');
         await table.put(resolution.mergedEntity as unknown as T);
+        written.push(remote.id);
 
         // Store conflict history if there were conflicts
         if (resolution.hasConflicts) {
@@ -1287,6 +1363,8 @@ async function pullRemoteChanges(minCursor?: string): Promise<{ bytes: number; r
         }
       }
     }
+
+    return written;
   }
 
   // Log what we're about to apply
@@ -1303,13 +1381,19 @@ async function pullRemoteChanges(minCursor?: string): Promise<{ bytes: number; r
   const hasData = results.some((r) => r.data && r.data.length > 0);
 
   if (hasData) {
+    const writtenIds: string[][] = [];
     await db.transaction(
       'rw',
-      [...entityTables, db.table('syncQueue'), db.table(TABLE.CONFLICT_HISTORY)],
+      [
+        ...entityTables,
+        db.table('syncQueue'),
+        db.table(TABLE.CONFLICT_HISTORY),
+        db.table(TABLE.ENTITY_VERSIONS)
+      ],
       async () => {
         for (let i = 0; i < config.tables.length; i++) {
           const data = results[i].data as { id: string; updated_at: string }[] | null;
-          await applyRemoteWithConflictResolution(
+          writtenIds[i] = await applyRemoteWithConflictResolution(
             tableNames[i],
             data,
             db.table(getDexieTableFor(config.tables[i]))
@@ -1317,6 +1401,29 @@ async function pullRemoteChanges(minCursor?: string): Promise<{ bytes: number; r
         }
       }
     );
+
+    // Refresh the derived search index once the pull has committed
+    for (let i = 0; i < config.tables.length; i++) {
+      await updateSearchIndex(tableNames[i], writtenIds[i] ?? []);
+    }
+  }
+
+  // Advance the cursors of loaded lazy tables
+  for (let i = 0; i < config.tables.length; i++) {
+    const cursor = getTableCursor(userId, tableNames[i]);
+    if (cursor === null || getHydrationMode(tableNames[i]) !== 'lazy') continue;
+    let newest = cursor;
+    for (const row of results[i].data) {
+      if ((row.updated_at as string) > newest) newest = row.updated_at as string;
+    }
+    setTableCursor(userId, tableNames[i], newest);
+  }
+
+  // Drop local copies of rows that changed out of their table's sync filter
+  for (let i = 0; i < config.tables.length; i++) {
+    const evicted = await evictRows(tableNames[i], results[i].departedIds);
+    if (evicted > 0)
+      debugLog(`[SYNC] Evicted ${evicted} rows that left ${tableNames[i]}'s sync filter`);
   }
 
   // Update sync cursor (per-user)
@@ -1334,6 +1441,15 @@ async function pullRemoteChanges(minCursor?: string): Promise<{ bytes: number; r
  */
 let pushErrors: Array<{ message: string; table: string; operation: string; entityId: string }> = [];
 
+/** A row rejected by `stellar_push_rows`, with the error it failed with. */
+interface RowFailure {
+  /** The row's `id`. */
+  id: string;
+  /** PostgreSQL SQLSTATE. */
+  code: string;
+  message: string;
+}
+
 /** Statistics returned by a push operation */
 interface PushStats {
   /** Number of queue items before coalescing */
@@ -1350,7 +1466,9 @@ interface PushStats {
  * This is the "upload" half of the sync cycle. It:
  * 1. Pre-flight auth check (fail fast if session is expired)
  * 2. Coalesces redundant operations (e.g., 50 rapid edits → 1 update)
- * 3. Processes each queue item via `processSyncItem()`
+ * 3. Upserts creates and sets in multi-row batches per table (row by row through
+ *    the `stellar_push_rows` RPC when a batch fails, so each error reaches its
+ *    own queue item), and the remaining items via `processSyncItem()`
  * 4. Removes successfully pushed items from the queue
  * 5. Increments retry count for failed items (exponential backoff)
  *
@@ -1358,6 +1476,10 @@ interface PushStats {
  * catches items that were added to the queue *during* the push (e.g., the
  * user made another edit while sync was running).
  *
+ * Each pass pushes only the operations whose dependencies are already on the
+ * server — parent creates before their children, child deletes before their
+ * parent — so a dependency chain is pushed one level per pass.
+ *
  * @returns Push statistics (original count, coalesced count, actually pushed)
  * @throws {Error} If auth validation fails before push
  */
@@ -1388,8 +1510,80 @@ function handleSyncItemError(item: SyncOperationItem, error: unknown): void {
 
   if (item.id) {
     // Fire and forget — incrementRetry is async but we don't need to await in error handler
-    void incrementRetry(item.id);
+    void incrementRetry(item.id, extractErrorMessage(error), extractErrorCode(error));
+  }
+}
+
+/**
+ * Push a batch whose multi-row upsert failed, attributing the failure to the
+ * rows that caused it.
+ *
+ * Sends the rows to the generated `stellar_push_rows` RPC, which upserts each
+ * one in its own savepoint and returns the ones that failed with their error —
+ * one request for the whole batch instead of one per row. Pushed operations
+ * are removed from the queue; each failed one goes through
+ * `handleSyncItemError` with its own error, so retry policies and
+ * dead-lettering apply per operation. Creates rejected as duplicates are
+ * re-run through `processSyncItem`, which resolves them as a single insert
+ * would (a no-op, or singleton ID reconciliation).
+ *
+ * Falls back to `processSyncItem` for every item when the RPC is missing
+ * (schema SQL predating it) or the call itself fails.
+ *
+ * @param table - Supabase table name
+ * @param rows  - The batch payloads, aligned with `items`
+ * @param items - The queue items the rows were built from
+ * @returns The number of operations pushed
+ */
+async function pushRowsIndividually(
+  table: string,
+  rows: Record<string, unknown>[],
+  items: SyncOperationItem[]
+): Promise<number> {
+  let failures: Map<string, RowFailure> | null = null;
+  try {
+    const { data, error } = await getSupabase().rpc('stellar_push_rows', {
+      p_table: table,
+      p_rows: rows
+    });
+    if (!error) {
+      failures = new Map(((data as RowFailure[] | null) ?? []).map((f) => [f.id, f]));
+      debugLog(`[SYNC] Row-by-row push into ${table}: ${failures.size} of ${rows.length} failed`);
+    } else if (isMissingFunctionError(error)) {
+      debugWarn(
+        `[SYNC] stellar_push_rows is missing — re-run the schema SQL. Pushing ${table} one row per request`
+      );
+    } else {
+      debugError(`[SYNC] stellar_push_rows failed for ${table}:`, error);
+    }
+  } catch (rpcError) {
+    debugError(`[SYNC] stellar_push_rows threw for ${table}:`, rpcError);
+  }
+
+  let pushed = 0;
+  const pushedIds: number[] = [];
+  for (const item of items) {
+    const failure = failures?.get(item.entityId);
+    if (failures && !failure) {
+      if (item.id) pushedIds.push(item.id);
+      continue;
+    }
+    if (failure && !(item.operationType === 'create' && isDuplicateKeyError(failure))) {
+      handleSyncItemError(item, Object.assign(new Error(failure.message), { code: failure.code }));
+      continue;
+    }
+    try {
+      await processSyncItem(item);
+      if (item.id) {
+        await removeSyncItem(item.id);
+        pushed++;
+      }
+    } catch (itemError) {
+      handleSyncItemError(item, itemError);
+    }
   }
+  await bulkRemoveSyncItems(pushedIds);
+  return pushed + pushedIds.length;
 }
 
 async function pushPendingOps(): Promise<PushStats> {
@@ -1478,7 +1672,14 @@ async function pushPendingOps(): Promise<PushStats> {
 
   try {
     while (iterations < maxIterations) {
-      const pendingItems = (await getPendingSync()).filter((item) => snapshotIds.has(item.id));
+      // Operations on encrypted tables wait in the queue while the key is
+      // locked — they cannot be sent without encrypting their fields.
+      // Children waiting on a parent's create (and parents waiting on their
+      // children's deletes) are held back by getPushableSync and go out on a
+      // later pass of this loop, once the dependency has been pushed.
+      const pendingItems = (await getPushableSync()).filter(
+        (item) => snapshotIds.has(item.id) && !isEncryptionPending(item.table)
+      );
       if (pendingItems.length === 0) break;
 
       iterations++;
@@ -1535,15 +1736,17 @@ async function pushPendingOps(): Promise<PushStats> {
           // queued before the column defaulted locally (or by callers that
           // never set it) serialize with `undefined`/`null`, which violates
           // the Supabase NOT NULL constraint on `deleted`.
-          const payloads = items.map((item) => {
-            const rawPayload: Record<string, unknown> = {
-              id: item.entityId,
-              ...(item.value as Record<string, unknown>),
-              device_id: deviceId
-            };
-            ensureSystemFieldDefaults(rawPayload);
-            return filterPayloadToSchema(tableName, rawPayload);
-          });
+          const payloads = await Promise.all(
+            items.map((item) => {
+              const rawPayload: Record<string, unknown> = {
+                id: item.entityId,
+                ...(item.value as Record<string, unknown>),
+                device_id: deviceId
+              };
+              ensureSystemFieldDefaults(rawPayload);
+              return encryptPayload(tableName, filterPayloadToSchema(tableName, rawPayload));
+            })
+          );
 
           // Batch insert (up to 500 at a time to stay within Supabase limits)
           const BATCH_SIZE = 500;
@@ -1623,18 +1826,19 @@ async function pushPendingOps(): Promise<PushStats> {
                         );
                       } else {
                         // Retry still failed — likely another secondary constraint issue.
-                        // Remove all items from queue to prevent infinite retry loops.
+                        // Push row by row so only the offending rows fail, each with
+                        // its own error (and backoff, then dead-lettering).
                         debugError(
-                          `[SYNC] Batch create retry failed for ${tableName} — removing from queue to prevent retry storm:`,
+                          `[SYNC] Batch create retry failed for ${tableName} — pushing row by row:`,
                           retryError
                         );
-                        const allQueueIds = newBatchItems
-                          .filter((item) => item.id)
-                          .map((item) => item.id!);
-                        if (allQueueIds.length > 0) {
-                          await bulkRemoveSyncItems(allQueueIds);
-                          processedAny = true;
-                        }
+                        const pushed = await pushRowsIndividually(
+                          tableName,
+                          newBatch,
+                          newBatchItems
+                        );
+                        if (pushed > 0) processedAny = true;
+                        actualPushed += pushed;
                       }
                     } else {
                       debugLog(
@@ -1656,21 +1860,12 @@ async function pushPendingOps(): Promise<PushStats> {
                     }
                   }
                 } else {
-                  // Non-duplicate error — fall back to individual to identify the problem row(s).
+                  // Non-duplicate error — push row by row to identify the problem row(s).
                   // Common cause: RLS on child tables when parent hasn't synced yet.
                   debugError(`[SYNC] Batch upsert failed for ${tableName}:`, error);
-                  for (const item of batchItems) {
-                    try {
-                      await processSyncItem(item);
-                      if (item.id) {
-                        await removeSyncItem(item.id);
-                        processedAny = true;
-                        actualPushed++;
-                      }
-                    } catch (itemError) {
-                      handleSyncItemError(item, itemError);
-                    }
-                  }
+                  const pushed = await pushRowsIndividually(tableName, batch, batchItems);
+                  if (pushed > 0) processedAny = true;
+                  actualPushed += pushed;
                 }
               } else {
                 // Batch succeeded — bulk-remove all items from queue in one transaction
@@ -1683,20 +1878,11 @@ async function pushPendingOps(): Promise<PushStats> {
                 debugLog(`[SYNC] Batch upsert success: ${batch.length} rows into ${tableName}`);
               }
             } catch (batchError) {
-              // Network-level failure — fall back to individual
+              // Network-level failure — fall back to row by row
               debugError(`[SYNC] Batch insert threw for ${tableName}:`, batchError);
-              for (const item of batchItems) {
-                try {
-                  await processSyncItem(item);
-                  if (item.id) {
-                    await removeSyncItem(item.id);
-                    processedAny = true;
-                    actualPushed++;
-                  }
-                } catch (itemError) {
-                  handleSyncItemError(item, itemError);
-                }
-              }
+              const pushed = await pushRowsIndividually(tableName, batch, batchItems);
+              if (pushed > 0) processedAny = true;
+              actualPushed += pushed;
             }
           }
         }
@@ -1706,9 +1892,12 @@ async function pushPendingOps(): Promise<PushStats> {
       // For set/delete/increment on non-singleton tables, read the full local entity
       // from IndexedDB and upsert in batches. This turns N sequential HTTP requests
       // into ceil(N/500) batch calls. Singleton tables need special ID reconciliation
-      // and must be processed individually.
-      const batchableItems = nonCreateItems.filter((item) => !isSingletonTable(item.table));
-      const individualItems = nonCreateItems.filter((item) => isSingletonTable(item.table));
+      // and must be processed individually, as must array/toggle/patch intents,
+      // which are applied on the server to its current value.
+      const isIndividual = (item: SyncOperationItem) =>
+        isSingletonTable(item.table) || isFieldIntent(item.operationType);
+      const batchableItems = nonCreateItems.filter((item) => !isIndividual(item));
+      const individualItems = nonCreateItems.filter(isIndividual);
 
       if (batchableItems.length > 0) {
         // Bulk-read sync queue IDs for the still-queued check (same optimization as creates)
@@ -1743,6 +1932,24 @@ async function pushPendingOps(): Promise<PushStats> {
             if (entity) entityMap.set(entityIds[i], entity as Record<string, unknown>);
           });
 
+          // Fields with a queued array/toggle/patch intent are left out of the
+          // full-entity payload: the intent is applied on the server, and
+          // overwriting the field with the local value would drop concurrent
+          // changes from other devices (or flip a toggle twice).
+          const queuedForEntities = (await db
+            .table('syncQueue')
+            .where('entityId')
+            .anyOf(entityIds)
+            .toArray()) as SyncOperationItem[];
+          const intentFields = new Map<string, Set<string>>();
+          for (const queued of queuedForEntities) {
+            if (queued.table !== tableName || !queued.field) continue;
+            if (!isFieldIntent(queued.operationType)) continue;
+            const fields = intentFields.get(queued.entityId) || new Set<string>();
+            fields.add(queued.field);
+            intentFields.set(queued.entityId, fields);
+          }
+
           const payloads: Record<string, unknown>[] = [];
           const validItems: SyncOperationItem[] = [];
           for (const item of items) {
@@ -1772,7 +1979,10 @@ async function pushPendingOps(): Promise<PushStats> {
             const rawPayload: Record<string, unknown> = { ...localEntity, device_id: deviceId };
             ensureSystemFieldDefaults(rawPayload);
             delete rawPayload._version;
-            payloads.push(filterPayloadToSchema(tableName, rawPayload));
+            for (const field of intentFields.get(item.entityId) ?? []) delete rawPayload[field];
+            payloads.push(
+              await encryptPayload(tableName, filterPayloadToSchema(tableName, rawPayload))
+            );
             validItems.push(item);
           }
 
@@ -1790,20 +2000,11 @@ async function pushPendingOps(): Promise<PushStats> {
                 .upsert(batch, { onConflict: 'id', ignoreDuplicates: false });
 
               if (error) {
-                // Batch failed — fall back to individual processing
+                // Batch failed — push row by row to attribute the error
                 debugError(`[SYNC] Batch upsert failed for ${tableName}:`, error);
-                for (const item of batchItems) {
-                  try {
-                    await processSyncItem(item);
-                    if (item.id) {
-                      await removeSyncItem(item.id);
-                      processedAny = true;
-                      actualPushed++;
-                    }
-                  } catch (itemError) {
-                    handleSyncItemError(item, itemError);
-                  }
-                }
+                const pushed = await pushRowsIndividually(tableName, batch, batchItems);
+                if (pushed > 0) processedAny = true;
+                actualPushed += pushed;
               } else {
                 // Batch succeeded — bulk-remove all items from queue in one transaction
                 const idsToRemove = batchItems.filter((item) => item.id).map((item) => item.id!);
@@ -1816,18 +2017,9 @@ async function pushPendingOps(): Promise<PushStats> {
               }
             } catch (batchError) {
               debugError(`[SYNC] Batch upsert threw for ${tableName}:`, batchError);
-              for (const item of batchItems) {
-                try {
-                  await processSyncItem(item);
-                  if (item.id) {
-                    await removeSyncItem(item.id);
-                    processedAny = true;
-                    actualPushed++;
-                  }
-                } catch (itemError) {
-                  handleSyncItemError(item, itemError);
-                }
-              }
+              const pushed = await pushRowsIndividually(tableName, batch, batchItems);
+              if (pushed > 0) processedAny = true;
+              actualPushed += pushed;
             }
           }
         }
@@ -1905,6 +2097,20 @@ function isDuplicateKeyError(error: { code?: string; message?: string }): boolea
   return msg.includes('duplicate') || msg.includes('unique') || msg.includes('already exists');
 }
 
+/**
+ * Check if a Supabase/PostgreSQL error means an RPC function doesn't exist —
+ * e.g. `stellar_apply_intent` on a project whose schema SQL predates it.
+ *
+ * @param error - The error object from Supabase
+ * @returns `true` if the function is unknown to PostgREST or PostgreSQL
+ */
+function isMissingFunctionError(error: { code?: string; message?: string }): boolean {
+  // PostgREST: function not found in the schema cache
+  if (error.code === 'PGRST202') return true;
+  // PostgreSQL error code for undefined_function
+  return error.code === '42883';
+}
+
 /**
  * Check if a Supabase/PostgreSQL error indicates the target row doesn't exist.
  *
@@ -1993,8 +2199,10 @@ function isTransientError(error: unknown): boolean {
 /**
  * Process a single sync queue item by sending it to Supabase.
  *
- * Handles four operation types: `create`, `set`, `increment`, and `delete`.
- * Each operation maps to a specific Supabase query pattern.
+ * Handles every operation type: `create`, `set`, `increment`, `delete`, and the
+ * field intents `arrayAdd`, `arrayRemove`, `toggle` and `patch` (sent through the
+ * generated `stellar_apply_intent` RPC). Each operation maps to a specific
+ * Supabase query pattern.
  *
  * **CRITICAL**: All operations use `.select()` to verify they actually affected a row.
  * Without this, Supabase's Row Level Security (RLS) can **silently block** operations —
@@ -2020,13 +2228,16 @@ async function processSyncItem(item: SyncOperationItem): Promise<void> {
       // INSERT the full entity payload with the originating device_id.
       // Uses .select('id').maybeSingle() to verify the row was actually created
       // (RLS can silently block inserts, returning success with no data).
-      const payload = filterPayloadToSchema(
+      const payload = await encryptPayload(
         table,
-        ensureSystemFieldDefaults({
-          id: entityId,
-          ...(value as Record<string, unknown>),
-          device_id: deviceId
-        })
+        filterPayloadToSchema(
+          table,
+          ensureSystemFieldDefaults({
+            id: entityId,
+            ...(value as Record<string, unknown>),
+            device_id: deviceId
+          })
+        )
       );
       const { data, error } = await supabase.from(table).insert(payload).select('id').maybeSingle();
       // Duplicate key = another device already created this entity.
@@ -2044,7 +2255,9 @@ async function processSyncItem(item: SyncOperationItem): Promise<void> {
           if (existing) {
             // Replace local entry: delete old ID, add with server ID
             await db.table(dexieTable).delete(entityId);
-            await db.table(dexieTable).put(existing);
+            await db
+              .table(dexieTable)
+              .put(await decryptRow(table, existing as unknown as Record<string, unknown>));
             // Purge any queued operations referencing the old ID
             await db.table('syncQueue').where('entityId').equals(entityId).delete();
           }
@@ -2125,7 +2338,7 @@ async function processSyncItem(item: SyncOperationItem): Promise<void> {
 
       const { data, error } = await supabase
         .from(table)
-        .update(updatePayload)
+        .update(await encryptPayload(table, updatePayload))
         .eq('id', entityId)
         .select('id')
         .maybeSingle();
@@ -2139,7 +2352,10 @@ async function processSyncItem(item: SyncOperationItem): Promise<void> {
           const rawInsertPayload: Record<string, unknown> = { ...localInc, device_id: deviceId };
           delete rawInsertPayload._version;
           ensureSystemFieldDefaults(rawInsertPayload);
-          const insertPayload = filterPayloadToSchema(table, rawInsertPayload);
+          const insertPayload = await encryptPayload(
+            table,
+            filterPayloadToSchema(table, rawInsertPayload)
+          );
           const { error: insertError } = await supabase
             .from(table)
             .insert(insertPayload)
@@ -2177,7 +2393,7 @@ async function processSyncItem(item: SyncOperationItem): Promise<void> {
 
       const { data, error } = await supabase
         .from(table)
-        .update(updatePayload)
+        .update(await encryptPayload(table, updatePayload))
         .eq('id', entityId)
         .select('id')
         .maybeSingle();
@@ -2200,7 +2416,7 @@ async function processSyncItem(item: SyncOperationItem): Promise<void> {
               // Apply the update to the correct server row
               const { error: retryError } = await supabase
                 .from(table)
-                .update(updatePayload)
+                .update(await encryptPayload(table, updatePayload))
                 .eq('id', serverRow.id)
                 .select('id')
                 .maybeSingle();
@@ -2208,7 +2424,11 @@ async function processSyncItem(item: SyncOperationItem): Promise<void> {
               // Reconcile local: replace stale ID with server ID
               await db.table(dexieTable).delete(entityId);
               // Merge our pending changes into the server row
-              const merged = { ...serverRow, ...updatePayload, id: serverRow.id };
+              const merged = {
+                ...(await decryptRow(table, serverRow)),
+                ...updatePayload,
+                id: serverRow.id
+              };
               await db.table(dexieTable).put(merged);
               // Purge any remaining queued operations referencing the old ID
               await db.table('syncQueue').where('entityId').equals(entityId).delete();
@@ -2228,7 +2448,10 @@ async function processSyncItem(item: SyncOperationItem): Promise<void> {
           // Remove Dexie internal keys
           delete rawSetPayload._version;
           ensureSystemFieldDefaults(rawSetPayload);
-          const insertPayload = filterPayloadToSchema(table, rawSetPayload);
+          const insertPayload = await encryptPayload(
+            table,
+            filterPayloadToSchema(table, rawSetPayload)
+          );
           const { data: inserted, error: insertError } = await supabase
             .from(table)
             .insert(insertPayload)
@@ -2249,6 +2472,50 @@ async function processSyncItem(item: SyncOperationItem): Promise<void> {
       break;
     }
 
+    case 'arrayAdd':
+    case 'arrayRemove':
+    case 'toggle':
+    case 'patch': {
+      // FIELD INTENTS: Applied on the server to its current value by the generated
+      // `stellar_apply_intent` function, so a tag added here and one added on another
+      // device concurrently both survive. Encrypted fields are ciphertext on the
+      // server and cannot be merged there; they — and projects whose schema SQL
+      // predates the function — fall back to pushing the local value as a set.
+      if (!field) {
+        throw new Error(`${operationType} operation requires a field`);
+      }
+
+      const localEntity = await db.table(dexieTable).get(entityId);
+      if (!localEntity) {
+        // Entity was deleted locally, skip this intent
+        debugWarn(`[SYNC] Skipping ${operationType} for deleted entity: ${table}/${entityId}`);
+        return;
+      }
+
+      if (!findTableConfig(table)?.encryptedFields?.includes(field)) {
+        const { data, error } = await supabase.rpc('stellar_apply_intent', {
+          p_table: table,
+          p_id: entityId,
+          p_field: field,
+          p_op: operationType,
+          p_value: value ?? null,
+          p_device_id: deviceId
+        });
+        if (error && !isMissingFunctionError(error)) throw error;
+        if (!error && data) break;
+        if (error) {
+          debugWarn(
+            `[SYNC] stellar_apply_intent is missing — re-run the schema SQL. Pushing ${table}/${entityId}.${field} as a set`
+          );
+        }
+        // `false` = row not visible: the set path reconciles singleton IDs and
+        // self-heals a missing row.
+      }
+
+      await processSyncItem({ ...item, operationType: 'set', value: localEntity[field] });
+      break;
+    }
+
     default:
       throw new Error(`Unknown operation type: ${operationType}`);
   }
@@ -2309,6 +2576,25 @@ function extractErrorMessage(error: unknown): string {
   return String(error);
 }
 
+/**
+ * Extract the code of an error, for matching a table's retry policy
+ * `permanentErrors`.
+ *
+ * Supabase/PostgREST errors carry the SQLSTATE (`'23505'`) or PostgREST code
+ * (`'PGRST116'`) as `code`; fetch-level failures carry an HTTP `status`.
+ *
+ * @param error - Any error value
+ * @returns The code as a string, or `undefined` when the error has none
+ */
+function extractErrorCode(error: unknown): string | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const err = error as Record<string, unknown>;
+  for (const code of [err.code, err.status]) {
+    if ((typeof code === 'string' && code) || typeof code === 'number') return String(code);
+  }
+  return undefined;
+}
+
 /**
  * Convert a technical error into a user-friendly message for the UI.
  *
@@ -2472,6 +2758,9 @@ export async function runFullSync(
       }
     }
 
+    // Upload / remove attachment files once their entities are pushed
+    await processAttachmentQueue(userId);
+
     // EGRESS OPTIMIZATION: Skip pull when realtime is healthy and this is a push-triggered sync
     let pullEgress = { bytes: 0, records: 0 };
 
@@ -2781,7 +3070,7 @@ async function fullReconciliation(): Promise<number> {
  *
  * **Flow for empty local DB**:
  * 1. Acquire sync lock
- * 2. Pull ALL non-deleted records from every configured table
+ * 2. Pull ALL non-deleted records from every eager table (within its `syncFilter`)
  * 3. Store in local DB via bulk put (single transaction)
  * 4. Set sync cursor to the max `updated_at` seen (not "now") to avoid missing
  *    changes that happened during the hydration query
@@ -2824,15 +3113,17 @@ async function hydrateFromRemote(): Promise<void> {
   }
 
   debugLog('[SYNC] Hydration starting...');
+  initTableLoadStates(userId);
 
   // Mark that we've attempted hydration (even if local has data)
   _hasHydrated = true;
   _hydrationAttempted = true;
   clearDbResetFlag();
 
-  // Check if local DB has any data
+  // Check if local DB has any data (lazy tables may hold rows fetched on demand)
   let hasLocalData = false;
   for (const table of config.tables) {
+    if (getHydrationMode(table.supabaseName) !== 'eager') continue;
     const count = await db.table(getDexieTableFor(table)).count();
     if (count > 0) {
       hasLocalData = true;
@@ -2871,17 +3162,24 @@ async function hydrateFromRemote(): Promise<void> {
       let offset = 0;
       let hasMore = true;
 
+      // Lazy tables load on first read (see loadTable); `none` tables never
+      if (getHydrationMode(table.supabaseName) !== 'eager') return { data: allData, error: null };
+
       while (hasMore) {
-        const { data, error } = await supabase
-          .from(table.supabaseName)
-          .select(table.columns)
-          .or('deleted.is.null,deleted.eq.false')
-          .range(offset, offset + PAGE_SIZE - 1);
+        const { data, error } = await applySyncFilter(
+          table.supabaseName,
+          supabase
+            .from(table.supabaseName)
+            .select(table.columns)
+            .or('deleted.is.null,deleted.eq.false')
+        ).range(offset, offset + PAGE_SIZE - 1);
 
         if (error) return { data: allData, error };
         if (!data) break;
 
-        allData.push(...(data as unknown as Record<string, unknown>[]));
+        allData.push(
+          ...(await decryptRows(table.supabaseName, data as unknown as Record<string, unknown>[]))
+        );
         hasMore = data.length === PAGE_SIZE;
         offset += PAGE_SIZE;
       }
@@ -2932,6 +3230,15 @@ async function hydrateFromRemote(): Promise<void> {
           }
         }
       });
+
+      // Index hydrated rows for local full-text search (searchable tables only)
+      for (let i = 0; i < config.tables.length; i++) {
+        const data = (results[i].data || []) as unknown as Record<string, unknown>[];
+        await updateSearchIndex(
+          config.tables[i].supabaseName,
+          data.map((row) => row.id as string)
+        );
+      }
     }
 
     // Set sync cursor to MAX of pulled data timestamps (prevents missing concurrent changes)
@@ -2957,6 +3264,125 @@ async function hydrateFromRemote(): Promise<void> {
   }
 }
 
+// =============================================================================
+// LAZY TABLE LOADING
+// =============================================================================
+
+/** In-flight {@link loadTable} calls, keyed by Supabase table name. */
+const tableLoads = new Map<string, Promise<void>>();
+
+/**
+ * Hydrate a `hydration: 'lazy'` table, if it has not been loaded yet.
+ *
+ * Called by the read paths in `data.ts` and the query builder before they
+ * touch a table, so the first screen that reads a lazy table waits for its
+ * rows; call it directly to preload a table before navigating to it. A no-op
+ * for eager and `'none'` tables, for tables already loaded, in demo mode,
+ * while offline and inside a Dexie transaction (reads then see whatever is
+ * cached). Concurrent calls share one fetch.
+ *
+ * Fetches every non-deleted row (within the table's `syncFilter`), keeps
+ * local rows that are newer or have pending changes, and records the table's
+ * own pull cursor — from then on every sync pulls the table incrementally.
+ * Progress is published through `tableHydrationStore`. Failures are logged
+ * and leave the table `unloaded`, so the next read retries.
+ *
+ * @param table - The Supabase table name (or schema key).
+ *
+ * @example
+ * ```ts
+ * // Preload the archive while the user hovers the link
+ * loadTable('archived_projects');
+ * ```
+ */
+export async function loadTable(table: string): Promise<void> {
+  const tableConfig = findTableConfig(table);
+  if (!tableConfig || getHydrationMode(table) !== 'lazy') return;
+  if (isDemoMode() || typeof navigator === 'undefined' || !navigator.onLine) return;
+  /* Awaiting the network would commit the caller's transaction early. */
+  if (Dexie.currentTransaction) return;
+
+  const name = tableConfig.supabaseName;
+  let load = tableLoads.get(name);
+  if (!load) {
+    /* Start from a fresh task so the fetch runs outside the caller's Dexie
+       zone — reads may come from a liveQuery, where writes are refused. */
+    load = new Promise<void>((resolve) => {
+      setTimeout(() => fetchLazyTable(tableConfig).then(resolve), 0);
+    }).finally(() => tableLoads.delete(name));
+    tableLoads.set(name, load);
+  }
+  return load;
+}
+
+/**
+ * The fetch behind {@link loadTable}. Never throws.
+ *
+ * @param tableConfig - The lazy table to load.
+ */
+async function fetchLazyTable(tableConfig: TableConfig): Promise<void> {
+  const name = tableConfig.supabaseName;
+  const userId = await getCurrentUserId();
+  if (!userId) return;
+  if (getTableCursor(userId, name) !== null) {
+    setTableLoadState(name, 'loaded');
+    return;
+  }
+
+  setTableLoadState(name, 'loading');
+  try {
+    const supabase = getSupabase();
+    const PAGE_SIZE = 1000;
+    const rows: Record<string, unknown>[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = (await withTimeout(
+        Promise.resolve(
+          applySyncFilter(
+            name,
+            supabase.from(name).select(tableConfig.columns).or('deleted.is.null,deleted.eq.false')
+          ).range(offset, offset + PAGE_SIZE - 1)
+        ),
+        30_000,
+        `Load ${name} page at offset ${offset}`
+      )) as { data: Record<string, unknown>[] | null; error: unknown };
+      if (error) throw error;
+      rows.push(...(await decryptRows(name, data ?? [])));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    trackEgress(name, rows);
+
+    let cursor = '1970-01-01T00:00:00.000Z';
+    for (const row of rows) {
+      if ((row.updated_at as string) > cursor) cursor = row.updated_at as string;
+    }
+
+    // Keep local rows that realtime or local writes already moved ahead
+    const dexieTable = getDb().table(getDexieTableFor(tableConfig));
+    const pending = await getPendingEntityIds();
+    const local = (await dexieTable.bulkGet(rows.map((row) => row.id as string))) as (
+      | Record<string, unknown>
+      | undefined
+    )[];
+    const fresh = rows.filter((row, i) => {
+      const existing = local[i];
+      if (pending.has(row.id as string)) return false;
+      return !existing || (row.updated_at as string) > (existing.updated_at as string);
+    });
+    await dexieTable.bulkPut(fresh);
+    await updateSearchIndex(
+      name,
+      fresh.map((row) => row.id as string)
+    );
+
+    setTableCursor(userId, name, cursor);
+    setTableLoadState(name, 'loaded');
+    debugLog(`[SYNC] Loaded lazy table ${name}: ${rows.length} rows`);
+  } catch (error) {
+    debugError(`[SYNC] Failed to load lazy table ${name}:`, error);
+    setTableLoadState(name, 'unloaded');
+  }
+}
+
 // =============================================================================
 // TOMBSTONE CLEANUP
 // =============================================================================
@@ -3021,6 +3447,9 @@ async function cleanupLocalTombstones(): Promise<number> {
       });
     }
 
+    /* Cascade records only matter while their tombstones can still be restored. */
+    await db.table(TABLE.CASCADE_DELETES).where('deletedAt').below(cutoffStr).delete();
+
     if (totalDeleted > 0) {
       debugLog(`[Tombstone] Local cleanup complete: ${totalDeleted} total records removed`);
     }
@@ -3712,18 +4141,21 @@ export async function startSyncEngine(): Promise<void> {
       }
     }
 
-    // Cleanup old tombstones, conflict history, failed sync items, and recently modified cache
+    // Cleanup old tombstones, conflict history, entity versions, rows outside sync filters, failed sync items, and recently modified cache
     await cleanupOldTombstones();
     await cleanupConflictHistory();
+    await cleanupEntityVersions();
+    await evictOutsideSyncFilter();
     cleanupRecentlyModified();
     cleanupRealtimeTracking();
     const failedResult = await cleanupFailedItems();
 
-    // Notify user if items permanently failed
+    // Notify user if items permanently failed (they wait in the dead-letter queue)
     if (failedResult.count > 0) {
+      await refreshDeadLetters();
       syncStatusStore.setStatus('error');
       syncStatusStore.setError(
-        `${failedResult.count} change(s) could not be synced and were discarded.`,
+        `${failedResult.count} change(s) could not be synced and were set aside.`,
         `Affected: ${failedResult.tables.join(', ')}`
       );
       syncStatusStore.setSyncMessage(`${failedResult.count} change(s) failed to sync`);
@@ -3767,12 +4199,15 @@ export async function startSyncEngine(): Promise<void> {
   // Run initial cleanup
   cleanupOldTombstones();
   cleanupConflictHistory();
+  cleanupEntityVersions();
+  evictOutsideSyncFilter();
   cleanupRealtimeTracking();
   cleanupFailedItems().then((failedResult) => {
+    void refreshDeadLetters();
     if (failedResult.count > 0) {
       syncStatusStore.setStatus('error');
       syncStatusStore.setError(
-        `${failedResult.count} change(s) could not be synced and were discarded.`,
+        `${failedResult.count} change(s) could not be synced and were set aside.`,
         `Affected: ${failedResult.tables.join(', ')}`
       );
     }
@@ -3904,8 +4339,8 @@ export async function stopSyncEngine(): Promise<void> {
 /**
  * Clear all local data from IndexedDB (used during logout).
  *
- * Wipes all entity tables, the sync queue, and conflict history in a single
- * transaction. Also removes the user's sync cursor from localStorage and
+ * Wipes all entity tables, the sync queue, conflict history, the search index,
+ * cascade-delete records and entity versions in a single transaction. Also removes the user's sync cursor from localStorage and
  * resets the hydration flag so the next login triggers a fresh hydration.
  *
  * **IMPORTANT**: Call this BEFORE calling `stopSyncEngine()` to ensure the
@@ -3919,7 +4354,15 @@ export async function clearLocalCache(): Promise<void> {
   const userId = await getCurrentUserId();
 
   const entityTables = config.tables.map((t) => db.table(getDexieTableFor(t)));
-  const metaTables = [db.table('syncQueue'), db.table(TABLE.CONFLICT_HISTORY)];
+  const metaTables = [
+    db.table('syncQueue'),
+    db.table(TABLE.CONFLICT_HISTORY),
+    db.table(TABLE.SEARCH_INDEX),
+    db.table(TABLE.CASCADE_DELETES),
+    db.table(TABLE.ENTITY_VERSIONS),
+    db.table(TABLE.ATTACHMENTS),
+    db.table(TABLE.DEAD_LETTERS)
+  ];
 
   await db.transaction('rw', [...entityTables, ...metaTables], async () => {
     for (const t of entityTables) {
@@ -3927,7 +4370,13 @@ export async function clearLocalCache(): Promise<void> {
     }
     await db.table('syncQueue').clear();
     await db.table(TABLE.CONFLICT_HISTORY).clear();
+    await db.table(TABLE.SEARCH_INDEX).clear();
+    await db.table(TABLE.CASCADE_DELETES).clear();
+    await db.table(TABLE.ENTITY_VERSIONS).clear();
+    await db.table(TABLE.ATTACHMENTS).clear();
+    await db.table(TABLE.DEAD_LETTERS).clear();
   });
+  await refreshDeadLetters();
 
   // Reset sync cursor (user-specific) and hydration flag
   if (typeof localStorage !== 'undefined') {
@@ -3936,8 +4385,11 @@ export async function clearLocalCache(): Promise<void> {
       localStorage.removeItem(`lastSyncCursor_${userId}`);
     }
   }
+  clearTableCursors(userId);
   _hasHydrated = false;
   _hydrationAttempted = false;
+  clearUndoHistory();
+  lockEncryption();
 }
 
 /**
@@ -82,6 +82,21 @@ export {
   resetSingleUserRemote
 } from '../auth/singleUser';
 
+// =============================================================================
+//  Field Encryption
+// =============================================================================
+// End-to-end encryption of schema fields marked `encrypted`:
+// - `unlockEncryption` / `lockEncryption` — hold or forget the data key.
+// - `changeEncryptionSecret` — re-wrap the key under a new passphrase.
+// - `isEncryptionUnlocked` — whether encrypted tables can sync.
+
+export {
+  unlockEncryption,
+  lockEncryption,
+  changeEncryptionSecret,
+  isEncryptionUnlocked
+} from '../encryption';
+
 // =============================================================================
 //  Login Guard
 // =============================================================================
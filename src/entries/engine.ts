@@ -2,9 +2,12 @@
  * @fileoverview Engine lifecycle subpath barrel — `stellar-drive/engine`
  *
  * Re-exports engine lifecycle functions: starting/stopping the sync engine,
- * triggering manual sync cycles, and repairing the sync queue.
+ * triggering manual sync cycles, repairing the sync queue, and reviewing
+ * operations set aside in the dead-letter queue.
  */
 
 export { startSyncEngine, runFullSync, repairSyncQueue } from '../engine';
 export { onSyncComplete } from '../engine';
 export { clearPendingSyncQueue } from '../engine';
+export { listDeadLetters, retryDeadLetter, discardDeadLetter } from '../deadLetters';
+export type { DeadLetter } from '../deadLetters';
@@ -49,6 +49,16 @@ export { isOnline } from '../stores/network';
 
 export { authState, isAuthenticated, userDisplayInfo } from '../stores/authState';
 
+// =============================================================================
+//  Undo History Store
+// =============================================================================
+// Reflects whether `engineUndo` / `engineRedo` have anything to replay, with
+// the labels given to `undoGroup`. Only populated when `initEngine` is called
+// with the `undo` option.
+
+export { undoStore } from '../undo';
+export type { UndoState } from '../undo';
+
 // =============================================================================
 //  Lifecycle Event Subscriptions
 // =============================================================================
@@ -70,7 +80,10 @@ export { onRealtimeDataUpdate } from '../realtime';
 export {
   createCollectionStore,
   createDetailStore,
-  createCrudCollectionStore
+  createCrudCollectionStore,
+  createLiveQueryStore,
+  createInfiniteCollectionStore,
+  createAggregateStore
 } from '../stores/factories';
 export type {
   CollectionStore,
@@ -78,7 +91,11 @@ export type {
   DetailStore,
   DetailStoreConfig,
   CrudCollectionStore,
-  CrudCollectionStoreConfig
+  CrudCollectionStoreConfig,
+  LiveQueryStore,
+  LiveQueryStoreConfig,
+  InfiniteCollectionStore,
+  InfiniteCollectionStoreConfig
 } from '../stores/factories';
 
 // =============================================================================
@@ -91,3 +108,21 @@ export type {
 
 export { hasHydrated, hydrationAttempted } from '../engine';
 export { wasDbReset } from '../database';
+
+// =============================================================================
+//  Lazy Table State
+// =============================================================================
+// Load state of tables with schema `hydration: 'lazy'` or `'none'`:
+// - `tableHydrationStore` — `'unloaded' | 'loading' | 'loaded'` per schema key.
+// - `loadTable` — starts (or joins) the first load of a lazy table.
+
+export { tableHydrationStore } from '../tableHydration';
+export type { TableHydrationMode, TableLoadState } from '../tableHydration';
+export { loadTable } from '../engine';
+
+// =============================================================================
+//  Dead-Letter Queue
+// =============================================================================
+// - `deadLetterStore` — sync operations set aside after exhausting their retries.
+
+export { deadLetterStore } from '../deadLetters';
@@ -30,8 +30,34 @@ export type { DatabaseConfig, DatabaseVersionConfig, SchemaVersionResult } from
 // =============================================================================
 // - `BatchOperation` — describes a single create/update/delete operation within
 //   an `engineBatchWrite` call.
+// - `EngineTransaction` — the read/write handle passed to `engineTransaction`.
+// - `ImportOptions` / `ImportResult` — options and outcome of `engineImport`.
+// - `JsonPatchEntry` — one queued change of an `enginePatch` operation.
+// - `EntityVersion` / `VersionSource` — recorded prior states from `engineGetHistory`.
+// - `Attachment` / `AttachmentStatus` / `AttachOptions` — files linked by `engineAttach`.
+// - `UserDataArchive` / `ArchivedTable` / `ArchiveColumnType` — archives from `exportUserData`.
+// - `ExportUserDataOptions` / `ImportUserDataOptions` / `UserDataImportResult` /
+//   `TableImportResult` — options and outcome of `exportUserData` / `importUserData`.
 
-export type { BatchOperation } from '../data';
+export type {
+  BatchOperation,
+  EngineTransaction,
+  ImportOptions,
+  ImportResult,
+  JsonPatchEntry,
+  EntityVersion,
+  VersionSource,
+  Attachment,
+  AttachmentStatus,
+  AttachOptions,
+  UserDataArchive,
+  ArchivedTable,
+  ArchiveColumnType,
+  ExportUserDataOptions,
+  ImportUserDataOptions,
+  UserDataImportResult,
+  TableImportResult
+} from '../data';
 
 // =============================================================================
 //  Auth State Types
@@ -53,7 +79,9 @@ export type { AppConfig } from '../runtime/runtimeConfig';
 // =============================================================================
 // Fundamental types used throughout the engine:
 // - `SyncOperationItem` — a queued sync operation (create/update/delete + payload).
-// - `OperationType` — union: `'create' | 'update' | 'delete'`.
+// - `SyncAttempt` — one failed push attempt recorded on a queued operation.
+// - `DeadLetter` — a sync operation set aside after exhausting its retries.
+// - `OperationType` — union of queue intents (`'create' | 'set' | 'increment' | ...`).
 // - `OfflineCredentials` / `OfflineSession` — cached auth data for offline login.
 // - `ConflictHistoryEntry` — record of a resolved sync conflict.
 // - `SyncStatus` — union of sync lifecycle states (`'idle' | 'syncing' | 'error'`).
@@ -63,6 +91,7 @@ export type { AppConfig } from '../runtime/runtimeConfig';
 
 export type {
   SyncOperationItem,
+  SyncAttempt,
   OperationType,
   OfflineCredentials,
   OfflineSession,
@@ -74,9 +103,12 @@ export type {
   TrustedDevice,
   SchemaDefinition,
   SchemaTableConfig,
+  SyncFilterCondition,
+  RetryPolicy,
   AuthConfig,
   FieldType
 } from '../types';
+export type { DeadLetter } from '../deadLetters';
 
 // =============================================================================
 //  Store-Related Types
@@ -111,5 +143,7 @@ export type { Session } from '@supabase/supabase-js';
 export type {
   SQLGenerationOptions,
   TypeScriptGenerationOptions,
-  StorageBucketConfig
+  RepositoryGenerationOptions,
+  StorageBucketConfig,
+  SchemaRelation
 } from '../schema';
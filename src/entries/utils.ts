@@ -14,6 +14,9 @@
 // - `now` — returns the current ISO 8601 timestamp string.
 // - `calculateNewOrder` — computes a fractional order value for reorderable
 //   lists (inserts between two adjacent items without reindexing).
+// - `orderKeyBetween` / `spreadOrderKeys` — string fractional order keys, which
+//   never run out of precision (for `'orderKey'` fields).
+// - `compareOrder` — sorts by `order`, breaking ties by `id` on every device.
 // - `snakeToCamel` — converts a `snake_case` string to `camelCase`.
 // - `formatBytes` — formats a byte count into a human-readable string.
 
@@ -21,6 +24,9 @@ export {
   generateId,
   now,
   calculateNewOrder,
+  orderKeyBetween,
+  spreadOrderKeys,
+  compareOrder,
   snakeToCamel,
   formatBytes,
   createAsyncGuard,
@@ -61,4 +67,12 @@ export {
 // Generate complete Supabase SQL from a declarative schema definition:
 // - `generateSupabaseSQL` — produces CREATE TABLE, RLS, triggers, indexes.
 // - `inferColumnType` — maps field names to SQL types via naming conventions.
-export { generateSupabaseSQL, inferColumnType, generateTypeScript } from '../schema';
+// - `getSchemaRelations` — derives parent/children relations from `ownership`.
+// - `generateRepository` — emits a typed per-table data-access module.
+export {
+  generateSupabaseSQL,
+  inferColumnType,
+  generateTypeScript,
+  generateRepository,
+  getSchemaRelations
+} from '../schema';
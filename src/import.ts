@@ -0,0 +1,327 @@
+/**
+ * @fileoverview Bulk Import for Large Datasets
+ *
+ * Imports thousands of rows (CSV files, bank feeds, ...) into a table without
+ * the cost and failure modes of one giant `engineBatchWrite`:
+ *
+ * 1. **Plan** — the local table is read once and indexed in memory by the
+ *    `matchOn` columns, the primary key and every declared unique constraint.
+ *    Each input row is classified as new, changed, unchanged or conflicting;
+ *    rows repeated within the input are merged (later rows win). Every payload
+ *    is validated against the schema before anything is written.
+ * 2. **Write** — rows are written in chunks, one Dexie transaction per chunk,
+ *    with progress published through `syncStatusStore.progress` (unless a
+ *    push is already reporting progress there).
+ * 3. **Queue** — one queue item per written row: a `create` per new row and a
+ *    `set` holding only the changed fields per updated row. Unchanged and
+ *    skipped rows queue nothing. The push sends the items of a table as
+ *    multi-row upserts of up to 500 rows, so the request count stays low, but
+ *    the queue itself grows with the number of rows written.
+ *
+ * Imports are not recorded in the undo history — a single Ctrl+Z reverting
+ * thousands of rows is rarely what the user means.
+ *
+ * @see {@link ./constraints} for unique-constraint keys
+ * @see {@link ./data} for the public re-export
+ */
+
+import { get } from 'svelte/store';
+import { findTableConfig, getDexieTableFor, resolveSupabaseName } from './config';
+import { UniqueConstraintError, getUniqueKeys } from './constraints';
+import { getDb, TABLE } from './database';
+import { markEntityModified, scheduleSyncPush } from './engine';
+import { enterBatchMode, exitBatchMode, queueCreateOperation, queueSyncOperation } from './queue';
+import { updateSearchIndex } from './search';
+import { syncStatusStore } from './stores/sync';
+import { generateId, now } from './utils';
+import { validateWrite } from './validation';
+import { recordVersion } from './versions';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Options for {@link engineImport}.
+ */
+export interface ImportOptions {
+  /**
+   * Column(s) identifying the existing row an input row corresponds to, e.g.
+   * an external transaction ID. Rows are also matched by `id` (when given)
+   * and by the table's declared `uniqueConstraints`.
+   */
+  matchOn?: string | string[];
+  /**
+   * What to do with an input row that matches an existing row:
+   * - `'update'` — write the fields that differ (reviving tombstones).
+   * - `'skip'` — leave the existing row untouched.
+   * - `'error'` — abort the import, before anything is written, with a
+   *   `UniqueConstraintError`.
+   * @default 'update'
+   */
+  onConflict?: 'update' | 'skip' | 'error';
+  /** Rows written per transaction. @default 500 */
+  chunkSize?: number;
+}
+
+/**
+ * Outcome of an {@link engineImport}.
+ */
+export interface ImportResult {
+  /** Input rows inserted as new entities. */
+  created: number;
+  /** Existing entities that received changed fields. */
+  updated: number;
+  /** Input rows that matched an existing entity without any difference. */
+  unchanged: number;
+  /** Input rows that matched an existing entity and were skipped (`onConflict: 'skip'`). */
+  skipped: number;
+  /** Input rows merged into an earlier input row with the same key. */
+  merged: number;
+}
+
+/** One planned write. */
+type PlannedWrite =
+  | { type: 'create'; id: string; payload: Record<string, unknown> }
+  | {
+      type: 'update';
+      id: string;
+      fields: Record<string, unknown>;
+      previous: Record<string, unknown>;
+    };
+
+// =============================================================================
+// PLANNING
+// =============================================================================
+
+/** A key a row can be matched by, with the columns it is made of. */
+interface MatchKey {
+  key: string;
+  columns: string[];
+}
+
+/** Keys a row can be matched by: unique constraints, `id`, and `matchOn` values. */
+function matchKeysOf(table: string, matchOn: string[], row: Record<string, unknown>): MatchKey[] {
+  const keys: MatchKey[] = getUniqueKeys(table, row);
+  if (row.id !== undefined && row.id !== null) keys.push({ key: `id:${row.id}`, columns: ['id'] });
+  if (matchOn.length > 0) {
+    const values = matchOn.map((column) => row[column] ?? null);
+    if (!values.includes(null)) {
+      keys.push({ key: `match:${JSON.stringify(values)}`, columns: matchOn });
+    }
+  }
+  return keys;
+}
+
+/** Find the first entry of `index` under any of `keys`. */
+function lookup<T>(
+  index: Map<string, T>,
+  keys: MatchKey[]
+): { value: T; columns: string[] } | null {
+  for (const { key, columns } of keys) {
+    const value = index.get(key);
+    if (value) return { value, columns };
+  }
+  return null;
+}
+
+/** The fields of `row` whose values differ from `existing` (`id` excluded). */
+function changedFields(
+  row: Record<string, unknown>,
+  existing: Record<string, unknown>
+): Record<string, unknown> {
+  const changed: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(row)) {
+    if (field === 'id' || value === undefined) continue;
+    if (JSON.stringify(value) !== JSON.stringify(existing[field] ?? null)) changed[field] = value;
+  }
+  return changed;
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/**
+ * Import many rows into a table, deduplicating against local data.
+ *
+ * Input rows are matched to existing local rows by `matchOn`, by `id` and by
+ * the table's declared unique constraints; duplicates inside `rows` are
+ * merged first. New rows are created, matched rows are handled per
+ * `onConflict`. Every payload is validated before the first write, so an
+ * invalid row (or an `onConflict: 'error'` match) aborts the import with
+ * nothing written.
+ *
+ * Writes are committed in chunks. If a chunk fails, earlier chunks stay
+ * committed and queued — rerunning the same import is safe, because those
+ * rows now match and are reported as unchanged.
+ *
+ * While it runs, `syncStatusStore`'s `progress` reports `completed` / `total`
+ * rows with `currentTable` set to the table — unless a push already reports
+ * its own progress, which is left alone. Each written row adds one item to
+ * the sync queue. A single sync push is scheduled at the end.
+ *
+ * @param table - The Supabase table name (or schema key).
+ * @param rows  - The rows to import.
+ * @param opts  - Matching, conflict and chunking options.
+ * @returns Counts of created, updated, unchanged, skipped and merged rows.
+ *
+ * @throws {ValidationError} If any row does not match the schema `fields`.
+ * @throws {UniqueConstraintError} With `onConflict: 'error'`, if any row
+ *                                 matches an existing entity.
+ *
+ * @example
+ * ```ts
+ * import { engineImport } from 'stellar-drive/data';
+ *
+ * const result = await engineImport('transactions', parsedCsvRows, {
+ *   matchOn: 'external_id',
+ *   onConflict: 'update'
+ * });
+ * toast(`${result.created} new, ${result.updated} updated`);
+ * ```
+ */
+export async function engineImport(
+  table: string,
+  rows: Record<string, unknown>[],
+  opts: ImportOptions = {}
+): Promise<ImportResult> {
+  const matchOn = opts.matchOn === undefined ? [] : ([] as string[]).concat(opts.matchOn);
+  const onConflict = opts.onConflict ?? 'update';
+  const chunkSize = Math.max(1, opts.chunkSize ?? 500);
+  const result: ImportResult = {
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    skipped: 0,
+    merged: 0
+  };
+
+  const db = getDb();
+  const tableConfig = findTableConfig(table);
+  const dexieTable = db.table(tableConfig ? getDexieTableFor(tableConfig) : table);
+  const supaTable = resolveSupabaseName(table);
+  const timestamp = now();
+
+  /* ---- Merge duplicates within the input ---- */
+
+  const merged: Record<string, unknown>[] = [];
+  const inputByKey = new Map<string, Record<string, unknown>>();
+  for (const row of rows) {
+    const keys = matchKeysOf(table, matchOn, row);
+    const earlier = lookup(inputByKey, keys);
+    if (earlier) {
+      Object.assign(earlier.value, row);
+      result.merged++;
+    } else {
+      const copy = { ...row };
+      merged.push(copy);
+      for (const { key } of keys) inputByKey.set(key, copy);
+    }
+  }
+
+  /* ---- Index local rows by every key an input row could match ---- */
+
+  const existingByKey = new Map<string, Record<string, unknown>>();
+  await dexieTable.each((row: Record<string, unknown>) => {
+    for (const { key } of matchKeysOf(table, matchOn, row)) existingByKey.set(key, row);
+  });
+
+  /* ---- Plan and validate every write up front ---- */
+
+  const writes: PlannedWrite[] = [];
+  for (const row of merged) {
+    const match = lookup(existingByKey, matchKeysOf(table, matchOn, row));
+
+    if (!match) {
+      const id = (row.id as string) || generateId();
+      const payload = {
+        created_at: timestamp,
+        updated_at: timestamp,
+        deleted: false,
+        ...row,
+        id
+      };
+      validateWrite(table, payload, 'create');
+      writes.push({ type: 'create', id, payload });
+      continue;
+    }
+
+    const existing = match.value;
+    if (onConflict === 'error') {
+      throw new UniqueConstraintError(table, match.columns, existing.id as string);
+    }
+    if (onConflict === 'skip') {
+      result.skipped++;
+      continue;
+    }
+
+    const fields = changedFields(existing.deleted ? { ...row, deleted: false } : row, existing);
+    if (Object.keys(fields).length === 0) {
+      result.unchanged++;
+      continue;
+    }
+    validateWrite(table, { ...fields, updated_at: timestamp }, 'update');
+    writes.push({ type: 'update', id: existing.id as string, fields, previous: existing });
+  }
+
+  if (writes.length === 0) return result;
+
+  /* ---- Write in chunks ---- */
+
+  /* Report progress only when nothing else does — a push in flight owns the
+     progress bar, and must not have it reset or cleared by the import. */
+  const ownsProgress = get(syncStatusStore).progress === null;
+  if (ownsProgress) {
+    syncStatusStore.startProgress(writes.length);
+    syncStatusStore.advanceProgress(0, 0, supaTable);
+  }
+  enterBatchMode();
+  try {
+    for (let start = 0; start < writes.length; start += chunkSize) {
+      const chunk = writes.slice(start, start + chunkSize);
+      const scope = [dexieTable, db.table('syncQueue'), db.table(TABLE.ENTITY_VERSIONS)];
+      await db.transaction('rw', scope, async () => {
+        const creates = chunk.filter((w) => w.type === 'create');
+        if (creates.length > 0) await dexieTable.bulkAdd(creates.map((w) => w.payload));
+        for (const write of chunk) {
+          if (write.type === 'create') {
+            const { id: _id, ...queuePayload } = write.payload;
+            await queueCreateOperation(supaTable, write.id, queuePayload);
+          } else {
+            const updateFields = { ...write.fields, updated_at: timestamp };
+            await recordVersion(table, write.previous, 'local');
+            await dexieTable.update(write.id, updateFields);
+            await queueSyncOperation({
+              table: supaTable,
+              entityId: write.id,
+              operationType: 'set',
+              value: updateFields
+            });
+          }
+        }
+      });
+
+      for (const write of chunk) {
+        markEntityModified(write.id);
+        if (write.type === 'create') result.created++;
+        else result.updated++;
+      }
+      await updateSearchIndex(
+        table,
+        chunk.map((w) => w.id)
+      );
+      if (ownsProgress) syncStatusStore.advanceProgress(chunk.length);
+    }
+  } finally {
+    await exitBatchMode();
+    /* A push that started meanwhile replaced the import's progress (its
+       `currentTable` is not this table) — leave it for the push to clear. */
+    if (ownsProgress && get(syncStatusStore).progress?.currentTable === supaTable) {
+      syncStatusStore.clearProgress();
+    }
+    if (result.created + result.updated > 0) scheduleSyncPush();
+  }
+
+  return result;
+}
@@ -64,6 +64,35 @@ export type { SchemaVersionResult } from './database';
 export { startSyncEngine, runFullSync, repairSyncQueue } from './engine';
 export { onSyncComplete } from './engine';
 
+// =============================================================================
+//  Lazy Table Loading
+// =============================================================================
+// Tables with schema `hydration: 'lazy'` are fetched on first read instead of
+// on start; `hydration: 'none'` tables are never hydrated.
+// - `loadTable` — loads a lazy table now (e.g. to preload a screen).
+// - `tableHydrationStore` — per-table `'unloaded' | 'loading' | 'loaded'` state.
+
+export { loadTable } from './engine';
+export { tableHydrationStore } from './tableHydration';
+export type { TableHydrationMode, TableLoadState } from './tableHydration';
+
+// =============================================================================
+//  Dead-Letter Queue
+// =============================================================================
+// Sync operations that exhaust their retries are set aside, not discarded:
+// - `deadLetterStore` — the set-aside operations, for a "could not be saved" panel.
+// - `listDeadLetters` — reads them, optionally for one table.
+// - `retryDeadLetter` — re-queues one, optionally with an edited value.
+// - `discardDeadLetter` — drops one for good.
+
+export {
+  deadLetterStore,
+  listDeadLetters,
+  retryDeadLetter,
+  discardDeadLetter
+} from './deadLetters';
+export type { DeadLetter } from './deadLetters';
+
 // =============================================================================
 //  Generic CRUD Operations
 // =============================================================================
@@ -72,17 +101,45 @@ export { onSyncComplete } from './engine';
 // - `engineCreate` — inserts a new entity.
 // - `engineUpdate` — patches an existing entity.
 // - `engineDelete` — marks an entity as deleted (soft-delete for sync).
+// - `engineRestore` — un-deletes a tombstone and its cascaded children.
 // - `engineBatchWrite` — applies multiple operations atomically.
+// - `engineTransaction` — runs an atomic read-modify-write callback.
 // - `engineIncrement` — atomically increments a numeric field.
+// - `engineArrayAdd` / `engineArrayRemove` — add or remove JSON array items.
+// - `engineToggle` — flips a boolean field.
+// - `enginePatch` — sets or removes one key inside a JSON field.
+//   These four queue the intent, so concurrent edits on other devices merge.
+// - `engineUpsert` — inserts or updates by a declared unique constraint.
+// - `engineImport` — imports large datasets in chunks, deduplicating against
+//   local data and reporting progress via `syncStatusStore`.
+// Writes to tables with schema `fields` are validated first and rejected with
+// a `ValidationError` before anything is stored or queued. Writes that would
+// duplicate a row under `uniqueConstraints` throw a `UniqueConstraintError`.
 
 export {
   engineCreate,
   engineUpdate,
   engineDelete,
+  engineRestore,
   engineBatchWrite,
-  engineIncrement
+  engineTransaction,
+  engineIncrement,
+  engineArrayAdd,
+  engineArrayRemove,
+  engineToggle,
+  enginePatch,
+  engineUpsert,
+  engineImport
+} from './data';
+export type {
+  BatchOperation,
+  EngineTransaction,
+  ImportOptions,
+  ImportResult,
+  JsonPatchEntry
 } from './data';
-export type { BatchOperation } from './data';
+export { ValidationError, UniqueConstraintError } from './data';
+export type { ValidationIssue } from './data';
 
 // =============================================================================
 //  Generic Query Operations
@@ -93,8 +150,11 @@ export type { BatchOperation } from './data';
 // - `engineQuery` — retrieves entities matching a key-value filter.
 // - `engineQueryRange` — retrieves entities within an IDB key range.
 // - `engineGetOrCreate` — retrieves an entity or creates it with defaults.
+// - `enginePaginate` — reads one page at a time using opaque keyset cursors.
 
 export { engineGet, engineGetAll, engineQuery, engineQueryRange, engineGetOrCreate } from './data';
+export { enginePaginate } from './data';
+export type { PaginateOptions, PageResult } from './data';
 
 // =============================================================================
 //  Query & Repository Helpers
@@ -103,9 +163,115 @@ export { engineGet, engineGetAll, engineQuery, engineQueryRange, engineGetOrCrea
 // - `queryAll` — fetches all non-deleted records, sorted by order.
 // - `queryOne` — fetches a single non-deleted record by ID.
 // - `reorderEntity` — updates just the order field on any entity.
-// - `prependOrder` — computes the next prepend-order value.
+// - `prependOrder` / `prependOrderKey` — computes the next prepend-order value
+//   (numeric, or a string key for `'orderKey'` tables).
+// - `moveEntity` — moves an entity to a list position, rebalancing when gaps run out.
+// - `rebalanceOrder` — respaces a list's order values evenly.
 
-export { queryAll, queryOne, reorderEntity, prependOrder } from './data';
+export {
+  queryAll,
+  queryOne,
+  reorderEntity,
+  prependOrder,
+  prependOrderKey,
+  moveEntity,
+  rebalanceOrder
+} from './data';
+export type { OrderScope } from './data';
+
+// =============================================================================
+//  Composable Query Builder
+// =============================================================================
+// `query(table)` starts an immutable, chainable query (where/and/or, `in`,
+// `startsWith`, `orderBy`, `limit`/`offset`) that compiles to the best Dexie
+// index plan and can fall back to an equivalent PostgREST filter.
+
+export { query } from './data';
+export type {
+  QueryBuilder,
+  QueryCondition,
+  QueryExecOptions,
+  QueryOperator,
+  QueryPlan,
+  SortDirection
+} from './data';
+
+// =============================================================================
+//  Full-Text Search
+// =============================================================================
+// Offline, ranked prefix search over tables that declare `searchable` fields.
+// - `engineSearch` — queries the local inverted index.
+// - `rebuildSearchIndex` — rebuilds the index from local data.
+
+export { engineSearch, rebuildSearchIndex } from './data';
+export type { SearchHit, SearchOptions } from './data';
+
+// =============================================================================
+//  Aggregation
+// =============================================================================
+// `engineAggregate` computes count/sum/min/max (optionally grouped) by
+// streaming over a Dexie cursor instead of loading the table.
+
+export { engineAggregate } from './data';
+export type { AggregateGroup, AggregateOptions } from './data';
+
+// =============================================================================
+//  Undo / Redo
+// =============================================================================
+// Opt-in local history (`initEngine({ undo: true })`):
+// - `engineUndo` / `engineRedo` — replay recorded inverses through the queue.
+// - `undoGroup` — records several writes as one undoable action.
+// - `undoStore` — reactive `canUndo` / `canRedo` state for UI controls.
+
+export { engineUndo, engineRedo, undoGroup } from './data';
+export { undoStore } from './undo';
+export type { UndoState } from './undo';
+
+// =============================================================================
+//  Version History
+// =============================================================================
+// Opt-in per-table snapshots (schema `history` option):
+// - `engineGetHistory` — lists an entity's recorded prior states.
+// - `engineRevertTo` — restores a version or point in time as a normal update.
+
+export { engineGetHistory, engineRevertTo } from './data';
+export type { EntityVersion, VersionSource } from './data';
+
+// =============================================================================
+//  Attachments
+// =============================================================================
+// Files linked to entity rows, stored offline and synced to the Storage bucket
+// named by `initEngine({ attachments: { bucket } })`:
+// - `engineAttach` / `engineRemoveAttachment` — add or remove a file.
+// - `engineListAttachments` — an entity's files, including other devices' uploads.
+// - `engineGetAttachment` — the content, downloaded and cached on first access.
+
+export {
+  engineAttach,
+  engineListAttachments,
+  engineGetAttachment,
+  engineRemoveAttachment
+} from './data';
+export type { Attachment, AttachmentStatus, AttachOptions } from './data';
+
+// =============================================================================
+//  User Data Archives
+// =============================================================================
+// Whole-account "download my data" and restore:
+// - `exportUserData` — a versioned JSON or CSV archive of the configured tables.
+// - `importUserData` — writes an archive back through the sync queue, merging
+//   with or replacing local data and remapping IDs across accounts.
+
+export { exportUserData, importUserData } from './data';
+export type {
+  ArchiveColumnType,
+  ArchivedTable,
+  ExportUserDataOptions,
+  ImportUserDataOptions,
+  TableImportResult,
+  UserDataArchive,
+  UserDataImportResult
+} from './data';
 
 // =============================================================================
 //  Supabase Auth — Core Authentication Utilities
@@ -166,6 +332,20 @@ export {
   resetSingleUserRemote
 } from './auth/singleUser';
 
+// =============================================================================
+//  Field Encryption
+// =============================================================================
+// End-to-end encryption of schema fields marked `encrypted`. The key is
+// unwrapped with the single-user gate (`encryption.keySource: 'gate'`) or a
+// separate passphrase passed to `unlockEncryption`.
+
+export {
+  unlockEncryption,
+  lockEncryption,
+  changeEncryptionSecret,
+  isEncryptionUnlocked
+} from './encryption';
+
 // =============================================================================
 //  Auth Display Utilities
 // =============================================================================
@@ -220,12 +400,22 @@ export { authState, isAuthenticated, userDisplayInfo } from './stores/authState'
 // Generic factory functions for creating reactive stores with built-in loading
 // state and sync-complete auto-refresh.
 
-export { createCollectionStore, createDetailStore } from './stores/factories';
+export {
+  createCollectionStore,
+  createDetailStore,
+  createLiveQueryStore,
+  createInfiniteCollectionStore,
+  createAggregateStore
+} from './stores/factories';
 export type {
   CollectionStore,
   CollectionStoreConfig,
   DetailStore,
-  DetailStoreConfig
+  DetailStoreConfig,
+  InfiniteCollectionStore,
+  InfiniteCollectionStoreConfig,
+  LiveQueryStore,
+  LiveQueryStoreConfig
 } from './stores/factories';
 
 // =============================================================================
@@ -283,9 +473,20 @@ export { debug, isDebugMode, setDebugMode } from './debug';
 // - `generateId` — produces a unique identifier.
 // - `now` — returns the current ISO 8601 timestamp.
 // - `calculateNewOrder` — computes fractional order for reorderable lists.
+// - `orderKeyBetween` / `spreadOrderKeys` — string fractional order keys.
+// - `compareOrder` — deterministic `order` comparator (ties broken by `id`).
 // - `snakeToCamel` — converts `snake_case` to `camelCase`.
 
-export { generateId, now, calculateNewOrder, snakeToCamel, formatBytes } from './utils';
+export {
+  generateId,
+  now,
+  calculateNewOrder,
+  orderKeyBetween,
+  spreadOrderKeys,
+  compareOrder,
+  snakeToCamel,
+  formatBytes
+} from './utils';
 
 // =============================================================================
 //  Diagnostics
@@ -337,6 +538,7 @@ export type { DemoConfig } from './demo';
 
 export type {
   SyncOperationItem,
+  SyncAttempt,
   OperationType,
   OfflineCredentials,
   OfflineSession,
@@ -348,6 +550,8 @@ export type {
   TrustedDevice,
   SchemaDefinition,
   SchemaTableConfig,
+  SyncFilterCondition,
+  RetryPolicy,
   AuthConfig,
   FieldType
 } from './types';
@@ -358,8 +562,19 @@ export type {
 // Generate complete Supabase SQL from a declarative schema definition.
 // These are also available via `stellar-drive/utils`.
 
-export { generateSupabaseSQL, inferColumnType, generateTypeScript } from './schema';
-export type { SQLGenerationOptions, TypeScriptGenerationOptions } from './schema';
+export {
+  generateSupabaseSQL,
+  inferColumnType,
+  generateTypeScript,
+  generateRepository,
+  getSchemaRelations
+} from './schema';
+export type {
+  SQLGenerationOptions,
+  TypeScriptGenerationOptions,
+  RepositoryGenerationOptions,
+  SchemaRelation
+} from './schema';
 
 // =============================================================================
 //  Third-Party Re-exports
@@ -0,0 +1,215 @@
+/**
+ * @fileoverview Field Intents — Array, Toggle and JSON-Path Operations
+ *
+ * Pure functions shared by every layer that handles the field-level intents
+ * `arrayAdd`, `arrayRemove`, `toggle` and `patch`:
+ *
+ * - `data.ts` applies them to the local row when the write is made.
+ * - `queue.ts` folds them into creates and sets, and merges runs of them.
+ * - `conflicts.ts` replays pending ones on top of an incoming remote value.
+ *
+ * The semantics match the `stellar_apply_intent` SQL function generated by
+ * `generateSupabaseSQL`, which applies them on the server, so every device
+ * converges on the same value:
+ *
+ * - `arrayAdd`    — append each item not already in the array (deep equality).
+ * - `arrayRemove` — drop every element equal to one of the items.
+ * - `toggle`      — flip a boolean (`null` counts as `false`).
+ * - `patch`       — set (or, without a `value`, remove) keys at JSON paths,
+ *                   creating missing intermediate objects. A column that is
+ *                   not an object or array starts over as `{}`.
+ *
+ * Adds and removes are idempotent, so a push retried after a lost response
+ * cannot duplicate an element.
+ *
+ * @see {@link ./types} for `OperationType`
+ * @see {@link ./schema} for the generated `stellar_apply_intent` function
+ */
+
+import type { OperationType } from './types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** The operation types that carry a field-level intent other than `increment`. */
+export type FieldIntentType = 'arrayAdd' | 'arrayRemove' | 'toggle' | 'patch';
+
+/**
+ * One change queued by `enginePatch`: the key at `path` inside a JSON column
+ * is set to `value`, or removed when the entry has no `value`.
+ */
+export interface JsonPatchEntry {
+  /** Keys (and array indexes, as strings) from the column root. */
+  path: string[];
+  /** The new value. Absent to remove the key. */
+  value?: unknown;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Whether an operation type is one of the {@link FieldIntentType}s. */
+export function isFieldIntent(type: OperationType): type is FieldIntentType {
+  return type === 'arrayAdd' || type === 'arrayRemove' || type === 'toggle' || type === 'patch';
+}
+
+/** Structural equality for JSON values (key order is ignored). */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => jsonEqual(item, other[i]));
+  }
+  const aKeys = Object.keys(a);
+  const bRecord = b as Record<string, unknown>;
+  if (aKeys.length !== Object.keys(bRecord).length) return false;
+  return aKeys.every(
+    (key) => key in bRecord && jsonEqual((a as Record<string, unknown>)[key], bRecord[key])
+  );
+}
+
+/** Split a dotted path (`'settings.theme'`) into its keys. */
+export function toPatchPath(path: string | string[]): string[] {
+  return Array.isArray(path) ? path : path.split('.');
+}
+
+/** Whether `prefix` equals `path` or is one of its ancestors. */
+function isPathPrefix(prefix: string[], path: string[]): boolean {
+  return prefix.length <= path.length && prefix.every((key, i) => path[i] === key);
+}
+
+// =============================================================================
+// APPLYING INTENTS
+// =============================================================================
+
+/** Append the items not yet present. */
+function addToArray(current: unknown, items: unknown[]): unknown[] {
+  const result = Array.isArray(current) ? [...current] : [];
+  for (const item of items) {
+    if (!result.some((existing) => jsonEqual(existing, item))) result.push(item);
+  }
+  return result;
+}
+
+/** Drop every element equal to one of the items. */
+function removeFromArray(current: unknown, items: unknown[]): unknown[] {
+  const result = Array.isArray(current) ? current : [];
+  return result.filter((existing) => !items.some((item) => jsonEqual(existing, item)));
+}
+
+/** Set or remove the key at one path, copying every container on the way. */
+function patchAt(container: unknown, path: string[], entry: JsonPatchEntry): unknown {
+  const [key, ...rest] = path;
+  const remove = !('value' in entry) || entry.value === undefined;
+  const isArray = Array.isArray(container);
+  const isObject = typeof container === 'object' && container !== null;
+  /* A missing intermediate container is created as an object — unless the
+     patch removes, in which case there is nothing to remove. */
+  if (!isObject) {
+    if (remove) return container;
+    container = {};
+  }
+  const copy: Record<string, unknown> | unknown[] = isArray
+    ? [...(container as unknown[])]
+    : { ...(container as Record<string, unknown>) };
+  const slot = copy as Record<string, unknown>;
+
+  if (rest.length === 0) {
+    if (!remove) slot[key] = entry.value;
+    else if (isArray) (copy as unknown[]).splice(Number(key), 1);
+    else delete slot[key];
+    return copy;
+  }
+  slot[key] = patchAt(slot[key], rest, entry);
+  return copy;
+}
+
+/** Apply patch entries in order. */
+function applyPatches(current: unknown, entries: JsonPatchEntry[]): unknown {
+  let result: unknown = typeof current === 'object' && current !== null ? current : {};
+  for (const entry of entries) {
+    if (entry.path.length > 0) result = patchAt(result, entry.path, entry);
+  }
+  return result;
+}
+
+/**
+ * Apply a field-level operation to a field's current value.
+ *
+ * `increment` and `set` are included so callers can replay any run of
+ * field-targeted operations with one function.
+ *
+ * @param type    - The operation type.
+ * @param current - The field's value before the operation.
+ * @param value   - The operation's queued `value`.
+ * @returns The field's value after the operation.
+ */
+export function applyFieldOperation(
+  type: OperationType,
+  current: unknown,
+  value: unknown
+): unknown {
+  switch (type) {
+    case 'increment':
+      return (typeof current === 'number' ? current : 0) + (typeof value === 'number' ? value : 0);
+    case 'arrayAdd':
+      return addToArray(current, value as unknown[]);
+    case 'arrayRemove':
+      return removeFromArray(current, value as unknown[]);
+    case 'toggle':
+      return !current;
+    case 'patch':
+      return applyPatches(current, value as JsonPatchEntry[]);
+    default:
+      return value;
+  }
+}
+
+// =============================================================================
+// MERGING INTENTS
+// =============================================================================
+
+/**
+ * Reduce a run of `arrayAdd` / `arrayRemove` operations on one field to at
+ * most one remove followed by one add with the same effect.
+ *
+ * Each item ends up wherever its last operation put it: removed if that was
+ * a remove, appended if it was an add. An item that was removed at any point
+ * and then re-added is removed first, so it moves to the end just as the
+ * original sequence would have moved it.
+ *
+ * @param ops - The operations, oldest first.
+ * @returns The items to remove, then the items to append (in append order).
+ */
+export function mergeArrayOperations(ops: { type: FieldIntentType; value: unknown[] }[]): {
+  remove: unknown[];
+  add: unknown[];
+} {
+  const remove: unknown[] = [];
+  let add: unknown[] = [];
+  for (const op of ops) {
+    for (const item of op.value) {
+      add = add.filter((existing) => !jsonEqual(existing, item));
+      if (op.type === 'arrayAdd') add.push(item);
+      else if (!remove.some((existing) => jsonEqual(existing, item))) remove.push(item);
+    }
+  }
+  return { remove, add };
+}
+
+/**
+ * Concatenate patch entries, dropping any that a later entry overwrites
+ * (the same path or one of its ancestors).
+ *
+ * @param entries - The entries, oldest first.
+ * @returns The entries still needed, in order.
+ */
+export function mergePatchEntries(entries: JsonPatchEntry[]): JsonPatchEntry[] {
+  return entries.filter(
+    (entry, i) => !entries.slice(i + 1).some((later) => isPathPrefix(later.path, entry.path))
+  );
+}
@@ -0,0 +1,792 @@
+/**
+ * @fileoverview Composable Query Builder for the Local Data Layer
+ *
+ * The single-purpose helpers in `data.ts` (`engineQuery`, `engineQueryRange`,
+ * `queryByIndex`, ...) each cover exactly one access pattern, which pushes
+ * every non-trivial screen into `.filter().sort().slice()` chains over whole
+ * tables. This module adds a chainable, typed query API on top of the same
+ * Dexie tables:
+ *
+ * ```ts
+ * const open = await query<Goal>('goals')
+ *   .where('goal_list_id', 'eq', listId)
+ *   .where('status', 'in', ['active', 'paused'])
+ *   .or({ field: 'title', op: 'startsWith', value: 'Q3' }, { field: 'pinned', op: 'eq', value: true })
+ *   .orderBy('order')
+ *   .limit(20)
+ *   .toArray({ autoRemoteFallback: true });
+ * ```
+ *
+ * Architecture:
+ * - Builders are **immutable**: every chain method returns a new builder, so a
+ *   base query can be shared and specialised without leaking state.
+ * - Conditions are kept in conjunctive normal form — an AND of clauses, where
+ *   each clause is an OR of one or more conditions. `where`/`and` append a
+ *   single-condition clause; `or` appends a multi-condition clause.
+ * - At execution time the query is **compiled** against the live Dexie schema
+ *   of the table: the most selective usable index (compound equality, then
+ *   single-field equality, `anyOf`, range, prefix) narrows the cursor, and the
+ *   remaining conditions run as an in-memory filter on that cursor.
+ * - When the chosen index already yields rows in the requested order, `limit`
+ *   and `offset` are applied on the cursor itself so only the needed rows are
+ *   materialised. Otherwise rows are sorted in JS before slicing.
+ * - The optional `remoteFallback` translates the same conditions into a
+ *   PostgREST filter, caches the returned rows locally, and re-evaluates the
+ *   query over them so both paths return identical shapes.
+ *
+ * IndexedDB cannot index `null`, `undefined` or booleans, so conditions on
+ * such values are never used to pick an index — they always run as filters.
+ *
+ * @see {@link ./data} for the single-purpose CRUD and query helpers
+ * @see {@link ./config} for table map and column configuration
+ */
+
+import type { Collection, IndexSpec, Table } from 'dexie';
+import { getTableMap, getTableColumns, resolveSupabaseName } from './config';
+import { getDb } from './database';
+import { hasHydrated, loadTable } from './engine';
+import { debugError } from './debug';
+import { supabase } from './supabase/client';
+import { isDemoMode } from './demo';
+import { decryptRows } from './encryption';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Comparison operators supported by the query builder.
+ *
+ * - `eq` / `neq` — strict equality (with `null` and `undefined` treated alike).
+ * - `gt` / `gte` / `lt` / `lte` — ordered comparison; `null` never matches.
+ * - `in` — value is one of the given list.
+ * - `startsWith` — string prefix match.
+ * - `between` — inclusive range `[lower, upper]`.
+ */
+export type QueryOperator =
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'in'
+  | 'startsWith'
+  | 'between';
+
+/** Sort direction for {@link QueryBuilder.orderBy}. */
+export type SortDirection = 'asc' | 'desc';
+
+/** A field name of the entity type `T`. */
+export type QueryField<T> = keyof T & string;
+
+/**
+ * The value type a condition expects for a given operator: a list for `in`,
+ * a `[lower, upper]` tuple for `between`, a string for `startsWith`, and the
+ * field's own type otherwise.
+ */
+export type QueryValue<V, Op extends QueryOperator> = Op extends 'in'
+  ? readonly V[]
+  : Op extends 'between'
+    ? readonly [V, V]
+    : Op extends 'startsWith'
+      ? string
+      : V;
+
+/**
+ * A single filter condition, as accepted by {@link QueryBuilder.or}.
+ *
+ * @typeParam T - The entity type being queried.
+ */
+export interface QueryCondition<T = Record<string, unknown>> {
+  field: QueryField<T>;
+  op: QueryOperator;
+  value: unknown;
+}
+
+/** Options accepted by the query builder's terminal methods. */
+export interface QueryExecOptions {
+  /** If `true`, fall back to Supabase when no local rows match. */
+  remoteFallback?: boolean;
+  /** If `true`, fall back to Supabase only when the engine has not hydrated yet. */
+  autoRemoteFallback?: boolean;
+}
+
+/**
+ * Description of how a query will be executed against IndexedDB, as returned
+ * by {@link QueryBuilder.explain}. Useful for checking that a query actually
+ * hits the index you declared in the schema.
+ */
+export interface QueryPlan {
+  /** The Dexie index used to narrow the scan, or `null` for a full table scan. */
+  index: string | null;
+  /** How the index is consulted. */
+  strategy: 'compound' | 'equals' | 'anyOf' | 'range' | 'prefix' | 'scan';
+  /** Whether the cursor already yields rows in the requested order. */
+  ordered: boolean;
+  /** Number of conditions evaluated in memory after the index lookup. */
+  residualConditions: number;
+}
+
+/**
+ * Immutable, chainable query over a single table.
+ *
+ * @typeParam T - The entity type returned by the query.
+ */
+export interface QueryBuilder<T extends Record<string, unknown>> {
+  /** Add an AND condition. */
+  where<K extends QueryField<T>, Op extends QueryOperator>(
+    field: K,
+    op: Op,
+    value: QueryValue<T[K], Op>
+  ): QueryBuilder<T>;
+
+  /** Alias of {@link QueryBuilder.where}, for readability in long chains. */
+  and<K extends QueryField<T>, Op extends QueryOperator>(
+    field: K,
+    op: Op,
+    value: QueryValue<T[K], Op>
+  ): QueryBuilder<T>;
+
+  /** Add a clause that matches when ANY of the given conditions match. */
+  or(...conditions: QueryCondition<T>[]): QueryBuilder<T>;
+
+  /** Sort results by a field. Defaults to ascending. */
+  orderBy(field: QueryField<T>, direction?: SortDirection): QueryBuilder<T>;
+
+  /** Return at most `count` rows. */
+  limit(count: number): QueryBuilder<T>;
+
+  /** Skip the first `count` matching rows. */
+  offset(count: number): QueryBuilder<T>;
+
+  /** Include soft-deleted rows (excluded by default). */
+  includeDeleted(): QueryBuilder<T>;
+
+  /** Execute the query and return all matching rows. */
+  toArray(opts?: QueryExecOptions): Promise<T[]>;
+
+  /** Execute the query and return the first matching row, or `null`. */
+  first(opts?: QueryExecOptions): Promise<T | null>;
+
+  /** Count matching local rows (ignores `limit`/`offset`). */
+  count(): Promise<number>;
+
+  /** Describe the IndexedDB plan this query compiles to, without running it. */
+  explain(): QueryPlan;
+}
+
+/** Internal, immutable state carried by a builder. */
+interface QueryState {
+  table: string;
+  clauses: QueryCondition[][];
+  order: { field: string; direction: SortDirection } | null;
+  limit: number | null;
+  offset: number;
+  excludeDeleted: boolean;
+}
+
+/** A compiled plan plus the Dexie collection that implements it. */
+interface CompiledQuery {
+  plan: QueryPlan;
+  collection: Collection;
+  residual: QueryCondition[][];
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Resolve a Supabase (remote) table name to its corresponding Dexie table name.
+ *
+ * @param supabaseName - The canonical table name used by the caller.
+ * @returns The Dexie table name.
+ */
+function getDexieTableName(supabaseName: string): string {
+  const map = getTableMap();
+  return map[supabaseName] || supabaseName;
+}
+
+/**
+ * Whether a value can be used as an IndexedDB key. Booleans, `null` and
+ * `undefined` are not valid keys, so rows holding them are absent from the
+ * index and an index lookup would silently drop them.
+ */
+function isIndexableKey(value: unknown): boolean {
+  if (typeof value === 'string') return true;
+  if (typeof value === 'number') return !Number.isNaN(value);
+  return value instanceof Date;
+}
+
+/**
+ * Total ordering used for in-memory sorts and range checks. Deliberately
+ * locale-independent so every device sorts identically. `null`/`undefined`
+ * sort after every other value.
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const aNil = a === null || a === undefined;
+  const bNil = b === null || b === undefined;
+  if (aNil || bNil) return aNil === bNil ? 0 : aNil ? 1 : -1;
+  const av = a instanceof Date ? a.getTime() : a;
+  const bv = b instanceof Date ? b.getTime() : b;
+  if (typeof av !== typeof bv) return typeof av < typeof bv ? -1 : 1;
+  if ((av as number | string) < (bv as number | string)) return -1;
+  if ((av as number | string) > (bv as number | string)) return 1;
+  return 0;
+}
+
+/** Equality with `null` and `undefined` treated as the same value. */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if ((a === null || a === undefined) && (b === null || b === undefined)) return true;
+  return compareValues(a, b) === 0 && typeof a === typeof b;
+}
+
+/**
+ * Evaluate a single condition against a row in memory.
+ *
+ * @param row       - The entity record.
+ * @param condition - The condition to test.
+ * @returns `true` if the row satisfies the condition.
+ */
+export function matchesCondition(row: Record<string, unknown>, condition: QueryCondition): boolean {
+  const actual = row[condition.field];
+  const expected = condition.value;
+  const isNil = actual === null || actual === undefined;
+
+  switch (condition.op) {
+    case 'eq':
+      return valuesEqual(actual, expected);
+    case 'neq':
+      return !valuesEqual(actual, expected);
+    case 'gt':
+      return !isNil && compareValues(actual, expected) > 0;
+    case 'gte':
+      return !isNil && compareValues(actual, expected) >= 0;
+    case 'lt':
+      return !isNil && compareValues(actual, expected) < 0;
+    case 'lte':
+      return !isNil && compareValues(actual, expected) <= 0;
+    case 'in':
+      return (expected as unknown[]).some((v) => valuesEqual(actual, v));
+    case 'startsWith':
+      return typeof actual === 'string' && actual.startsWith(expected as string);
+    case 'between': {
+      const [lower, upper] = expected as [unknown, unknown];
+      return !isNil && compareValues(actual, lower) >= 0 && compareValues(actual, upper) <= 0;
+    }
+  }
+}
+
+/**
+ * Build the in-memory predicate for a set of clauses (AND of ORs), plus the
+ * soft-delete filter when requested.
+ */
+function buildPredicate(
+  clauses: QueryCondition[][],
+  excludeDeleted: boolean
+): (row: Record<string, unknown>) => boolean {
+  return (row) => {
+    if (excludeDeleted && row.deleted) return false;
+    return clauses.every((clause) => clause.some((c) => matchesCondition(row, c)));
+  };
+}
+
+/**
+ * Sort, offset and limit an in-memory result set according to the query state.
+ * Used when the chosen index does not already produce the requested order,
+ * and for rows returned by the remote fallback.
+ */
+function sortAndSlice(
+  rows: Record<string, unknown>[],
+  state: QueryState,
+  alreadySliced = false
+): Record<string, unknown>[] {
+  let result = rows;
+  if (state.order) {
+    const { field, direction } = state.order;
+    const sign = direction === 'desc' ? -1 : 1;
+    /* Ties fall back to `id` so the order is stable across devices. */
+    result = [...rows].sort(
+      (a, b) => sign * compareValues(a[field], b[field]) || compareValues(a.id, b.id)
+    );
+  }
+  if (alreadySliced) return result;
+  const end = state.limit === null ? undefined : state.offset + state.limit;
+  return state.offset > 0 || end !== undefined ? result.slice(state.offset, end) : result;
+}
+
+// =============================================================================
+// PLAN COMPILATION
+// =============================================================================
+
+/**
+ * Compile a query against the live Dexie schema of its table.
+ *
+ * Index selection, in order of preference:
+ *   1. **compound** — the longest compound index whose every key path has an
+ *      `eq` condition (`where([a, b]).equals([x, y])`).
+ *   2. **equals** — a single-field index with an `eq` condition.
+ *   3. **anyOf** — a single-field index with an `in` condition.
+ *   4. **range** — a single-field index with `gt`/`gte`/`lt`/`lte`/`between`
+ *      conditions, merged into one key range. The `orderBy` field is
+ *      preferred so the cursor is already sorted.
+ *   5. **prefix** — a single-field index with a `startsWith` condition.
+ *   6. **scan** — full table scan.
+ *
+ * Only single-condition clauses are eligible; OR clauses always run in
+ * memory. Conditions consumed by the index are removed from the residual
+ * filter.
+ *
+ * @param table - The Dexie table to query.
+ * @param state - The builder state.
+ * @returns The plan, the narrowed collection and the residual clauses.
+ */
+function compileQuery(table: Table, state: QueryState): CompiledQuery {
+  const singleIndexes = new Set<string>();
+  const compoundIndexes: IndexSpec[] = [];
+  for (const spec of [table.schema.primKey, ...table.schema.indexes]) {
+    if (spec.compound && Array.isArray(spec.keyPath)) {
+      compoundIndexes.push(spec);
+    } else if (typeof spec.keyPath === 'string' && !spec.multi) {
+      singleIndexes.add(spec.keyPath);
+    }
+  }
+
+  /* Candidate conditions: single-condition clauses whose values are valid keys. */
+  const candidates = state.clauses
+    .filter((clause) => clause.length === 1)
+    .map((clause) => clause[0])
+    .filter((c) => {
+      switch (c.op) {
+        case 'eq':
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte':
+        case 'startsWith':
+          return isIndexableKey(c.value);
+        case 'in':
+          return (c.value as unknown[]).length > 0 && (c.value as unknown[]).every(isIndexableKey);
+        case 'between':
+          return (c.value as unknown[]).every(isIndexableKey);
+        default:
+          return false;
+      }
+    });
+
+  const used = new Set<QueryCondition>();
+  const finish = (
+    collection: Collection,
+    plan: Omit<QueryPlan, 'residualConditions'>
+  ): CompiledQuery => {
+    const residual = state.clauses.filter(
+      (clause) => !(clause.length === 1 && used.has(clause[0]))
+    );
+    return { plan: { ...plan, residualConditions: residual.length }, collection, residual };
+  };
+
+  /* 1. Compound equality. */
+  const eqByField = new Map<string, QueryCondition>();
+  for (const c of candidates) {
+    if (c.op === 'eq' && !eqByField.has(c.field)) eqByField.set(c.field, c);
+  }
+  const compound = compoundIndexes
+    .filter((spec) => (spec.keyPath as string[]).every((f) => eqByField.has(f)))
+    .sort((a, b) => (b.keyPath as string[]).length - (a.keyPath as string[]).length)[0];
+  if (compound) {
+    const keyPath = compound.keyPath as string[];
+    for (const f of keyPath) used.add(eqByField.get(f)!);
+    return finish(
+      table.where(keyPath).equals(keyPath.map((f) => eqByField.get(f)!.value as string)),
+      { index: compound.name, strategy: 'compound', ordered: false }
+    );
+  }
+
+  /* 2. Single-field equality. */
+  const eq = candidates.find((c) => c.op === 'eq' && singleIndexes.has(c.field));
+  if (eq) {
+    used.add(eq);
+    return finish(table.where(eq.field).equals(eq.value as string), {
+      index: eq.field,
+      strategy: 'equals',
+      ordered: false
+    });
+  }
+
+  /* 3. Set membership. */
+  const anyOf = candidates.find((c) => c.op === 'in' && singleIndexes.has(c.field));
+  if (anyOf) {
+    used.add(anyOf);
+    return finish(table.where(anyOf.field).anyOf(anyOf.value as string[]), {
+      index: anyOf.field,
+      strategy: 'anyOf',
+      ordered: false
+    });
+  }
+
+  /* 4. Range — merge every range condition on the chosen field into one key range. */
+  const rangeOps = new Set<QueryOperator>(['gt', 'gte', 'lt', 'lte', 'between']);
+  const rangeFields = candidates
+    .filter((c) => rangeOps.has(c.op) && singleIndexes.has(c.field))
+    .map((c) => c.field);
+  const rangeField =
+    state.order && rangeFields.includes(state.order.field) ? state.order.field : rangeFields[0];
+  if (rangeField) {
+    let lower: unknown = undefined;
+    let upper: unknown = undefined;
+    let includeLower = true;
+    let includeUpper = true;
+    const tighten = (bound: 'lower' | 'upper', value: unknown, inclusive: boolean) => {
+      if (bound === 'lower') {
+        const cmp = lower === undefined ? 1 : compareValues(value, lower);
+        if (cmp > 0 || (cmp === 0 && !inclusive)) {
+          lower = value;
+          includeLower = inclusive;
+        }
+      } else {
+        const cmp = upper === undefined ? -1 : compareValues(value, upper);
+        if (cmp < 0 || (cmp === 0 && !inclusive)) {
+          upper = value;
+          includeUpper = inclusive;
+        }
+      }
+    };
+    for (const c of candidates) {
+      if (c.field !== rangeField || !rangeOps.has(c.op)) continue;
+      used.add(c);
+      if (c.op === 'gt') tighten('lower', c.value, false);
+      if (c.op === 'gte') tighten('lower', c.value, true);
+      if (c.op === 'lt') tighten('upper', c.value, false);
+      if (c.op === 'lte') tighten('upper', c.value, true);
+      if (c.op === 'between') {
+        const [lo, hi] = c.value as [unknown, unknown];
+        tighten('lower', lo, true);
+        tighten('upper', hi, true);
+      }
+    }
+
+    const clause = table.where(rangeField);
+    let collection: Collection;
+    if (lower !== undefined && upper !== undefined) {
+      /* An empty interval would make IDBKeyRange throw — match nothing instead. */
+      const cmp = compareValues(lower, upper);
+      collection =
+        cmp > 0 || (cmp === 0 && !(includeLower && includeUpper))
+          ? clause.anyOf([])
+          : clause.between(lower, upper, includeLower, includeUpper);
+    } else if (lower !== undefined) {
+      collection = includeLower ? clause.aboveOrEqual(lower) : clause.above(lower);
+    } else {
+      collection = includeUpper ? clause.belowOrEqual(upper) : clause.below(upper);
+    }
+    return finish(collection, {
+      index: rangeField,
+      strategy: 'range',
+      ordered: state.order?.field === rangeField
+    });
+  }
+
+  /* 5. Prefix. */
+  const prefix = candidates.find((c) => c.op === 'startsWith' && singleIndexes.has(c.field));
+  if (prefix) {
+    used.add(prefix);
+    return finish(table.where(prefix.field).startsWith(prefix.value as string), {
+      index: prefix.field,
+      strategy: 'prefix',
+      ordered: state.order?.field === prefix.field
+    });
+  }
+
+  /* 6. Full scan. */
+  return finish(table.toCollection(), { index: null, strategy: 'scan', ordered: false });
+}
+
+/**
+ * Run a compiled query against the local store.
+ *
+ * When the plan is ordered, the residual filter, direction, offset and limit
+ * are all pushed onto the Dexie cursor so only the requested page is read
+ * into memory. Otherwise the filtered rows are sorted and sliced in JS.
+ */
+async function runLocal(state: QueryState): Promise<Record<string, unknown>[]> {
+  await loadTable(state.table);
+  const table = getDb().table(getDexieTableName(state.table));
+  const { plan, collection, residual } = compileQuery(table, state);
+  let narrowed = collection.filter(buildPredicate(residual, state.excludeDeleted));
+
+  if (plan.ordered) {
+    if (state.order?.direction === 'desc') narrowed = narrowed.reverse();
+    if (state.offset > 0) narrowed = narrowed.offset(state.offset);
+    if (state.limit !== null) narrowed = narrowed.limit(state.limit);
+    return (await narrowed.toArray()) as Record<string, unknown>[];
+  }
+
+  return sortAndSlice((await narrowed.toArray()) as Record<string, unknown>[], state);
+}
+
+/**
+ * Open a filtered cursor over a table's non-deleted rows matching every given
+ * condition, using the same index plan as the query builder. Rows are not
+ * materialised, so callers can stream them with `each()`.
+ *
+ * Internal to the engine — used by the aggregation API in `aggregate.ts`.
+ *
+ * @param table      - The Supabase table name (or schema key).
+ * @param conditions - Conditions that must all match (AND).
+ * @returns The narrowed, filtered Dexie collection.
+ */
+export function openLocalCollection(table: string, conditions: QueryCondition[]): Collection {
+  const state: QueryState = {
+    table,
+    clauses: conditions.map((c) => [c]),
+    order: null,
+    limit: null,
+    offset: 0,
+    excludeDeleted: true
+  };
+  const { collection, residual } = compileQuery(getDb().table(getDexieTableName(table)), state);
+  return collection.filter(buildPredicate(residual, true));
+}
+
+// =============================================================================
+// POSTGREST TRANSLATION
+// =============================================================================
+
+/**
+ * Format a value for a PostgREST filter string. Inside `or(...)` and `in.(...)`
+ * lists, values containing reserved characters must be double-quoted.
+ */
+function formatFilterValue(value: unknown, quoted: boolean): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return value.toISOString();
+  const str = String(value);
+  if (quoted && /[,.:()"\\\s]/.test(str)) {
+    return `"${str.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+  return str;
+}
+
+/**
+ * Translate a condition into PostgREST `[operator, value]` filter pairs.
+ * `between` expands into two pairs (`gte` + `lte`).
+ *
+ * @param condition - The condition to translate.
+ * @param quoted    - Whether values appear inside a logical-operator list.
+ */
+function toPostgrestFilters(condition: QueryCondition, quoted: boolean): Array<[string, string]> {
+  const { op, value } = condition;
+  const isNil = value === null || value === undefined;
+  switch (op) {
+    case 'eq':
+      return [isNil ? ['is', 'null'] : ['eq', formatFilterValue(value, quoted)]];
+    case 'neq':
+      return [isNil ? ['not.is', 'null'] : ['neq', formatFilterValue(value, quoted)]];
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return [[op, formatFilterValue(value, quoted)]];
+    case 'in':
+      return [['in', `(${(value as unknown[]).map((v) => formatFilterValue(v, true)).join(',')})`]];
+    case 'startsWith': {
+      /* PostgREST accepts `*` as the LIKE wildcard; escape LIKE metacharacters. */
+      const escaped = String(value).replace(/[\\%_]/g, (ch) => `\\${ch}`);
+      return [['like', formatFilterValue(`${escaped}*`, quoted)]];
+    }
+    case 'between': {
+      const [lower, upper] = value as [unknown, unknown];
+      return [
+        ['gte', formatFilterValue(lower, quoted)],
+        ['lte', formatFilterValue(upper, quoted)]
+      ];
+    }
+  }
+}
+
+/**
+ * Add an AND of conditions to a PostgREST request. Used by the sync filter
+ * (see `SchemaTableConfig.syncFilter`) to narrow pulls to the replicated window.
+ */
+export function filterRemote<
+  R extends { filter(column: string, operator: string, value: unknown): R }
+>(request: R, conditions: QueryCondition[]): R {
+  for (const condition of conditions) {
+    for (const [op, value] of toPostgrestFilters(condition, false)) {
+      request = request.filter(condition.field, op, value);
+    }
+  }
+  return request;
+}
+
+/**
+ * Fetch matching rows from Supabase using the query's conditions, cache them
+ * locally, and return them after the same in-memory sort/slice as the local
+ * path. Soft-deleted rows are always excluded remotely (matching the other
+ * remote fallbacks) so tombstones are never pulled down.
+ */
+async function runRemote(state: QueryState): Promise<Record<string, unknown>[]> {
+  const supaTable = resolveSupabaseName(state.table);
+  const columns = getTableColumns(state.table);
+  let request = supabase.from(supaTable).select(columns);
+
+  for (const clause of state.clauses) {
+    if (clause.length === 1) {
+      for (const [op, value] of toPostgrestFilters(clause[0], false)) {
+        request = request.filter(clause[0].field, op, value);
+      }
+    } else {
+      const parts = clause.map((c) => {
+        const filters = toPostgrestFilters(c, true).map(([op, v]) => `${c.field}.${op}.${v}`);
+        return filters.length === 1 ? filters[0] : `and(${filters.join(',')})`;
+      });
+      request = request.or(parts.join(','));
+    }
+  }
+  request = request.or('deleted.is.null,deleted.eq.false');
+
+  if (state.order) {
+    request = request.order(state.order.field, { ascending: state.order.direction === 'asc' });
+  }
+  if (state.limit !== null) {
+    request = request.limit(state.offset + state.limit);
+  }
+
+  const { data, error } = await request;
+  if (error || !data || data.length === 0) return [];
+
+  const rows = await decryptRows(state.table, data as unknown as Record<string, unknown>[]);
+  await getDb().table(getDexieTableName(state.table)).bulkPut(rows);
+  return sortAndSlice(rows, state);
+}
+
+// =============================================================================
+// BUILDER
+// =============================================================================
+
+/**
+ * Create a builder bound to the given state. Every chain method derives a new
+ * state object, so builders can be safely shared and extended.
+ */
+function createQueryBuilder<T extends Record<string, unknown>>(state: QueryState): QueryBuilder<T> {
+  const derive = (patch: Partial<QueryState>) => createQueryBuilder<T>({ ...state, ...patch });
+  const addClause = (clause: QueryCondition[]) => derive({ clauses: [...state.clauses, clause] });
+
+  const execute = async (opts?: QueryExecOptions): Promise<T[]> => {
+    const results = await runLocal(state);
+    const remoteFallback =
+      opts?.remoteFallback ?? (opts?.autoRemoteFallback ? !hasHydrated() : false);
+
+    if (
+      results.length === 0 &&
+      remoteFallback &&
+      !isDemoMode() &&
+      typeof navigator !== 'undefined' &&
+      navigator.onLine
+    ) {
+      try {
+        return (await runRemote(state)) as T[];
+      } catch (e) {
+        debugError(`[Query] Remote fallback failed for ${state.table}:`, e);
+      }
+    }
+
+    return results as T[];
+  };
+
+  return {
+    where(field, op, value) {
+      return addClause([{ field, op, value }]);
+    },
+
+    and(field, op, value) {
+      return addClause([{ field, op, value }]);
+    },
+
+    or(...conditions) {
+      if (conditions.length === 0) return derive({});
+      return addClause(conditions as QueryCondition[]);
+    },
+
+    orderBy(field, direction = 'asc') {
+      return derive({ order: { field, direction } });
+    },
+
+    limit(count) {
+      return derive({ limit: Math.max(0, Math.floor(count)) });
+    },
+
+    offset(count) {
+      return derive({ offset: Math.max(0, Math.floor(count)) });
+    },
+
+    includeDeleted() {
+      return derive({ excludeDeleted: false });
+    },
+
+    toArray(opts) {
+      return execute(opts);
+    },
+
+    async first(opts) {
+      const builder = createQueryBuilder<T>({ ...state, limit: 1 });
+      const [row] = await builder.toArray(opts);
+      return row ?? null;
+    },
+
+    async count() {
+      const table = getDb().table(getDexieTableName(state.table));
+      const { collection, residual } = compileQuery(table, state);
+      return collection.filter(buildPredicate(residual, state.excludeDeleted)).count();
+    },
+
+    explain() {
+      const table = getDb().table(getDexieTableName(state.table));
+      return compileQuery(table, state).plan;
+    }
+  };
+}
+
+/**
+ * Start a composable query over a table.
+ *
+ * Soft-deleted rows are excluded unless {@link QueryBuilder.includeDeleted} is
+ * called. Conditions on unindexed fields are allowed — they simply run as
+ * in-memory filters after the best available index narrows the scan.
+ *
+ * @typeParam T - The entity type returned by the query.
+ * @param table - The Supabase table name (or schema key).
+ * @returns A new, empty {@link QueryBuilder}.
+ *
+ * @example
+ * ```ts
+ * import { query } from 'stellar-drive/data';
+ *
+ * // Ten most recent unfinished tasks in a project
+ * const tasks = await query<Task>('tasks')
+ *   .where('project_id', 'eq', projectId)
+ *   .where('completed', 'eq', false)
+ *   .orderBy('created_at', 'desc')
+ *   .limit(10)
+ *   .toArray({ remoteFallback: true });
+ *
+ * // Inspect the IndexedDB plan
+ * query('tasks').where('due_date', 'between', [monday, friday]).explain();
+ * // → { index: 'due_date', strategy: 'range', ordered: false, residualConditions: 0 }
+ * ```
+ *
+ * @see {@link engineQuery} for single-index equality lookups
+ * @see {@link engineQueryRange} for single-index range lookups
+ */
+export function query<T extends Record<string, unknown> = Record<string, unknown>>(
+  table: string
+): QueryBuilder<T> {
+  return createQueryBuilder<T>({
+    table,
+    clauses: [],
+    order: null,
+    limit: null,
+    offset: 0,
+    excludeDeleted: true
+  });
+}
@@ -2,7 +2,8 @@
  * @fileoverview Sync Queue & Operation Coalescing Engine
  *
  * This module manages the offline-first sync queue for stellar-drive. All local
- * mutations (creates, sets, increments, deletes) are enqueued as individual
+ * mutations (creates, sets, increments, deletes and the array, toggle and
+ * patch intents) are enqueued as individual
  * intent-based operations in an IndexedDB-backed queue (`syncQueue` table via Dexie).
  * Before pushing to the remote server, the coalescing algorithm reduces redundant
  * operations to minimize network requests and payload size.
@@ -27,12 +28,14 @@
  *   2. **Entity-level reduction** -- Four mutually exclusive cases per entity group:
  *      - CREATE + DELETE = cancel everything (entity was born and died offline).
  *      - DELETE only     = drop preceding sets/increments (they are moot).
- *      - CREATE only     = fold subsequent sets/increments into the create payload.
+ *      - CREATE only     = fold subsequent sets/increments/intents into the create payload.
  *      - Updates only    = delegate to field-level coalescing ({@link processFieldOperations}).
- *   3. **Increment coalescing** -- Surviving increment ops on the same field are summed.
+ *   3. **Increment & intent coalescing** -- Surviving increment ops on the same field are
+ *                                  summed; toggles cancel in pairs, array adds/removes net
+ *                                  out, and patches concatenate.
  *   4. **Set coalescing**       -- Surviving set ops on the same entity are merged.
- *   5. **No-op pruning**        -- Zero-delta increments, empty sets, and `updated_at`-only
- *                                  sets are removed.
+ *   5. **No-op pruning**        -- Zero-delta increments, empty sets, `updated_at`-only
+ *                                  sets and intents without items are removed.
  *   6. **Batch persist**        -- All deletions and updates are flushed to IndexedDB in
  *                                  a single batch/transaction.
  *
@@ -43,11 +46,23 @@
  * - **O(k)** IndexedDB writes where k = number of changed rows (bulk delete + transaction).
  * - No re-fetching between phases; all intermediate state lives in `idsToDelete` / `itemUpdates`.
  *
+ * ## Dependency Ordering
+ *
+ * {@link getPushableSync} holds back operations on a child entity (schema
+ * `ownership: { parent, fk }`) while its parent's create is still queued, and
+ * a parent's delete while a child's delete is still queued, so the push loop
+ * sends creates parents-first and deletes children-first.
+ *
  * ## Retry & Backoff
  *
- * Failed items are retried with exponential backoff (2^(retries-1) seconds) up to
- * {@link MAX_SYNC_RETRIES} attempts, after which {@link cleanupFailedItems} permanently
- * removes them and reports the affected tables for user notification.
+ * Failed items are retried following their table's {@link RetryPolicy}
+ * (schema `retry`; by default exponential backoff of 2^(retries-1) seconds up
+ * to {@link DEFAULT_RETRY_POLICY}'s 5 attempts), each failure recorded on the
+ * item with its error and the time of the next retry. An error whose code the
+ * policy lists as permanent ends the retries at once. After that,
+ * {@link cleanupFailedItems} moves them to the `deadLetters` table — nothing
+ * is discarded — and reports the affected tables for user notification. See
+ * {@link ./deadLetters} for reviewing, retrying and discarding them.
  *
  * ## Data Integrity
  *
@@ -56,7 +71,7 @@
  *   the end. If the process crashes mid-pipeline, the queue is untouched.
  * - The `timestamp` field on each operation is **immutable after creation**.
  *   It preserves enqueue order for deterministic sync and is not updated on
- *   retry (only `lastRetryAt` is updated). This ensures that coalescing and
+ *   retry (only `lastRetryAt` and `nextRetryAt` are). This ensures that coalescing and
  *   sync always process operations in the order the user intended.
  *
  * @see {@link SyncOperationItem} for the queue row schema.
@@ -65,9 +80,19 @@
 
 import { debugLog, debugWarn } from './debug';
 import { isDebugMode } from './debug';
-import { getDb } from './database';
-import type { SyncOperationItem } from './types';
+import { findTableConfig, getDexieTableFor, getEngineConfig } from './config';
+import { getDb, TABLE } from './database';
+import type { DeadLetter } from './deadLetters';
+import type { RetryPolicy, SyncOperationItem } from './types';
 import { isDemoMode } from './demo';
+import {
+  applyFieldOperation,
+  isFieldIntent,
+  mergeArrayOperations,
+  mergePatchEntries
+} from './intents';
+import type { FieldIntentType, JsonPatchEntry } from './intents';
+import { getSchemaRelations } from './schema';
 import { syncStatusStore } from './stores/sync';
 
 // =============================================================================
@@ -75,16 +100,31 @@ import { syncStatusStore } from './stores/sync';
 // =============================================================================
 
 /**
- * Maximum number of retry attempts before a sync item is considered permanently failed.
+ * Retry policy of tables that do not configure one (schema `retry`), and the
+ * value of every option a table's policy leaves unset.
  *
- * **Why 5?** With exponential backoff (1s, 2s, 4s, 8s), 5 retries span ~15 seconds
- * of cumulative wait time. This covers transient network errors and brief server
- * outages without keeping doomed operations in the queue indefinitely.
+ * **Why 5 attempts?** With exponential backoff (1s, 2s, 4s, 8s), 5 retries span
+ * ~15 seconds of cumulative wait time. This covers transient network errors and
+ * brief server outages without keeping doomed operations in the queue indefinitely.
  *
- * After exceeding this threshold, items are removed by {@link cleanupFailedItems}
- * and the affected tables are reported back to the caller for user notification.
+ * After exhausting its attempts, an item is moved to the dead-letter queue by
+ * {@link cleanupFailedItems} and the affected tables are reported back to the
+ * caller for user notification.
+ */
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 5,
+  backoff: 'exponential',
+  baseDelayMs: 1000,
+  maxDelayMs: 300_000,
+  jitter: 0,
+  permanentErrors: []
+};
+
+/**
+ * Failed attempts kept in an item's `attempts` history. Older ones are
+ * dropped, so an operation retried forever does not grow without bound.
  */
-const MAX_SYNC_RETRIES = 5;
+const MAX_ATTEMPT_HISTORY = 20;
 
 // =============================================================================
 // Internal Helpers
@@ -225,11 +265,25 @@ export async function coalescePendingOps(): Promise<number> {
   // ===========================================================================
   // STEP 2: Process each entity group (entity-level reduction)
   // ===========================================================================
-  for (const [, items] of entityGroups) {
+  for (const [, group] of entityGroups) {
     /* Chronological sort is critical: it lets us reason about "before" and
        "after" relationships between creates, updates, and deletes. The
        timestamp is the original enqueue time, which never changes. */
-    items.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    group.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    // ---- Restored tombstone -> the deletes are void ----
+    /* `engineRestore` queues a `set` of `deleted: false`. If one follows the
+       last delete, the entity is alive again: drop the deletes and coalesce
+       the rest as if they never happened (the restore set itself carries
+       `deleted: false` to the server in case a delete was already pushed). */
+    let items = group;
+    const lastDelete = group.map((i) => i.operationType).lastIndexOf('delete');
+    if (lastDelete !== -1 && group.slice(lastDelete + 1).some(isRestoreOperation)) {
+      for (const item of group) {
+        if (item.operationType === 'delete') markDeleted(item);
+      }
+      items = group.filter((i) => i.operationType !== 'delete');
+    }
 
     const hasCreate = items.some((i) => i.operationType === 'create');
     const hasDelete = items.some((i) => i.operationType === 'delete');
@@ -307,6 +361,14 @@ export async function coalescePendingOps(): Promise<number> {
                 : 0;
             const delta = typeof item.value === 'number' ? item.value : 0;
             mergedPayload[item.field] = currentVal + delta;
+          } else if (item.field && isFieldIntent(item.operationType)) {
+            /* Array, toggle and patch intents are applied to the payload
+               value the same way they were applied to the local row. */
+            mergedPayload[item.field] = applyFieldOperation(
+              item.operationType,
+              mergedPayload[item.field],
+              item.value
+            );
           }
         }
 
@@ -328,7 +390,7 @@ export async function coalescePendingOps(): Promise<number> {
   }
 
   // ===========================================================================
-  // STEP 3: Coalesce remaining INCREMENT operations (not yet deleted)
+  // STEP 3: Coalesce remaining INCREMENT and field-intent operations
   // ===========================================================================
   /* After entity-level reduction, there may still be multiple surviving
      increment operations targeting the same field. We sum their deltas into
@@ -368,6 +430,72 @@ export async function coalescePendingOps(): Promise<number> {
     }
   }
 
+  /* Array, toggle and patch intents on the same field reduce family by family:
+     toggles cancel in pairs, array adds and removes net out to at most one
+     remove followed by one add, and patches concatenate into one entry list.
+     A field whose intents mix families (a JSON column both patched and
+     appended to) is left alone, as those only commute in order.
+
+     **Example:** ADD tags [a], ADD tags [b], REMOVE tags [a] -> REMOVE [a], ADD [b] */
+  const intentGroups = new Map<string, SyncOperationItem[]>();
+  for (const item of allItems) {
+    if (isFieldIntent(item.operationType) && item.field && isAlive(item)) {
+      const key = `${item.table}:${item.entityId}:${item.field}`;
+      if (!intentGroups.has(key)) intentGroups.set(key, []);
+      intentGroups.get(key)!.push(item);
+    }
+  }
+
+  for (const [, items] of intentGroups) {
+    const aliveItems = items.filter(isAlive);
+    if (aliveItems.length <= 1) continue;
+
+    const families = new Set(
+      aliveItems.map((i) => (i.operationType === 'arrayRemove' ? 'arrayAdd' : i.operationType))
+    );
+    if (families.size > 1) continue;
+
+    aliveItems.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const oldestItem = aliveItems[0];
+    const newestItem = aliveItems[aliveItems.length - 1];
+
+    if (oldestItem.operationType === 'toggle') {
+      /* An even number of toggles is a no-op; an odd number is one toggle. */
+      for (let i = aliveItems.length % 2; i < aliveItems.length; i++) {
+        markDeleted(aliveItems[i]);
+      }
+    } else if (oldestItem.operationType === 'patch') {
+      const entries = mergePatchEntries(
+        aliveItems.flatMap((item) => getEffectiveValue(item) as JsonPatchEntry[])
+      );
+      markUpdated(oldestItem, { value: entries });
+      for (let i = 1; i < aliveItems.length; i++) {
+        markDeleted(aliveItems[i]);
+      }
+    } else {
+      const { remove, add } = mergeArrayOperations(
+        aliveItems.map((item) => ({
+          type: item.operationType as FieldIntentType,
+          value: getEffectiveValue(item) as unknown[]
+        }))
+      );
+      /* The remove rides on the oldest item and the add on the newest, so
+         the push sends them in that order. */
+      const carriers = new Set<SyncOperationItem>();
+      if (remove.length > 0) {
+        markUpdated(oldestItem, { operationType: 'arrayRemove', value: remove });
+        carriers.add(oldestItem);
+      }
+      if (add.length > 0) {
+        markUpdated(newestItem, { operationType: 'arrayAdd', value: add });
+        carriers.add(newestItem);
+      }
+      for (const item of aliveItems) {
+        if (!carriers.has(item)) markDeleted(item);
+      }
+    }
+  }
+
   // ===========================================================================
   // STEP 4: Coalesce remaining SET operations (not yet deleted)
   // ===========================================================================
@@ -481,6 +609,17 @@ export async function coalescePendingOps(): Promise<number> {
       }
     }
 
+    /* Array intents without items and patches without entries change nothing. */
+    if (
+      item.operationType === 'arrayAdd' ||
+      item.operationType === 'arrayRemove' ||
+      item.operationType === 'patch'
+    ) {
+      if (!Array.isArray(effectiveValue) || effectiveValue.length === 0) {
+        shouldDelete = true;
+      }
+    }
+
     if (shouldDelete) {
       markDeleted(item);
     }
@@ -529,26 +668,48 @@ export async function coalescePendingOps(): Promise<number> {
 // =============================================================================
 
 /**
- * Process increment/set interactions for the same field within an entity (in-memory).
+ * Whether a queued operation un-deletes its entity — a `set` of `deleted: false`,
+ * either field-targeted or inside a whole-object value (as queued by `engineRestore`).
+ *
+ * @param item - The sync operation item to inspect.
+ * @returns `true` if replaying the item restores a tombstoned entity.
+ */
+function isRestoreOperation(item: SyncOperationItem): boolean {
+  if (item.operationType !== 'set') return false;
+  if (item.field) return item.field === 'deleted' && item.value === false;
+  return (
+    typeof item.value === 'object' &&
+    item.value !== null &&
+    (item.value as Record<string, unknown>).deleted === false
+  );
+}
+
+/**
+ * Process set interactions with increments and field intents for the same field
+ * within an entity (in-memory).
  *
  * This is the workhorse for "Case 4" of the entity-level reduction: the entity has
  * no pending create or delete, so we must carefully reason about per-field interactions
- * between set and increment operations.
+ * between set operations and the increment / array / toggle / patch operations
+ * that build on a field's previous value.
  *
  * The key insight is that a `set` on a field establishes a new absolute value, which
- * renders all *preceding* operations on that field irrelevant. If `increment` operations
- * follow the last `set`, their deltas can be folded into the set's value, turning
- * N operations into one.
+ * renders all *preceding* operations on that field irrelevant. If other operations
+ * follow the last `set`, they can be applied to the set's value, turning N
+ * operations into one.
+ *
+ * Whole-object sets (as queued by `engineUpdate`) count as a set on every field
+ * they carry. They are never deleted here — they carry other fields too — but
+ * operations that follow them are folded into their value.
  *
  * **Correctness invariant:** The resulting operations, when replayed in order against
  * the server's current state, must produce the same entity as replaying the original
  * operations. This is preserved because:
  * - We only eliminate operations that are provably superseded (before the last set)
- * - We only fold increments into a set when the set's base value is known
+ * - We only fold operations into a set when the set's base value is known
  *
  * @param items       - All sync operations for a single entity (already filtered to one
- *                      `table:entityId` group). May include operations without a `field`
- *                      (whole-object sets); those are ignored here and handled by Step 4.
+ *                      `table:entityId` group).
  * @param markDeleted - Callback to schedule an item for deletion.
  * @param markUpdated - Callback to schedule a partial update on an item.
  *
@@ -559,20 +720,39 @@ function processFieldOperations(
   markDeleted: (item: SyncOperationItem) => void,
   markUpdated: (item: SyncOperationItem, updates: Partial<SyncOperationItem>) => void
 ): void {
-  /* Group by field name. Only field-targeted increments and sets participate;
-     whole-object sets (field === undefined) are left for Step 4 because their
-     effect spans multiple fields and cannot be reduced at the single-field level. */
+  /* Group by field name. Field-targeted operations join their field's group;
+     whole-object sets join the group of every field they carry. */
   const fieldGroups = new Map<string, SyncOperationItem[]>();
+  const addToGroup = (field: string, item: SyncOperationItem) => {
+    if (!fieldGroups.has(field)) fieldGroups.set(field, []);
+    fieldGroups.get(field)!.push(item);
+  };
 
   for (const item of items) {
-    if (item.field && (item.operationType === 'increment' || item.operationType === 'set')) {
-      const key = item.field;
-      if (!fieldGroups.has(key)) fieldGroups.set(key, []);
-      fieldGroups.get(key)!.push(item);
+    if (item.field) {
+      if (
+        item.operationType === 'increment' ||
+        item.operationType === 'set' ||
+        isFieldIntent(item.operationType)
+      ) {
+        addToGroup(item.field, item);
+      }
+    } else if (
+      item.operationType === 'set' &&
+      typeof item.value === 'object' &&
+      item.value !== null
+    ) {
+      for (const field of Object.keys(item.value as Record<string, unknown>)) {
+        addToGroup(field, item);
+      }
     }
   }
 
-  for (const [, fieldItems] of fieldGroups) {
+  /* A whole-object set can absorb operations on several fields; its value is
+     accumulated here so each field's fold builds on the previous ones. */
+  const foldedValues = new Map<SyncOperationItem, Record<string, unknown>>();
+
+  for (const [field, fieldItems] of fieldGroups) {
     /* Single operation on a field cannot be reduced further. */
     if (fieldItems.length <= 1) continue;
 
@@ -580,55 +760,60 @@ function processFieldOperations(
        This ordering is the foundation of the "last set wins" logic below. */
     fieldItems.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 
-    const hasIncrement = fieldItems.some((i) => i.operationType === 'increment');
     const hasSet = fieldItems.some((i) => i.operationType === 'set');
+    const hasOther = fieldItems.some((i) => i.operationType !== 'set');
 
-    if (hasIncrement && hasSet) {
-      /* Mixed increment + set on the same field. The last `set` establishes a
-         known absolute value, so everything before it is superseded.
+    if (hasSet && hasOther) {
+      /* Mixed set + other operations on the same field. The last `set`
+         establishes a known absolute value, so everything before it is
+         superseded.
 
          **Example:** INC score+3, SET score=10, INC score+5
          -> The INC+3 is moot (SET overwrites it).
          -> The INC+5 is folded into the SET: SET score=15.
-         -> Final result: one SET score=15. */
+         -> Final result: one SET score=15.
+
+         The same holds for intents: SET tags=[a], ADD tags [b] -> SET tags=[a, b]. */
       const lastSetIndex = fieldItems.map((i) => i.operationType).lastIndexOf('set');
       const lastSet = fieldItems[lastSetIndex];
 
-      /* Increments AFTER the last set can be folded into the set's value
+      /* Operations AFTER the last set can be folded into the set's value
          because we know the base value the set establishes. */
-      const incrementsAfterSet = fieldItems
-        .slice(lastSetIndex + 1)
-        .filter((i) => i.operationType === 'increment');
-
-      if (incrementsAfterSet.length > 0) {
-        /* Sum all post-set increment deltas and bake them into the set value.
-           E.g., SET score=10, INC score+3, INC score+5 -> SET score=18. */
-        let totalDelta = 0;
-        for (const inc of incrementsAfterSet) {
-          totalDelta += typeof inc.value === 'number' ? inc.value : 0;
+      const opsAfterSet = fieldItems.slice(lastSetIndex + 1);
+
+      if (opsAfterSet.length > 0) {
+        const objectValue = lastSet.field
+          ? null
+          : (foldedValues.get(lastSet) ?? { ...(lastSet.value as Record<string, unknown>) });
+        let finalValue = objectValue ? objectValue[field] : lastSet.value;
+        for (const op of opsAfterSet) {
+          finalValue = applyFieldOperation(op.operationType, finalValue, op.value);
         }
 
-        const baseValue = typeof lastSet.value === 'number' ? lastSet.value : 0;
-        const finalValue = baseValue + totalDelta;
-
-        markUpdated(lastSet, { value: finalValue });
+        if (objectValue) {
+          objectValue[field] = finalValue;
+          foldedValues.set(lastSet, objectValue);
+          markUpdated(lastSet, { value: objectValue });
+        } else {
+          markUpdated(lastSet, { value: finalValue });
+        }
 
-        for (const inc of incrementsAfterSet) {
-          markDeleted(inc);
+        for (const op of opsAfterSet) {
+          markDeleted(op);
         }
       }
 
       /* Everything before the last set is moot -- the set overwrites whatever
-         those operations would have produced. This includes both earlier sets
-         and earlier increments on this field. */
+         those operations would have produced. Whole-object sets are kept, as
+         they carry other fields; Step 4 merges them with the last set. */
       const itemsBeforeLastSet = fieldItems.slice(0, lastSetIndex);
       for (const item of itemsBeforeLastSet) {
-        markDeleted(item);
+        if (item.field || item.operationType !== 'set') markDeleted(item);
       }
     }
-    /* Note: Groups with only increments (no sets) or only sets (no increments)
-       are handled by Steps 3 and 4 respectively. They are intentionally
-       NOT processed here to keep this function focused on mixed interactions. */
+    /* Note: Groups with only increments/intents (no sets) or only sets are
+       handled by Steps 3 and 4 respectively. They are intentionally NOT
+       processed here to keep this function focused on mixed interactions. */
   }
 }
 
@@ -637,39 +822,105 @@ function processFieldOperations(
 // =============================================================================
 
 /**
- * Determine whether a failed sync item is eligible for retry based on
- * exponential backoff timing.
+ * Resolve the retry policy of a table: its schema `retry` options over
+ * {@link DEFAULT_RETRY_POLICY}.
+ *
+ * @param table - Supabase table name.
+ */
+function getRetryPolicy(table: string): Required<RetryPolicy> {
+  const policy = findTableConfig(table)?.retryPolicy ?? {};
+  return {
+    maxAttempts: policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+    backoff: policy.backoff ?? DEFAULT_RETRY_POLICY.backoff,
+    baseDelayMs: policy.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitter: policy.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+    permanentErrors: policy.permanentErrors ?? DEFAULT_RETRY_POLICY.permanentErrors
+  };
+}
+
+/**
+ * Delay before the next attempt of an item that has failed `retries` times.
+ *
+ * @param policy  - The table's retry policy.
+ * @param retries - Failed attempts so far (at least 1).
+ * @param jitter  - Apply the policy's jitter. Off when reconstructing the
+ *                  schedule of items queued before `nextRetryAt` was stored.
+ * @returns The delay in ms.
+ */
+function getRetryDelay(policy: Required<RetryPolicy>, retries: number, jitter = true): number {
+  let delay: number;
+  switch (policy.backoff) {
+    case 'fixed':
+      delay = policy.baseDelayMs;
+      break;
+    case 'linear':
+      delay = policy.baseDelayMs * retries;
+      break;
+    default:
+      delay = policy.baseDelayMs * Math.pow(2, retries - 1);
+  }
+  delay = Math.min(delay, policy.maxDelayMs);
+  /* Jitter only ever shortens the delay, so `maxDelayMs` stays an upper bound. */
+  if (jitter && policy.jitter > 0) {
+    delay *= 1 - Math.min(policy.jitter, 1) * Math.random();
+  }
+  return Math.round(delay);
+}
+
+/**
+ * Whether an item has failed for good: it used up its table's attempts, or
+ * its last error has a code the policy lists as permanent.
+ *
+ * @param item - The sync operation item to evaluate.
+ */
+function isExhausted(item: SyncOperationItem): boolean {
+  const policy = getRetryPolicy(item.table);
+  if (item.retries >= policy.maxAttempts) return true;
+  return item.lastErrorCode !== undefined && policy.permanentErrors.includes(item.lastErrorCode);
+}
+
+/**
+ * When a failed item may be retried, as a millisecond timestamp.
  *
- * The backoff schedule is: 1s, 2s, 4s, 8s for retries 1-4. The first attempt
- * (retries === 0) is always immediate. Items that have reached
- * {@link MAX_SYNC_RETRIES} are never retried.
+ * Uses the `nextRetryAt` stored by {@link incrementRetry}. Items that failed
+ * before it was stored fall back to `lastRetryAt` (or, older still, the
+ * original `timestamp`) plus the policy delay without jitter.
  *
- * **Why exponential backoff?** It prevents hammering a server that may be
- * temporarily overloaded or unreachable, while still retrying quickly for
- * transient errors (first retry after just 1 second).
+ * @param item - A sync operation item with `retries > 0`.
+ */
+function getNextRetryTime(item: SyncOperationItem): number {
+  if (item.nextRetryAt) return new Date(item.nextRetryAt).getTime();
+  const lastAttempt = new Date(item.lastRetryAt || item.timestamp).getTime();
+  return lastAttempt + getRetryDelay(getRetryPolicy(item.table), item.retries, false);
+}
+
+/**
+ * Determine whether a failed sync item is eligible for retry based on its
+ * table's retry policy.
+ *
+ * The first attempt (retries === 0) is always immediate. Later attempts wait
+ * for the backoff delay computed when the previous one failed (by default
+ * 1s, 2s, 4s, 8s for retries 1-4). Exhausted items are never retried.
+ *
+ * **Why backoff?** It prevents hammering a server that may be temporarily
+ * overloaded or unreachable, while still retrying quickly for transient
+ * errors (first retry after just 1 second by default).
  *
  * @param item - The sync operation item to evaluate.
  * @returns `true` if the item should be included in the next sync push.
  *
  * @see {@link getPendingSync} which uses this to filter the queue.
  * @see {@link incrementRetry} which advances the retry counter after a failure.
- * @see {@link cleanupFailedItems} which removes items past the max retry threshold.
+ * @see {@link cleanupFailedItems} which dead-letters exhausted items.
  */
 function shouldRetryItem(item: SyncOperationItem): boolean {
-  if (item.retries >= MAX_SYNC_RETRIES) return false;
+  if (isExhausted(item)) return false;
 
   /* First attempt (retries=0) is always immediate -- no backoff needed. */
   if (item.retries === 0) return true;
 
-  /* Exponential backoff: 2^(retries-1) seconds -> 1s, 2s, 4s, 8s
-     Uses `lastRetryAt` if available, otherwise falls back to the original
-     `timestamp` for backward compatibility with items that predate the
-     `lastRetryAt` field. */
-  const backoffMs = Math.pow(2, item.retries - 1) * 1000;
-  const lastAttempt = new Date(item.lastRetryAt || item.timestamp).getTime();
-  const now = Date.now();
-
-  return now - lastAttempt >= backoffMs;
+  return Date.now() >= getNextRetryTime(item);
 }
 
 // =============================================================================
@@ -680,8 +931,8 @@ function shouldRetryItem(item: SyncOperationItem): boolean {
  * Retrieve all pending sync operations that are currently eligible for processing.
  *
  * Items are returned in enqueue order (`timestamp` ascending). Items that have
- * exceeded {@link MAX_SYNC_RETRIES} or are still within their backoff window
- * are excluded.
+ * exhausted their table's retry policy or are still within their backoff
+ * window are excluded.
  *
  * **Ordering guarantee:** Results are sorted by `timestamp` (the original
  * enqueue time). This ensures operations are pushed to the server in the order
@@ -714,19 +965,180 @@ export async function getPendingSync(): Promise<SyncOperationItem[]> {
 }
 
 /**
- * Remove sync items that have permanently failed (exceeded {@link MAX_SYNC_RETRIES})
- * and return a summary for user notification.
+ * List the failed sync operations still waiting for a retry, with when each
+ * becomes eligible — soonest first. Exhausted items (about to be
+ * dead-lettered) are not listed.
+ *
+ * Used by `getQueueDiagnostics` to surface the retry schedule.
+ *
+ * @returns Each retrying item with its next retry time (ISO 8601).
+ */
+export async function getRetrySchedule(): Promise<
+  { item: SyncOperationItem; nextRetryAt: string }[]
+> {
+  const db = getDb();
+  const allItems = (await db.table('syncQueue').toArray()) as unknown as SyncOperationItem[];
+  return allItems
+    .filter((item) => item.retries > 0 && !isExhausted(item))
+    .map((item) => ({ item, nextRetryAt: new Date(getNextRetryTime(item)).toISOString() }))
+    .sort((a, b) => a.nextRetryAt.localeCompare(b.nextRetryAt));
+}
+
+// =============================================================================
+// Dependency Ordering
+// =============================================================================
+
+/** A child table's link to its parent, from schema `ownership: { parent, fk }`. */
+interface ParentLink {
+  /** Supabase name of the parent table. */
+  parentTable: string;
+  /** Foreign key column on the child table. */
+  fk: string;
+}
+
+/**
+ * Resolve the parent links of every child table, keyed by Supabase name.
+ * Empty without a schema.
+ */
+function getParentLinks(): Map<string, ParentLink[]> {
+  const links = new Map<string, ParentLink[]>();
+  const schema = getEngineConfig().schema;
+  if (!schema) return links;
+
+  for (const [schemaKey, relations] of Object.entries(getSchemaRelations(schema))) {
+    const child = findTableConfig(schemaKey)?.supabaseName;
+    if (!child) continue;
+    for (const relation of relations) {
+      const parentTable = findTableConfig(relation.table)?.supabaseName;
+      if (relation.kind !== 'parent' || !parentTable) continue;
+      if (!links.has(child)) links.set(child, []);
+      links.get(child)!.push({ parentTable, fk: relation.fk });
+    }
+  }
+  return links;
+}
+
+/**
+ * Find the queue items that must wait for another queued item to be pushed
+ * first:
+ * - any operation on a child entity whose parent still has a queued `create`
+ *   (the server would reject the child with a foreign-key or RLS error);
+ * - a `delete` of a parent entity while a `delete` of one of its children is
+ *   still queued (deletes go children first, the reverse of creates).
+ *
+ * The parent of a child entity is read from its local row's FK column (the
+ * `create` payload when the row is gone), so operations that move a child
+ * to a new parent wait for that parent.
+ *
+ * @param queue - Every item in the sync queue, including those in backoff.
+ * @returns The primary keys of the blocked items.
+ */
+async function findBlockedItems(queue: SyncOperationItem[]): Promise<Set<number>> {
+  const blocked = new Set<number>();
+  const links = getParentLinks();
+  const childItems = queue.filter((item) => links.has(item.table));
+  if (childItems.length === 0) return blocked;
+
+  /* One bulk read per child table for the FK values. */
+  const rows = new Map<string, Record<string, unknown>>();
+  const idsByTable = new Map<string, string[]>();
+  for (const item of childItems) {
+    if (!idsByTable.has(item.table)) idsByTable.set(item.table, []);
+    idsByTable.get(item.table)!.push(item.entityId);
+  }
+  for (const [table, ids] of idsByTable) {
+    const tableConfig = findTableConfig(table);
+    if (!tableConfig) continue;
+    const found = await getDb().table(getDexieTableFor(tableConfig)).bulkGet(ids);
+    found.forEach((row, i) => {
+      if (row) rows.set(`${table}:${ids[i]}`, row as Record<string, unknown>);
+    });
+  }
+
+  const parentKeysOf = (item: SyncOperationItem): string[] => {
+    const row =
+      rows.get(`${item.table}:${item.entityId}`) ??
+      (item.operationType === 'create' ? (item.value as Record<string, unknown>) : undefined);
+    if (!row) return [];
+    return links
+      .get(item.table)!
+      .filter((link) => typeof row[link.fk] === 'string')
+      .map((link) => `${link.parentTable}:${row[link.fk]}`);
+  };
+
+  const pendingCreates = new Set(
+    queue
+      .filter((item) => item.operationType === 'create')
+      .map((item) => `${item.table}:${item.entityId}`)
+  );
+  const parentsWithChildDeletes = new Set<string>();
+  for (const item of childItems) {
+    const key = `${item.table}:${item.entityId}`;
+    const parentKeys = parentKeysOf(item).filter((parentKey) => parentKey !== key);
+    if (item.id && parentKeys.some((parentKey) => pendingCreates.has(parentKey))) {
+      blocked.add(item.id);
+    }
+    if (item.operationType === 'delete') {
+      for (const parentKey of parentKeys) parentsWithChildDeletes.add(parentKey);
+    }
+  }
+  for (const item of queue) {
+    if (
+      item.id &&
+      item.operationType === 'delete' &&
+      parentsWithChildDeletes.has(`${item.table}:${item.entityId}`)
+    ) {
+      blocked.add(item.id);
+    }
+  }
+  return blocked;
+}
+
+/**
+ * Retrieve the pending sync operations that can be pushed right now: those
+ * returned by {@link getPendingSync}, minus the ones waiting on another queued
+ * operation (see {@link findBlockedItems}).
+ *
+ * The push loop calls this once per pass. A child's operations are held back
+ * while its parent's `create` is queued — including while that create is in
+ * backoff after a failure — so they do not burn retries on foreign-key or RLS
+ * errors; they go out on the pass after the parent's create succeeds. Deletes
+ * run the other way: children first, then their parent.
+ *
+ * @returns The pushable operations, in enqueue order.
+ *
+ * @see {@link getPendingSync} for retry eligibility.
+ */
+export async function getPushableSync(): Promise<SyncOperationItem[]> {
+  const db = getDb();
+  const queue = (await db
+    .table('syncQueue')
+    .orderBy('timestamp')
+    .toArray()) as unknown as SyncOperationItem[];
+  const blocked = await findBlockedItems(queue);
+  if (blocked.size > 0) {
+    debugLog(`[QUEUE] Holding ${blocked.size} operation(s) until their dependencies are pushed`);
+  }
+  return queue.filter((item) => shouldRetryItem(item) && !(item.id && blocked.has(item.id)));
+}
+
+/**
+ * Move sync items that have permanently failed (used up their table's
+ * `maxAttempts`, or failed with one of its `permanentErrors`) to the
+ * dead-letter queue and return a summary for user notification.
  *
  * This is a garbage-collection function typically called periodically or after
- * a sync cycle completes. It logs a warning for each removed item via
- * {@link debugWarn}.
+ * a sync cycle completes. Each item is stored in the `deadLetters` table with
+ * its payload, last error and attempt history, in the same transaction that
+ * removes it from the queue, so a crash can neither lose nor duplicate it. A
+ * warning is logged for each via {@link debugWarn}.
  *
  * **Why return affected tables?** The caller (usually the sync engine) can use
  * the table names to show targeted error messages to the user, e.g.,
  * "Some changes to your goals could not be synced."
  *
- * @returns An object containing the count of removed items and the list of
- *          affected table names (useful for showing targeted error messages).
+ * @returns An object containing the count of dead-lettered items and the list
+ *          of affected table names (useful for showing targeted error messages).
  *
  * @example
  * ```ts
@@ -736,29 +1148,44 @@ export async function getPendingSync(): Promise<SyncOperationItem[]> {
  * }
  * ```
  *
- * @see {@link MAX_SYNC_RETRIES} for the retry threshold.
+ * @see {@link getRetryPolicy} for the retry threshold.
  * @see {@link shouldRetryItem} for the backoff logic that precedes permanent failure.
  */
 export async function cleanupFailedItems(): Promise<{ count: number; tables: string[] }> {
   const db = getDb();
   const allItems = (await db.table('syncQueue').toArray()) as unknown as SyncOperationItem[];
-  const failedItems = allItems.filter((item) => item.retries >= MAX_SYNC_RETRIES);
+  const failedItems = allItems.filter((item) => item.id && isExhausted(item));
+  if (failedItems.length === 0) return { count: 0, tables: [] };
 
   const affectedTables = new Set<string>();
-
-  for (const item of failedItems) {
+  const failedAt = new Date().toISOString();
+  const deadLetters: Omit<DeadLetter, 'id'>[] = failedItems.map((item) => {
     affectedTables.add(item.table);
-    if (item.id) {
-      debugWarn(`[QUEUE] Permanent failure after ${MAX_SYNC_RETRIES} retries — discarding:`, {
-        table: item.table,
-        operationType: item.operationType,
-        entityId: item.entityId,
-        field: item.field || null,
-        lastRetryAt: item.lastRetryAt || item.timestamp
-      });
-      await db.table('syncQueue').delete(item.id);
-    }
-  }
+    debugWarn(`[QUEUE] Permanent failure after ${item.retries} retries — dead-lettering:`, {
+      table: item.table,
+      operationType: item.operationType,
+      entityId: item.entityId,
+      field: item.field || null,
+      lastError: item.lastError || null,
+      lastErrorCode: item.lastErrorCode || null
+    });
+    return {
+      table: item.table,
+      entityId: item.entityId,
+      operationType: item.operationType,
+      ...(item.field !== undefined ? { field: item.field } : {}),
+      ...(item.value !== undefined ? { value: item.value } : {}),
+      queuedAt: item.timestamp,
+      failedAt,
+      lastError: item.lastError ?? 'Unknown error',
+      attempts: item.attempts ?? []
+    };
+  });
+
+  await db.transaction('rw', [db.table('syncQueue'), db.table(TABLE.DEAD_LETTERS)], async () => {
+    await db.table(TABLE.DEAD_LETTERS).bulkAdd(deadLetters);
+    await db.table('syncQueue').bulkDelete(failedItems.map((item) => item.id!));
+  });
 
   return {
     count: failedItems.length,
@@ -807,37 +1234,56 @@ export async function bulkRemoveSyncItems(ids: number[]): Promise<void> {
 
 /**
  * Increment the retry counter and record the current time as the last retry
- * attempt for a sync operation that failed to push.
+ * attempt for a sync operation that failed to push, along with its error and
+ * the time of the next retry under the table's retry policy.
  *
  * The `timestamp` field is intentionally *not* modified -- it must be preserved
  * to maintain correct operation ordering during coalescing and sync. Only
- * `lastRetryAt` is updated, which is used exclusively by the backoff logic
- * in {@link shouldRetryItem}.
+ * `lastRetryAt` and `nextRetryAt` are updated, which are used by the backoff
+ * logic in {@link shouldRetryItem}.
  *
- * @param id - The auto-increment primary key of the sync queue row.
+ * @param id    - The auto-increment primary key of the sync queue row.
+ * @param error - The error message of the failed attempt — kept as `lastError`
+ *                and appended to the item's `attempts` history.
+ * @param code  - The error's code (SQLSTATE, PostgREST code or HTTP status),
+ *                matched against the policy's `permanentErrors`.
  *
  * @example
  * ```ts
  * try {
  *   await pushToServer(op);
- * } catch {
- *   await incrementRetry(op.id!);
+ * } catch (e) {
+ *   await incrementRetry(op.id!, String(e));
  * }
  * ```
  *
- * @see {@link shouldRetryItem} which reads `retries` and `lastRetryAt` for backoff.
+ * @see {@link shouldRetryItem} which reads `retries` and `nextRetryAt` for backoff.
  */
-export async function incrementRetry(id: number): Promise<void> {
+export async function incrementRetry(
+  id: number,
+  error = 'Unknown error',
+  code?: string
+): Promise<void> {
   const db = getDb();
-  const item = await db.table('syncQueue').get(id);
+  const item = (await db.table('syncQueue').get(id)) as SyncOperationItem | undefined;
   if (item) {
-    /* Update retry count and lastRetryAt for exponential backoff calculation.
+    /* Update retry count and lastRetryAt for the backoff calculation.
        Note: timestamp is preserved to maintain operation ordering.
        lastRetryAt is always set to the current time so the backoff delay
-       is measured from the most recent failed attempt. */
+       is measured from the most recent failed attempt. The delay is drawn
+       once here, so jitter does not change it on every queue read. */
+    const now = Date.now();
+    const at = new Date(now).toISOString();
+    const retries = item.retries + 1;
+    const delay = getRetryDelay(getRetryPolicy(item.table), retries);
+    const attempt = code !== undefined ? { at, error, code } : { at, error };
     await db.table('syncQueue').update(id, {
-      retries: item.retries + 1,
-      lastRetryAt: new Date().toISOString()
+      retries,
+      lastRetryAt: at,
+      nextRetryAt: new Date(now + delay).toISOString(),
+      lastError: error,
+      lastErrorCode: code,
+      attempts: [...(item.attempts ?? []), attempt].slice(-MAX_ATTEMPT_HISTORY)
     });
   }
 }
@@ -88,6 +88,11 @@ import { getPendingEntityIds } from './queue';
 import { remoteChangesStore } from './stores/remoteChanges';
 import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { isDemoMode } from './demo';
+import { updateSearchIndex } from './search';
+import { recordVersion } from './versions';
+import { decryptRow } from './encryption';
+import { evictRows, matchesSyncFilter } from './syncFilter';
+import { isTableReplicated } from './tableHydration';
 
 // =============================================================================
 // CONSTANTS
@@ -600,10 +605,13 @@ async function handleRealtimeChange(
 ): Promise<void> {
   const eventType = payload.eventType;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const newRecord = (payload as any).new as Record<string, unknown> | null;
+  const receivedRecord = (payload as any).new as Record<string, unknown> | null;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const oldRecord = (payload as any).old as Record<string, unknown> | null;
 
+  /* Encrypted fields arrive as ciphertext; everything below works on plaintext. */
+  const newRecord = receivedRecord && (await decryptRow(table, receivedRecord));
+
   /* For DELETEs, Supabase only populates `old`; for INSERTs only `new`.
      UPDATEs populate both. We need the ID from whichever is available. */
   const entityId = (newRecord?.id || oldRecord?.id) as string;
@@ -674,6 +682,29 @@ async function handleRealtimeChange(
         /* Fetch the local version so we can diff fields and detect conflicts. */
         const localEntity = await getDb().table(dexieTable).get(entityId);
 
+        /* ---- Hydration mode ----
+           Tables that sync does not keep current (lazy tables not loaded yet,
+           `hydration: 'none'` tables) only track rows already cached. */
+        if (!localEntity && !isTableReplicated(table)) {
+          debugLog(`[Realtime] Skipping uncached row of unloaded table: ${table}/${entityId}`);
+          break;
+        }
+
+        /* ---- Sync filter ----
+           Rows outside the table's replicated window are not stored. If this
+           change moved a local row out of the window, evict the local copy
+           (kept while it still has unpushed changes). */
+        if (!matchesSyncFilter(table, newRecord)) {
+          const evicted = localEntity ? await evictRows(table, [entityId]) : 0;
+          if (evicted > 0) {
+            debugLog(`[Realtime] Evicted ${table}/${entityId}: outside sync filter`);
+            recentlyProcessedByRealtime.set(entityId, Date.now());
+            notifyDataUpdate(entityTypeKey, entityId);
+          }
+          /* Otherwise unpushed changes kept the row — merge as usual. */
+          if (!localEntity || evicted > 0) break;
+        }
+
         /* Build a list of fields whose values actually differ between local
            and remote. We skip metadata fields (updated_at, _version) because
            they always change and would produce noisy animations. These fields
@@ -714,7 +745,9 @@ async function handleRealtimeChange(
           await remoteChangesStore.markPendingDelete(entityId, entityTypeKey);
 
           /* Now persist the soft-deleted record; reactive stores refresh. */
+          await recordVersion(table, localEntity, 'remote');
           await getDb().table(dexieTable).put(newRecord);
+          await updateSearchIndex(table, [entityId]);
 
           recentlyProcessedByRealtime.set(entityId, Date.now());
           notifyDataUpdate(entityTypeKey, entityId);
@@ -751,6 +784,7 @@ async function handleRealtimeChange(
           const remoteUpdatedAt = new Date(newRecord.updated_at as string).getTime();
 
           if (remoteUpdatedAt > localUpdatedAt) {
+            await recordVersion(table, localEntity, 'remote');
             await getDb().table(dexieTable).put(newRecord);
             applied = true;
           }
@@ -768,6 +802,7 @@ async function handleRealtimeChange(
             pendingOps
           );
 
+          await recordVersion(table, localEntity, 'conflict');
           await getDb().table(dexieTable).put(resolution.mergedEntity);
           applied = true;
 
@@ -779,6 +814,8 @@ async function handleRealtimeChange(
           }
         }
 
+        if (applied) await updateSearchIndex(table, [entityId]);
+
         /* ---- Value delta for counter animations ----
            If the `current_value` field changed, compute the delta so the UI
            can show an increment/decrement animation (e.g. "+1" / "-3").
@@ -847,6 +884,7 @@ async function handleRealtimeChange(
 
           /* Now remove the record from Dexie (triggers reactive DOM removal). */
           await getDb().table(dexieTable).delete(entityId);
+          await updateSearchIndex(table, [entityId]);
 
           recentlyProcessedByRealtime.set(entityId, Date.now());
 
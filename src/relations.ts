@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Relation Loading for Local Reads
+ *
+ * Resolves the relations declared through `ownership: { parent, fk }` in the
+ * schema and attaches related rows to entities returned by `engineGet`,
+ * `queryOne` and `queryAll` when they pass an `include` option:
+ *
+ * ```ts
+ * const list = await engineGet('goal_lists', listId, { include: ['goals'] });
+ * // → { id, name, ..., goals: [ ...non-deleted goals sorted by order ] }
+ *
+ * const goals = await queryAll('goals', { include: ['goal_list'] });
+ * // → [{ id, title, ..., goal_list: { id, name, ... } | null }, ...]
+ * ```
+ *
+ * Relation names come from {@link getSchemaRelations}: a child table exposes
+ * its parent under the FK name without `_id`, and a parent exposes its
+ * children under the child table's schema key.
+ *
+ * Related rows are read from IndexedDB only, with one batched lookup per
+ * relation regardless of how many entities are being decorated. Results are
+ * returned as new objects so relation properties never leak into entities
+ * that callers pass back to `engineUpdate`.
+ *
+ * @see {@link ./schema} for relation derivation and generated relation types
+ * @see {@link ./data} for the read APIs that accept `include`
+ */
+
+import { findTableConfig, getDexieTableFor, getEngineConfig } from './config';
+import { getDb } from './database';
+import { query } from './query';
+import { getSchemaRelations } from './schema';
+import type { SchemaRelation } from './schema';
+import { compareOrder } from './utils';
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+/**
+ * Look up a declared relation by name.
+ *
+ * @param table - Supabase table name or schema key of the entities.
+ * @param name  - Relation name passed in `include`.
+ * @returns The relation.
+ * @throws {Error} If the table has no relation with that name.
+ */
+function resolveRelation(table: string, name: string): SchemaRelation {
+  const schema = getEngineConfig().schema;
+  const schemaKey = findTableConfig(table)?.schemaKey ?? table;
+  const relation = schema
+    ? getSchemaRelations(schema)[schemaKey]?.find((r) => r.name === name)
+    : undefined;
+  if (!relation) {
+    throw new Error(
+      `Unknown relation "${name}" on table ${table}. Relations are derived from ` +
+        'schema `ownership: { parent, fk }` declarations.'
+    );
+  }
+  return relation;
+}
+
+/**
+ * Sort rows by `order` — numeric or order key — with {@link compareOrder}, as
+ * `queryAll` does. Rows that both lack an `order` keep their relative
+ * position, so tables without one stay in the order they were read in.
+ */
+export function byOrder(a: Record<string, unknown>, b: Record<string, unknown>): number {
+  if (a.order == null && b.order == null) return 0;
+  return compareOrder(a, b);
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+/**
+ * Return copies of `rows` with the requested relations attached.
+ *
+ * - **children** relations become arrays of non-deleted child rows sorted by
+ *   `order` (empty when there are none).
+ * - **parent** relations become the parent row, or `null` when the FK is
+ *   empty or the parent is missing locally or soft-deleted.
+ *
+ * @param table   - Supabase table name or schema key of `rows`.
+ * @param rows    - The entities to decorate.
+ * @param include - Relation names to load.
+ * @returns New entity objects with one extra property per relation.
+ * @throws {Error} If any name in `include` is not a declared relation.
+ */
+export async function loadRelations<T extends Record<string, unknown>>(
+  table: string,
+  rows: T[],
+  include: string[]
+): Promise<T[]> {
+  const relations = include.map((name) => resolveRelation(table, name));
+  if (rows.length === 0 || relations.length === 0) return rows;
+
+  const results = rows.map((row) => ({ ...row })) as Record<string, unknown>[];
+
+  for (const relation of relations) {
+    if (relation.kind === 'children') {
+      const ids = results.map((row) => row.id as string);
+      const children = await query(relation.table).where(relation.fk, 'in', ids).toArray();
+      const byParent = new Map<unknown, Record<string, unknown>[]>();
+      for (const child of children) {
+        const key = child[relation.fk];
+        if (!byParent.has(key)) byParent.set(key, []);
+        byParent.get(key)!.push(child);
+      }
+      for (const row of results) {
+        row[relation.name] = (byParent.get(row.id) ?? []).sort(byOrder);
+      }
+    } else {
+      const parentIds = [
+        ...new Set(
+          results
+            .map((row) => row[relation.fk])
+            .filter((id): id is string => typeof id === 'string')
+        )
+      ];
+      const tableConfig = findTableConfig(relation.table);
+      const dexieTable = tableConfig ? getDexieTableFor(tableConfig) : relation.table;
+      const parents = (await getDb().table(dexieTable).bulkGet(parentIds)) as Array<
+        Record<string, unknown> | undefined
+      >;
+      const byId = new Map<string, Record<string, unknown>>();
+      parents.forEach((parent, i) => {
+        if (parent && !parent.deleted) byId.set(parentIds[i], parent);
+      });
+      for (const row of results) {
+        row[relation.name] = byId.get(row[relation.fk] as string) ?? null;
+      }
+    }
+  }
+
+  return results as T[];
+}
+
+// =============================================================================
+// CASCADE
+// =============================================================================
+
+/**
+ * Collect every non-deleted descendant of an entity by walking `children`
+ * relations recursively (children, grandchildren, ...).
+ *
+ * One batched lookup is made per child table per level. The result is ordered
+ * deepest level first, so deleting in that order never leaves a live child
+ * under a tombstoned parent.
+ *
+ * @param table - Supabase table name or schema key of the root entity.
+ * @param id    - Primary key of the root entity.
+ * @returns Descendants as `{ table, id }` pairs, where `table` is the schema key.
+ */
+export async function collectDescendants(
+  table: string,
+  id: string
+): Promise<Array<{ table: string; id: string }>> {
+  const schema = getEngineConfig().schema;
+  if (!schema) return [];
+  const relations = getSchemaRelations(schema);
+
+  const levels: Array<Array<{ table: string; id: string }>> = [];
+  const seen = new Set<string>();
+  let frontier = [{ table: findTableConfig(table)?.schemaKey ?? table, id }];
+
+  while (frontier.length > 0) {
+    const next: Array<{ table: string; id: string }> = [];
+    const idsByTable = new Map<string, string[]>();
+    for (const node of frontier) {
+      if (!idsByTable.has(node.table)) idsByTable.set(node.table, []);
+      idsByTable.get(node.table)!.push(node.id);
+    }
+
+    for (const [parentTable, ids] of idsByTable) {
+      for (const relation of relations[parentTable] ?? []) {
+        if (relation.kind !== 'children') continue;
+        const children = await query(relation.table).where(relation.fk, 'in', ids).toArray();
+        for (const child of children) {
+          const key = `${relation.table}:${child.id}`;
+          /* Guards against self-referencing ownership cycles. */
+          if (seen.has(key)) continue;
+          seen.add(key);
+          next.push({ table: relation.table, id: child.id as string });
+        }
+      }
+    }
+
+    if (next.length > 0) levels.push(next);
+    frontier = next;
+  }
+
+  return levels.reverse().flat();
+}
@@ -69,7 +69,12 @@ export interface SQLGenerationOptions {
   prefix?: string;
   /** Include trusted_devices table. @default true */
   includeDeviceVerification?: boolean;
-  /** Include helper trigger functions (set_user_id, update_updated_at_column). @default true */
+  /**
+   * Include helper functions (set_user_id, update_updated_at_column, the
+   * stellar_apply_intent RPC used to push array/toggle/patch operations, and
+   * the stellar_push_rows RPC that attributes a failed batch push to its
+   * rows). @default true
+   */
   includeHelperFunctions?: boolean;
   /**
    * Storage buckets to create in Supabase Storage.
@@ -97,6 +102,24 @@ export interface TypeScriptGenerationOptions {
   header?: string;
   /** Whether to include system columns in generated interfaces. @default true */
   includeSystemColumns?: boolean;
+  /**
+   * Whether to emit a `<Name>Relations` interface per table describing the
+   * relations loadable via `include` (see {@link getSchemaRelations}). @default true
+   */
+  includeRelations?: boolean;
+}
+
+/**
+ * Options for controlling typed repository generation.
+ */
+export interface RepositoryGenerationOptions {
+  /** Header comment at the top of the generated file. */
+  header?: string;
+  /**
+   * Module specifier the generated file imports its entity types from.
+   * @default './types.generated'
+   */
+  typesImport?: string;
 }
 
 // =============================================================================
@@ -347,7 +370,8 @@ function mapFieldToTS(
     uuid: 'string',
     date: 'string',
     timestamp: 'string',
-    json: 'unknown'
+    json: 'unknown',
+    orderKey: 'string'
   };
 
   const tsBase = typeMap[base] ?? 'string';
@@ -377,7 +401,9 @@ function mapFieldToSQL(field: FieldType, fieldName: string): string {
     date: 'date',
     timestamp: 'timestamptz',
     boolean: 'boolean',
-    json: 'jsonb'
+    json: 'jsonb',
+    /* Byte-wise collation, so Postgres orders keys exactly like clients do. */
+    orderKey: 'text collate "C"'
   };
 
   if (base === 'number') {
@@ -401,12 +427,75 @@ function mapFieldToSQL(field: FieldType, fieldName: string): string {
   return nullable ? 'text' : 'text not null';
 }
 
+// =============================================================================
+// Relations
+// =============================================================================
+
+/**
+ * A relation between two tables, derived from a child table's
+ * `ownership: { parent, fk }` declaration.
+ */
+export interface SchemaRelation {
+  /** Property name the related data is attached under. */
+  name: string;
+  /** `'parent'` for a many-to-one link, `'children'` for the one-to-many inverse. */
+  kind: 'parent' | 'children';
+  /** Schema key of the related table. */
+  table: string;
+  /** Foreign key column on the child table. */
+  fk: string;
+}
+
+/**
+ * Derive every table's relations from the `ownership` declarations.
+ *
+ * For `goals: { ownership: { parent: 'goal_lists', fk: 'goal_list_id' } }`:
+ * - `goals` gets a `parent` relation named after the FK without its `_id`
+ *   suffix (`goal_list`), or after the parent table if the FK has no suffix.
+ * - `goal_lists` gets a `children` relation named after the child table (`goals`).
+ *
+ * Relations pointing at tables missing from the schema are ignored.
+ *
+ * @param schema - The declarative schema definition.
+ * @returns Relations keyed by schema key (tables without relations are omitted).
+ *
+ * @example
+ * getSchemaRelations(schema).goal_lists;
+ * // → [{ name: 'goals', kind: 'children', table: 'goals', fk: 'goal_list_id' }]
+ */
+export function getSchemaRelations(schema: SchemaDefinition): Record<string, SchemaRelation[]> {
+  const relations: Record<string, SchemaRelation[]> = {};
+  const add = (table: string, relation: SchemaRelation) => {
+    (relations[table] ??= []).push(relation);
+  };
+
+  for (const [tableName, definition] of Object.entries(schema)) {
+    if (typeof definition === 'string' || typeof definition.ownership !== 'object') continue;
+    const { parent, fk } = definition.ownership;
+    if (!(parent in schema)) continue;
+
+    add(tableName, {
+      name: fk.endsWith('_id') ? fk.slice(0, -3) : parent,
+      kind: 'parent',
+      table: parent,
+      fk
+    });
+    add(parent, { name: tableName, kind: 'children', table: tableName, fk });
+  }
+
+  return relations;
+}
+
 /**
  * Generate TypeScript interfaces and enum types from a schema definition.
  *
  * Only tables with a `fields` property are included. Tables without `fields`
  * are silently skipped (backward-compatible).
  *
+ * For tables linked by `ownership: { parent, fk }`, a `<Name>Relations`
+ * interface is also emitted (e.g., `GoalListRelations { goals: Goal[] }`), so
+ * reads with `include` can be typed as `GoalList & Pick<GoalListRelations, 'goals'>`.
+ *
  * @param schema - The declarative schema definition.
  * @param options - Optional generation options.
  * @returns The generated TypeScript source string.
@@ -431,6 +520,8 @@ export function generateTypeScript(
     fields: { name: string; type: string; optional: boolean }[];
     hasUserOwnership: boolean;
   }[] = [];
+  /* Schema key → generated interface name, for typing relations. */
+  const interfaceNames = new Map<string, string>();
 
   for (const [tableName, definition] of Object.entries(schema)) {
     const config: SchemaTableConfig =
@@ -439,6 +530,7 @@ export function generateTypeScript(
     if (!config.fields) continue;
 
     const interfaceName = config.typeName || singularize(tableName);
+    interfaceNames.set(tableName, interfaceName);
 
     const fieldEntries: { name: string; type: string; optional: boolean }[] = [];
 
@@ -515,6 +607,181 @@ export function generateTypeScript(
     lines.push('');
   }
 
+  /* Emit relation interfaces. Only relations between tables that both have
+     generated interfaces can be typed. */
+  if (options?.includeRelations !== false) {
+    for (const [tableName, relations] of Object.entries(getSchemaRelations(schema))) {
+      const own = interfaceNames.get(tableName);
+      if (!own) continue;
+      const typed = relations.filter((r) => interfaceNames.has(r.table));
+      if (typed.length === 0) continue;
+
+      lines.push(`export interface ${own}Relations {`);
+      for (const relation of typed) {
+        const related = interfaceNames.get(relation.table)!;
+        const type = relation.kind === 'children' ? `${related}[]` : `${related} | null`;
+        lines.push(`  ${relation.name}: ${type};`);
+      }
+      lines.push('}');
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// =============================================================================
+// Repository Generation
+// =============================================================================
+
+/** Columns managed by the engine; never accepted by generated create/update. */
+const REPOSITORY_SYSTEM_COLUMNS = [
+  'id',
+  'created_at',
+  'updated_at',
+  'deleted',
+  '_version',
+  'device_id'
+];
+
+/** Convert a snake_case schema key to a camelCase identifier. */
+function snakeToCamel(s: string): string {
+  const pascal = snakeToPascal(s);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Generate a typed data-access module with one repository object per table.
+ *
+ * Each table that declares `fields` gets an object exposing `create`,
+ * `update`, `get`, `getAll`, `findBy`, `query` and `delete`, all bound to the
+ * table name and typed with the interfaces from {@link generateTypeScript}:
+ * - `create` requires the non-nullable fields that have no SQL default
+ *   (the same rule runtime validation applies) and accepts the rest.
+ * - `update` accepts any subset of the declared fields.
+ * - `findBy` only accepts the table's single-field Dexie indexes, with the
+ *   value typed from the field.
+ * - `get`/`getAll` accept `include` with the table's relation names and
+ *   type the result accordingly.
+ *
+ * @param schema - The declarative schema definition.
+ * @param options - Optional generation options.
+ * @returns The generated TypeScript source string.
+ *
+ * @example
+ * const source = generateRepository(schema, { typesImport: './types.generated' });
+ * // export const goals = { create: (values: GoalCreate) => ..., findBy: ..., ... };
+ *
+ * @see {@link generateTypeScript} for the entity interfaces this module imports
+ */
+export function generateRepository(
+  schema: SchemaDefinition,
+  options?: RepositoryGenerationOptions
+): string {
+  const lines: string[] = [];
+  const header =
+    options?.header ?? '/** AUTO-GENERATED by stellar-drive — do not edit manually. */';
+  const relations = getSchemaRelations(schema);
+
+  /* Interface names, mirroring generateTypeScript's naming. */
+  const interfaceNames = new Map<string, string>();
+  for (const [tableName, definition] of Object.entries(schema)) {
+    if (typeof definition === 'string' || !definition.fields) continue;
+    interfaceNames.set(tableName, definition.typeName || singularize(tableName));
+  }
+
+  const imports = new Set<string>();
+  const body: string[] = [];
+
+  for (const [tableName, name] of interfaceNames) {
+    const config = schema[tableName] as SchemaTableConfig;
+    const fields = config.fields!;
+    imports.add(name);
+
+    /* Required on create: non-nullable, no SQL default (see validation.ts). */
+    const required = Object.entries(fields)
+      .filter(([field, type]) => {
+        if (Array.isArray(type)) return true;
+        if (typeof type === 'object') return !type.nullable;
+        if (type.endsWith('?')) return false;
+        return type !== 'number' && type !== 'boolean' && !config.sqlColumns?.[field];
+      })
+      .map(([field]) => `'${field}'`);
+    const omitted = ['SystemColumn', ...required].join(' | ');
+    const createType = required.length
+      ? `Pick<${name}, ${required.join(' | ')}> & Partial<Omit<${name}, ${omitted}>>`
+      : `Partial<Omit<${name}, SystemColumn>>`;
+
+    const indexFields = parseIndexFields(config.indexes ?? '')
+      .map((f) => f.replace(/^[&*]/, ''))
+      .filter((f) => f in fields);
+    const typedRelations = (relations[tableName] ?? []).filter((r) => interfaceNames.has(r.table));
+    const relationsType = `${name}Relations`;
+    if (typedRelations.length > 0) imports.add(relationsType);
+
+    body.push(`/** Values accepted by \`${snakeToCamel(tableName)}.create\`. */`);
+    body.push(`export type ${name}Create = ${createType} & { id?: string };`);
+    body.push('');
+    body.push(`/** Values accepted by \`${snakeToCamel(tableName)}.update\`. */`);
+    body.push(`export type ${name}Update = Partial<Omit<${name}, SystemColumn>>;`);
+    body.push('');
+    body.push(`/** Typed data access for \`${tableName}\`. */`);
+    body.push(`export const ${snakeToCamel(tableName)} = {`);
+    body.push(`  create: (values: ${name}Create) =>`);
+    body.push(`    data.engineCreate('${tableName}', values) as Promise<Row<${name}>>,`);
+    body.push(`  update: (id: string, fields: ${name}Update) =>`);
+    body.push(
+      `    data.engineUpdate('${tableName}', id, fields) as Promise<Row<${name}> | undefined>,`
+    );
+    if (typedRelations.length > 0) {
+      body.push(
+        `  get: <R extends keyof ${relationsType} = never>(id: string, opts?: { include?: R[] }) =>`
+      );
+      body.push(
+        `    data.queryOne<Row<${name} & Pick<${relationsType}, R>>>('${tableName}', id, opts),`
+      );
+      body.push(
+        `  getAll: <R extends keyof ${relationsType} = never>(opts?: { include?: R[] }) =>`
+      );
+      body.push(
+        `    data.queryAll<Row<${name} & Pick<${relationsType}, R>>>('${tableName}', opts),`
+      );
+    } else {
+      body.push(`  get: (id: string) => data.queryOne<Row<${name}>>('${tableName}', id),`);
+      body.push(`  getAll: () => data.queryAll<Row<${name}>>('${tableName}'),`);
+    }
+    if (indexFields.length > 0) {
+      const indexType = indexFields.map((f) => `'${f}'`).join(' | ');
+      body.push(`  findBy: <K extends ${indexType}>(index: K, value: ${name}[K]) =>`);
+      body.push(
+        `    data.query<Row<${name}>>('${tableName}').where(index, 'eq', value as Row<${name}>[K]).toArray(),`
+      );
+    }
+    body.push(`  query: () => data.query<Row<${name}>>('${tableName}'),`);
+    body.push(
+      `  delete: (id: string, opts?: { cascade?: boolean }) => data.engineDelete('${tableName}', id, opts)`
+    );
+    body.push('};');
+    body.push('');
+  }
+
+  lines.push(header);
+  lines.push('');
+  lines.push("import * as data from 'stellar-drive/data';");
+  if (imports.size > 0) {
+    lines.push(
+      `import type { ${[...imports].join(', ')} } from '${options?.typesImport ?? './types.generated'}';`
+    );
+  }
+  lines.push('');
+  lines.push('/** An entity row as returned by the engine (entity fields plus any extra keys). */');
+  lines.push('type Row<T> = T & Record<string, unknown>;');
+  lines.push('');
+  lines.push('/** Columns managed by the engine — never passed to create/update. */');
+  lines.push(`type SystemColumn = ${REPOSITORY_SYSTEM_COLUMNS.map((c) => `'${c}'`).join(' | ')};`);
+  lines.push('');
+  lines.push(...body);
+
   return lines.join('\n');
 }
 
@@ -534,6 +801,9 @@ export function generateTypeScript(
  *   5. Indexes on `user_id`, `updated_at`, and `deleted` (partial index)
  *   6. `ALTER PUBLICATION` for Supabase realtime subscriptions
  *
+ * Fields listed in `encrypted` are emitted as nullable `text` (they hold
+ * ciphertext), tagged with a column comment, and left out of unique indexes.
+ *
  * @param tableName - The Supabase table name (snake_case).
  * @param config - The per-table configuration (parsed from schema).
  * @param options - Optional generation options.
@@ -574,13 +844,23 @@ function generateTableSQL(
   /* Track which fields have been emitted (to avoid duplicates). */
   const emittedFields = new Set<string>();
 
+  /* Encrypted fields hold ciphertext on the server whatever their declared
+     type, so they are plain nullable text (no default or constraint could
+     apply to ciphertext). */
+  const encryptedFields = new Set(config.encrypted ?? []);
+  const columnType = (field: string, sqlType: string) =>
+    encryptedFields.has(field) ? 'text' : sqlType;
+
   if (config.fields) {
     /* ---- Primary column source: `fields` (with sqlColumns as override) ---- */
     for (const [field, fieldType] of Object.entries(config.fields)) {
       if (SYSTEM_COLUMNS.some(([name]) => name === field)) continue;
 
       /* sqlColumns override takes precedence over FieldType mapping. */
-      const sqlType = config.sqlColumns?.[field] ?? mapFieldToSQL(fieldType, field);
+      const sqlType = columnType(
+        field,
+        config.sqlColumns?.[field] ?? mapFieldToSQL(fieldType, field)
+      );
       const quotedName = quoteIfReserved(field);
       columnDefs.push(`  ${quotedName} ${sqlType}`);
       emittedFields.add(field);
@@ -592,7 +872,7 @@ function generateTableSQL(
         if (emittedFields.has(field)) continue;
         if (SYSTEM_COLUMNS.some(([name]) => name === field)) continue;
         const quotedName = quoteIfReserved(field);
-        columnDefs.push(`  ${quotedName} ${sqlType}`);
+        columnDefs.push(`  ${quotedName} ${columnType(field, sqlType)}`);
         emittedFields.add(field);
       }
     }
@@ -602,7 +882,7 @@ function generateTableSQL(
 
     for (const field of indexFields) {
       if (SYSTEM_COLUMNS.some(([name]) => name === field)) continue;
-      const sqlType = config.sqlColumns?.[field] ?? inferColumnType(field);
+      const sqlType = columnType(field, config.sqlColumns?.[field] ?? inferColumnType(field));
       const quotedName = quoteIfReserved(field);
       columnDefs.push(`  ${quotedName} ${sqlType}`);
       emittedFields.add(field);
@@ -613,7 +893,7 @@ function generateTableSQL(
         if (emittedFields.has(field)) continue;
         if (SYSTEM_COLUMNS.some(([name]) => name === field)) continue;
         const quotedName = quoteIfReserved(field);
-        columnDefs.push(`  ${quotedName} ${sqlType}`);
+        columnDefs.push(`  ${quotedName} ${columnType(field, sqlType)}`);
         emittedFields.add(field);
       }
     }
@@ -653,9 +933,10 @@ function generateTableSQL(
        'not null', 'default', or end of string) and ALTER TYPE if needed.
        ALTER TYPE with USING ensures safe casts (e.g., text→integer). */
     const colTypeLower = colType.toLowerCase();
-    const baseType = colTypeLower
-      .replace(/\s+not\s+null.*$/, '')
-      .replace(/\s+default\s+.*$/, '')
+    /* Strip on the original text — quoted identifiers like `collate "C"` are case-sensitive. */
+    const baseType = colType
+      .replace(/\s+not\s+null.*$/i, '')
+      .replace(/\s+default\s+.*$/i, '')
       .trim();
     if (baseType) {
       lines.push(
@@ -713,6 +994,14 @@ function generateTableSQL(
   lines.push(`  end loop;`);
   lines.push(`end $$;`);
 
+  /* Mark ciphertext columns so they are recognisable in the dashboard. */
+  for (const field of encryptedFields) {
+    if (!emittedFields.has(field)) continue;
+    lines.push(
+      `comment on column ${tableName}.${quoteIfReserved(field)} is 'stellar-drive: encrypted (ciphertext)';`
+    );
+  }
+
   lines.push('');
 
   /* ---- ROW LEVEL SECURITY ---- */
@@ -784,6 +1073,12 @@ function generateTableSQL(
   if (config.uniqueConstraints && config.uniqueConstraints.length > 0) {
     for (const constraint of config.uniqueConstraints) {
       const cols = constraint.columns.join(', ');
+      /* Random-IV ciphertext never repeats, so such an index could not
+         enforce anything — the constraint is checked locally only. */
+      if (constraint.columns.some((column) => encryptedFields.has(column))) {
+        lines.push(`-- unique (${cols}) not indexed: encrypted columns are enforced locally only`);
+        continue;
+      }
       const name = `idx_${tableName}_${constraint.columns.join('_')}_unique`;
       const whereClause = constraint.where ? ` where ${constraint.where}` : '';
       lines.push(
@@ -806,6 +1101,132 @@ function generateTableSQL(
 // Full SQL Generation
 // =============================================================================
 
+/**
+ * SQL for `stellar_apply_intent`, which the sync push calls to apply an
+ * `arrayAdd`, `arrayRemove`, `toggle` or `patch` operation to a column's
+ * current server value (the same rules as `applyFieldOperation` in
+ * `intents.ts`). It runs with the caller's privileges, so RLS applies, and
+ * locks the row while it reads and writes. Returns `false` when no visible
+ * row has the ID.
+ */
+function generateIntentFunctionSQL(): string[] {
+  return [
+    '-- Function to apply an array/toggle/patch intent to the current server value',
+    'create or replace function stellar_apply_intent(',
+    '  p_table text, p_id uuid, p_field text, p_op text, p_value jsonb, p_device_id text',
+    ')',
+    'returns boolean as $$',
+    'declare',
+    '  v_current jsonb;',
+    '  v_next jsonb;',
+    '  v_entry jsonb;',
+    '  v_path text[];',
+    '  v_i integer;',
+    '  v_count integer;',
+    'begin',
+    "  execute format('select to_jsonb(%I) from public.%I where id = $1 for update', p_field, p_table)",
+    '    into v_current using p_id;',
+    '  -- EXECUTE does not set FOUND; the row count tells whether the row is visible',
+    '  get diagnostics v_count = row_count;',
+    '  if v_count = 0 then',
+    '    return false;',
+    '  end if;',
+    '',
+    "  if p_op = 'toggle' then",
+    '    v_next := to_jsonb(not coalesce(v_current::boolean, false));',
+    "  elsif p_op = 'arrayAdd' then",
+    "    v_next := case when jsonb_typeof(v_current) = 'array' then v_current else '[]'::jsonb end;",
+    '    for v_entry in select value from jsonb_array_elements(p_value) loop',
+    '      if not exists (select 1 from jsonb_array_elements(v_next) e where e = v_entry) then',
+    '        v_next := v_next || jsonb_build_array(v_entry);',
+    '      end if;',
+    '    end loop;',
+    "  elsif p_op = 'arrayRemove' then",
+    "    select coalesce(jsonb_agg(e order by i), '[]'::jsonb) into v_next",
+    '    from jsonb_array_elements(',
+    "      case when jsonb_typeof(v_current) = 'array' then v_current else '[]'::jsonb end",
+    '    ) with ordinality as t(e, i)',
+    '    where not exists (select 1 from jsonb_array_elements(p_value) r where r = e);',
+    "  elsif p_op = 'patch' then",
+    "    v_next := case when jsonb_typeof(v_current) in ('object', 'array') then v_current else '{}'::jsonb end;",
+    '    for v_entry in select value from jsonb_array_elements(p_value) loop',
+    "      v_path := array(select jsonb_array_elements_text(v_entry->'path'));",
+    '      if coalesce(array_length(v_path, 1), 0) = 0 then',
+    '        continue;',
+    "      elsif v_entry ? 'value' then",
+    '        for v_i in 1 .. array_length(v_path, 1) - 1 loop',
+    "          if coalesce(jsonb_typeof(v_next #> v_path[1:v_i]), '') not in ('object', 'array') then",
+    "            v_next := jsonb_set(v_next, v_path[1:v_i], '{}'::jsonb, true);",
+    '          end if;',
+    '        end loop;',
+    "        v_next := jsonb_set(v_next, v_path, v_entry->'value', true);",
+    '      else',
+    '        v_next := v_next #- v_path;',
+    '      end if;',
+    '    end loop;',
+    '  else',
+    "    raise exception 'Unknown intent: %', p_op;",
+    '  end if;',
+    '',
+    '  execute format(',
+    "    'update public.%1$I set %2$I = (jsonb_populate_record(null::public.%1$I, $1)).%2$I, device_id = $2 where id = $3',",
+    '    p_table, p_field',
+    '  ) using jsonb_build_object(p_field, v_next), p_device_id, p_id;',
+    '  return true;',
+    'end;',
+    "$$ language plpgsql set search_path = '';",
+    ''
+  ];
+}
+
+/**
+ * SQL for `stellar_push_rows`, which the sync push calls when a multi-row
+ * upsert fails. It upserts each row (only the columns present in it) in its
+ * own savepoint, so one bad row does not roll back the rest, and returns the
+ * rows that failed as `[{ id, code, message }]` (SQLSTATE and message). It
+ * runs with the caller's privileges, so RLS applies; an upsert that RLS
+ * silently turns into a no-op is reported as a `42501` failure.
+ */
+function generatePushRowsFunctionSQL(): string[] {
+  return [
+    '-- Function to upsert a batch of rows one by one, returning the ones that failed',
+    'create or replace function stellar_push_rows(p_table text, p_rows jsonb)',
+    'returns jsonb as $$',
+    'declare',
+    '  v_row jsonb;',
+    '  v_columns text;',
+    '  v_updates text;',
+    '  v_count integer;',
+    "  v_failed jsonb := '[]'::jsonb;",
+    'begin',
+    '  for v_row in select value from jsonb_array_elements(p_rows) loop',
+    '    begin',
+    "      select string_agg(format('%I', k), ', '),",
+    "        coalesce(string_agg(format('%1$I = excluded.%1$I', k), ', ') filter (where k <> 'id'), 'id = excluded.id')",
+    '        into v_columns, v_updates',
+    '        from jsonb_object_keys(v_row) as k;',
+    '      execute format(',
+    "        'insert into public.%1$I (%2$s) select %2$s from jsonb_populate_record(null::public.%1$I, $1) on conflict (id) do update set %3$s',",
+    '        p_table, v_columns, v_updates',
+    '      ) using v_row;',
+    '      -- An update that RLS filters out affects no row without raising',
+    '      get diagnostics v_count = row_count;',
+    '      if v_count = 0 then',
+    "        raise exception 'Row not written: 0 rows affected (row-level security or a trigger)' using errcode = '42501';",
+    '      end if;',
+    '    exception when others then',
+    '      v_failed := v_failed || jsonb_build_object(',
+    "        'id', v_row->>'id', 'code', sqlstate, 'message', sqlerrm",
+    '      );',
+    '    end;',
+    '  end loop;',
+    '  return v_failed;',
+    'end;',
+    "$$ language plpgsql set search_path = '';",
+    ''
+  ];
+}
+
 /**
  * Generate the complete Supabase SQL from a declarative schema definition.
  *
@@ -815,7 +1236,8 @@ function generateTableSQL(
  *
  * The generated SQL includes (in order):
  *   1. Extensions (`uuid-ossp`)
- *   2. Helper functions (`set_user_id`, `update_updated_at_column`)
+ *   2. Helper functions (`set_user_id`, `update_updated_at_column`,
+ *      `stellar_apply_intent`, `stellar_push_rows`)
  *   3. One `CREATE TABLE` block per schema table
  *   4. `trusted_devices` table (unless `includeDeviceVerification` is `false`)
  *
@@ -885,6 +1307,8 @@ export function generateSupabaseSQL(
     parts.push('end;');
     parts.push("$$ language plpgsql set search_path = '';");
     parts.push('');
+    parts.push(...generateIntentFunctionSQL());
+    parts.push(...generatePushRowsFunctionSQL());
   }
 
   /* ---- App Tables ---- */
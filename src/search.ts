@@ -0,0 +1,350 @@
+/**
+ * @fileoverview Local Full-Text Search Index
+ *
+ * Maintains a tokenized inverted index in IndexedDB for tables that declare
+ * `searchable` fields in their schema, and answers ranked prefix queries over
+ * it — fully offline.
+ *
+ * Storage layout (`searchIndex` system table, one row per entity):
+ * ```
+ * { table, entityId, tokens: ['goals:groceri', 'goals:weekly', ...], weights: { groceri: 2, weekly: 1 } }
+ * ```
+ * - `[table+entityId]` is the primary key, so re-indexing an entity is a
+ *   single `put` and removing it a single `delete`.
+ * - `tokens` is a multi-entry index whose values are qualified with the table
+ *   name, so a prefix lookup (`where('tokens').startsWith('goals:gro')`) never
+ *   scans other tables' tokens.
+ * - `weights` holds per-token occurrence counts used for ranking.
+ *
+ * The index is **derived data**: it is refreshed after the owning write has
+ * committed (local CRUD in `data.ts`, realtime applies in `realtime.ts`, pulls
+ * and hydration in `engine.ts`) and can always be rebuilt from the entity
+ * tables with {@link rebuildSearchIndex}. Indexing failures are logged and
+ * swallowed so they can never fail or roll back a user write.
+ *
+ * Ranking is a lightweight TF-IDF: every query term must match (AND
+ * semantics); each term contributes `idf(term) * weight` of its best matching
+ * token, with exact token matches counting double compared to prefix matches.
+ *
+ * @see {@link ./types} for `SchemaTableConfig.searchable`
+ * @see {@link ./data} for the local write paths that feed the index
+ */
+
+import Dexie from 'dexie';
+import { findTableConfig, getDexieTableFor, getEngineConfig, resolveSupabaseName } from './config';
+import { getDb, TABLE } from './database';
+import { debugError, debugLog } from './debug';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** A row in the `searchIndex` system table. */
+interface SearchIndexEntry {
+  /** Supabase table name the entity belongs to. */
+  table: string;
+  /** Primary key of the indexed entity. */
+  entityId: string;
+  /** Table-qualified tokens (`<table>:<token>`), multi-entry indexed. */
+  tokens: string[];
+  /** Occurrence count per (unqualified) token. */
+  weights: Record<string, number>;
+}
+
+/**
+ * Options for {@link engineSearch}.
+ */
+export interface SearchOptions {
+  /** Maximum number of hits to return. @default 20 */
+  limit?: number;
+  /**
+   * Match query terms as token prefixes (`gro` matches `groceries`).
+   * When `false`, only whole tokens match. @default true
+   */
+  prefix?: boolean;
+}
+
+/**
+ * A single ranked search result.
+ *
+ * @typeParam T - The entity type.
+ */
+export interface SearchHit<T> {
+  /** The matching (non-deleted) entity. */
+  entity: T;
+  /** Relevance score; higher is better. Only comparable within one query. */
+  score: number;
+}
+
+// =============================================================================
+// TOKENIZATION
+// =============================================================================
+
+/** Tokens longer than this are truncated; they are almost never typed in full. */
+const MAX_TOKEN_LENGTH = 64;
+
+/**
+ * Split text into normalized search tokens.
+ *
+ * Lowercases, strips diacritics (`café` → `cafe`) and splits on anything that
+ * is not a letter or digit. The same function is used for documents and
+ * queries, so both sides always normalize identically.
+ *
+ * @param text - Raw text.
+ * @returns Tokens in document order (may contain duplicates).
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0)
+    .map((token) => token.slice(0, MAX_TOKEN_LENGTH));
+}
+
+/**
+ * Build the index entry for an entity, or `null` when it should not be
+ * indexed (deleted, or no searchable text).
+ */
+function buildEntry(
+  table: string,
+  fields: string[],
+  row: Record<string, unknown>
+): SearchIndexEntry | null {
+  if (row.deleted) return null;
+
+  const weights: Record<string, number> = {};
+  for (const field of fields) {
+    const value = row[field];
+    const texts = Array.isArray(value) ? value : [value];
+    for (const text of texts) {
+      if (typeof text !== 'string' && typeof text !== 'number') continue;
+      for (const token of tokenize(String(text))) {
+        weights[token] = (weights[token] ?? 0) + 1;
+      }
+    }
+  }
+
+  const tokens = Object.keys(weights);
+  if (tokens.length === 0) return null;
+  return {
+    table,
+    entityId: row.id as string,
+    tokens: tokens.map((token) => `${table}:${token}`),
+    weights
+  };
+}
+
+/** Resolve the searchable fields declared for a table (empty when none). */
+function getSearchFields(table: string): string[] {
+  return findTableConfig(table)?.searchFields ?? [];
+}
+
+// =============================================================================
+// INDEX MAINTENANCE
+// =============================================================================
+
+/**
+ * Re-index the given entities from their current local state.
+ *
+ * Reads each entity from its Dexie table and writes (or removes) its index
+ * entry. Missing and soft-deleted entities are removed from the index. Tables
+ * without `searchable` fields return immediately, so callers can invoke this
+ * unconditionally after any write.
+ *
+ * Never throws — failures are logged and the index can be repaired later
+ * with {@link rebuildSearchIndex}.
+ *
+ * @param table - Supabase table name or schema key.
+ * @param ids   - Primary keys of the entities that changed.
+ */
+export async function updateSearchIndex(table: string, ids: string[]): Promise<void> {
+  const fields = getSearchFields(table);
+  if (fields.length === 0 || ids.length === 0) return;
+
+  try {
+    const db = getDb();
+    const tableConfig = findTableConfig(table)!;
+    const supaTable = tableConfig.supabaseName;
+    const rows = (await db.table(getDexieTableFor(tableConfig)).bulkGet(ids)) as Array<
+      Record<string, unknown> | undefined
+    >;
+
+    const puts: SearchIndexEntry[] = [];
+    const removals: Array<[string, string]> = [];
+    rows.forEach((row, i) => {
+      const entry = row ? buildEntry(supaTable, fields, row) : null;
+      if (entry) puts.push(entry);
+      else removals.push([supaTable, ids[i]]);
+    });
+
+    const index = db.table(TABLE.SEARCH_INDEX);
+    await db.transaction('rw', index, async () => {
+      if (removals.length > 0) await index.bulkDelete(removals);
+      if (puts.length > 0) await index.bulkPut(puts);
+    });
+  } catch (e) {
+    debugError(`[Search] Failed to update index for ${table}:`, e);
+  }
+}
+
+/**
+ * Rebuild the search index from the local entity tables.
+ *
+ * Use after enabling `searchable` on a table that already has data, or to
+ * repair the index. The engine also rebuilds a table automatically the first
+ * time it is searched if its index is empty.
+ *
+ * @param table - Optional Supabase table name or schema key. When omitted,
+ *                every table with `searchable` fields is rebuilt.
+ * @returns The number of entities indexed.
+ *
+ * @example
+ * ```ts
+ * await rebuildSearchIndex('notes');
+ * ```
+ */
+export async function rebuildSearchIndex(table?: string): Promise<number> {
+  const config = getEngineConfig();
+  const db = getDb();
+  const index = db.table(TABLE.SEARCH_INDEX);
+  const targets = config.tables.filter(
+    (t) =>
+      (t.searchFields?.length ?? 0) > 0 &&
+      (!table || t.supabaseName === table || t.schemaKey === table)
+  );
+
+  let indexed = 0;
+  for (const tableConfig of targets) {
+    const supaTable = tableConfig.supabaseName;
+    const rows = (await db.table(getDexieTableFor(tableConfig)).toArray()) as Array<
+      Record<string, unknown>
+    >;
+    const entries = rows
+      .map((row) => buildEntry(supaTable, tableConfig.searchFields!, row))
+      .filter((entry): entry is SearchIndexEntry => entry !== null);
+
+    await db.transaction('rw', index, async () => {
+      await index
+        .where('[table+entityId]')
+        .between([supaTable, Dexie.minKey], [supaTable, Dexie.maxKey])
+        .delete();
+      await index.bulkPut(entries);
+    });
+    indexed += entries.length;
+    debugLog(`[Search] Rebuilt index for ${supaTable}: ${entries.length} entities`);
+  }
+  return indexed;
+}
+
+/**
+ * Tables whose index has been checked for emptiness this session. Used to
+ * trigger a one-time automatic rebuild when `searchable` is added to a table
+ * that already holds data.
+ */
+const verifiedTables = new Set<string>();
+
+// =============================================================================
+// QUERY
+// =============================================================================
+
+/**
+ * Search a table's local full-text index.
+ *
+ * Every term in `text` must match (AND semantics). Terms match token
+ * prefixes by default, so incremental "search as you type" works. Results are
+ * ranked by TF-IDF over the declared `searchable` fields; ties are broken by
+ * entity ID for a stable order. Soft-deleted entities never appear.
+ *
+ * @typeParam T - The entity type.
+ * @param table - Supabase table name or schema key.
+ * @param text  - Free-text query.
+ * @param opts  - Optional limit and prefix mode.
+ * @returns Ranked hits, best first. Empty when the query has no tokens or the
+ *          table declares no `searchable` fields.
+ *
+ * @example
+ * ```ts
+ * import { engineSearch } from 'stellar-drive/data';
+ *
+ * const hits = await engineSearch<Note>('notes', 'groc list', { limit: 10 });
+ * for (const { entity, score } of hits) console.log(entity.title, score);
+ * ```
+ */
+export async function engineSearch<T extends Record<string, unknown>>(
+  table: string,
+  text: string,
+  opts?: SearchOptions
+): Promise<SearchHit<T>[]> {
+  const tableConfig = findTableConfig(table);
+  if (!tableConfig?.searchFields?.length) return [];
+
+  const terms = [...new Set(tokenize(text))];
+  if (terms.length === 0) return [];
+
+  const db = getDb();
+  const supaTable = resolveSupabaseName(table);
+  const index = db.table(TABLE.SEARCH_INDEX);
+  const tableRange = index
+    .where('[table+entityId]')
+    .between([supaTable, Dexie.minKey], [supaTable, Dexie.maxKey]);
+
+  /* One-time self-heal: an empty index for a table that has rows means the
+     data predates the `searchable` declaration. */
+  if (!verifiedTables.has(supaTable)) {
+    verifiedTables.add(supaTable);
+    if ((await tableRange.count()) === 0) await rebuildSearchIndex(supaTable);
+  }
+
+  const prefix = opts?.prefix ?? true;
+  const totalDocs = await tableRange.count();
+
+  /* Gather matches per term, intersecting as we go. */
+  const candidates = new Map<string, SearchIndexEntry>();
+  const docFrequency = new Map<string, number>();
+  for (const term of terms) {
+    const key = `${supaTable}:${term}`;
+    const clause = index.where('tokens');
+    const entries = (await (prefix ? clause.startsWith(key) : clause.equals(key))
+      .distinct()
+      .toArray()) as SearchIndexEntry[];
+    docFrequency.set(term, entries.length);
+
+    if (term === terms[0]) {
+      for (const entry of entries) candidates.set(entry.entityId, entry);
+    } else {
+      const matched = new Set(entries.map((entry) => entry.entityId));
+      for (const id of [...candidates.keys()]) if (!matched.has(id)) candidates.delete(id);
+    }
+    if (candidates.size === 0) return [];
+  }
+
+  /* Score each candidate. */
+  const scored = [...candidates.values()].map((entry) => {
+    let score = 0;
+    for (const term of terms) {
+      const idf = Math.log(1 + totalDocs / Math.max(1, docFrequency.get(term)!));
+      let best = 0;
+      for (const [token, weight] of Object.entries(entry.weights)) {
+        if (token === term) best = Math.max(best, weight * 2);
+        else if (prefix && token.startsWith(term)) best = Math.max(best, weight);
+      }
+      score += idf * best;
+    }
+    return { entityId: entry.entityId, score };
+  });
+  scored.sort((a, b) => b.score - a.score || (a.entityId < b.entityId ? -1 : 1));
+
+  const top = scored.slice(0, Math.max(1, opts?.limit ?? 20));
+  const rows = (await db
+    .table(getDexieTableFor(tableConfig))
+    .bulkGet(top.map((s) => s.entityId))) as Array<T | undefined>;
+
+  const hits: SearchHit<T>[] = [];
+  top.forEach((s, i) => {
+    const entity = rows[i];
+    if (entity && !entity.deleted) hits.push({ entity, score: s.score });
+  });
+  return hits;
+}
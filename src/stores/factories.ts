@@ -9,13 +9,30 @@
  * Both factories produce stores that follow the Svelte store contract
  * (`subscribe`/`unsubscribe`) and expose a read-only `loading` sub-store.
  *
+ * {@link createLiveQueryStore} is the push-based alternative: instead of
+ * waiting for `onSyncComplete`, it observes the Dexie tables its query reads
+ * and re-runs whenever any of them is written.
+ *
  * @see {@link ../engine} for `onSyncComplete` lifecycle hook
  */
 
 import { writable } from 'svelte/store';
+import { liveQuery } from 'dexie';
+import { debugError } from '../debug';
 import { onSyncComplete } from '../engine';
-import { engineCreate, engineUpdate, engineDelete, reorderEntity, prependOrder } from '../data';
-import { generateId, now } from '../utils';
+import {
+  engineCreate,
+  engineUpdate,
+  engineDelete,
+  enginePaginate,
+  engineAggregate,
+  reorderEntity,
+  prependOrder,
+  prependOrderKey
+} from '../data';
+import type { AggregateGroup, AggregateOptions, PaginateOptions } from '../data';
+import { findTableConfig } from '../config';
+import { compareOrder, generateId, now, orderKeyBetween } from '../utils';
 import { remoteChangesStore } from './remoteChanges';
 
 // =============================================================================
@@ -179,6 +196,208 @@ export function createCollectionStore<T>(config: CollectionStoreConfig<T>): Coll
   };
 }
 
+// =============================================================================
+// Infinite Collection Store Factory
+// =============================================================================
+
+/**
+ * Configuration for creating an infinite-scroll collection store.
+ *
+ * @typeParam T - The entity type stored in the collection.
+ */
+export interface InfiniteCollectionStoreConfig<T> extends Pick<
+  PaginateOptions<T>,
+  'orderBy' | 'direction' | 'pageSize' | 'filter'
+> {
+  /** The Supabase table name to paginate over. */
+  table: string;
+}
+
+/**
+ * A reactive collection store that loads pages on demand and keeps the
+ * already-loaded window live while sync writes to the table.
+ *
+ * @typeParam T - The entity type stored in the collection.
+ */
+export interface InfiniteCollectionStore<T> {
+  /** Standard Svelte store subscribe method. */
+  subscribe: (run: (value: T[]) => void) => () => void;
+
+  /** Read-only loading sub-store (first page). */
+  loading: { subscribe: (run: (value: boolean) => void) => () => void };
+
+  /** Read-only sub-store that is `true` while a further page is loading. */
+  loadingMore: { subscribe: (run: (value: boolean) => void) => () => void };
+
+  /** Read-only sub-store that is `false` once the last page has been loaded. */
+  hasMore: { subscribe: (run: (value: boolean) => void) => () => void };
+
+  /** Load the first page, discarding anything loaded before. */
+  load(): Promise<void>;
+
+  /** Append the next page. No-op while a page is loading or when exhausted. */
+  loadMore(): Promise<void>;
+
+  /** Stop observing the table and clear the loaded rows. */
+  reset(): void;
+}
+
+/**
+ * Create an infinite-scroll collection store backed by {@link enginePaginate}.
+ *
+ * Pages are read with keyset cursors, so only the rows on screen are held in
+ * memory. Once at least one page is loaded, the store observes the loaded
+ * window (from the first row through the last loaded cursor) with Dexie's
+ * `liveQuery`. Rows that sync inserts inside the window appear in place,
+ * deleted rows disappear, and rows beyond the window wait for `loadMore()`.
+ * This keeps the list correct without ever shifting page boundaries.
+ *
+ * @typeParam T - The entity type stored in the collection.
+ * @param config - Table, ordering, page size and optional filter.
+ * @returns An `InfiniteCollectionStore<T>` instance.
+ *
+ * @example
+ * ```ts
+ * import { createInfiniteCollectionStore } from 'stellar-drive/stores';
+ *
+ * const transactions = createInfiniteCollectionStore<Transaction>({
+ *   table: 'transactions',
+ *   orderBy: 'date',
+ *   direction: 'desc',
+ *   pageSize: 100
+ * });
+ *
+ * await transactions.load();
+ * // On scroll near the bottom:
+ * await transactions.loadMore();
+ * ```
+ *
+ * @see {@link createCollectionStore} for small tables loaded in full
+ */
+export function createInfiniteCollectionStore<T extends Record<string, unknown>>(
+  config: InfiniteCollectionStoreConfig<T>
+): InfiniteCollectionStore<T> {
+  const { table, ...pageOpts } = config;
+  const { subscribe, set, update } = writable<T[]>([]);
+  const loading = writable<boolean>(true);
+  const loadingMore = writable<boolean>(false);
+  const hasMore = writable<boolean>(true);
+
+  /* Cursor of the last loaded row, and whether another page exists after it. */
+  let endCursor: string | null = null;
+  let exhausted = false;
+  let pending = false;
+  /* Bumped on every load()/reset() so stale page results are discarded. */
+  let generation = 0;
+  let windowSubscription: { unsubscribe(): void } | null = null;
+
+  /**
+   * (Re)start the live observation of rows up to `endCursor`. A one-row probe
+   * past the boundary is read in the same live query so `hasMore` flips back
+   * to `true` when sync appends rows after the last loaded page.
+   */
+  function observeWindow(): void {
+    windowSubscription?.unsubscribe();
+    windowSubscription = null;
+    if (typeof window === 'undefined') return;
+
+    /* Nothing loaded yet (empty table): watch the first page instead, and
+       switch to window mode as soon as sync brings in the first rows. */
+    if (!endCursor) {
+      windowSubscription = liveQuery(() => enginePaginate<T>(table, pageOpts)).subscribe({
+        next: (page) => {
+          if (!page.endCursor) return;
+          set(page.items);
+          endCursor = page.endCursor;
+          observeWindow();
+        },
+        error: (err) => debugError(`[InfiniteStore] First page refresh failed for ${table}:`, err)
+      });
+      return;
+    }
+
+    const until = endCursor;
+    windowSubscription = liveQuery(async () => {
+      const loaded = await enginePaginate<T>(table, { ...pageOpts, until });
+      const probe = await enginePaginate<T>(table, { ...pageOpts, after: until, pageSize: 1 });
+      return { items: loaded.items, more: probe.items.length > 0 };
+    }).subscribe({
+      next: ({ items, more }) => {
+        set(items);
+        exhausted = !more;
+        hasMore.set(more);
+      },
+      error: (err) => debugError(`[InfiniteStore] Window refresh failed for ${table}:`, err)
+    });
+  }
+
+  /** Fetch the page after `endCursor` and append it. */
+  async function fetchPage(append: boolean): Promise<void> {
+    const run = generation;
+    const page = await enginePaginate<T>(table, { ...pageOpts, after: endCursor });
+    if (run !== generation) return;
+
+    if (append) {
+      update((items) => [...items, ...page.items]);
+    } else {
+      set(page.items);
+    }
+    exhausted = page.nextCursor === null;
+    hasMore.set(!exhausted);
+
+    /* Track the last row even on the final page so the live window still
+       covers it; an empty page keeps the previous boundary. */
+    endCursor = page.endCursor ?? endCursor;
+    observeWindow();
+  }
+
+  return {
+    subscribe,
+    loading: { subscribe: loading.subscribe },
+    loadingMore: { subscribe: loadingMore.subscribe },
+    hasMore: { subscribe: hasMore.subscribe },
+
+    async load(): Promise<void> {
+      generation++;
+      windowSubscription?.unsubscribe();
+      windowSubscription = null;
+      endCursor = null;
+      exhausted = false;
+      pending = true;
+      loading.set(true);
+      try {
+        await fetchPage(false);
+      } finally {
+        pending = false;
+        loading.set(false);
+      }
+    },
+
+    async loadMore(): Promise<void> {
+      if (pending || exhausted) return;
+      pending = true;
+      loadingMore.set(true);
+      try {
+        await fetchPage(true);
+      } finally {
+        pending = false;
+        loadingMore.set(false);
+      }
+    },
+
+    reset(): void {
+      generation++;
+      windowSubscription?.unsubscribe();
+      windowSubscription = null;
+      endCursor = null;
+      exhausted = false;
+      set([]);
+      hasMore.set(true);
+      loading.set(true);
+    }
+  };
+}
+
 // =============================================================================
 // Detail Store Factory
 // =============================================================================
@@ -326,10 +545,10 @@ export interface CrudCollectionStore<T> extends CollectionStore<T> {
    * Reorder an entity to a new position.
    *
    * @param id       - The primary key of the entity to reorder.
-   * @param newOrder - The new order value.
+   * @param newOrder - The new order value (a string key on `'orderKey'` tables).
    * @returns The updated entity, or `undefined` if not found.
    */
-  reorder(id: string, newOrder: number): Promise<T | undefined>;
+  reorder(id: string, newOrder: number | string): Promise<T | undefined>;
 }
 
 /**
@@ -397,13 +616,16 @@ export function createCrudCollectionStore<T extends Record<string, unknown>>(
       const timestamp = now();
 
       /* Compute prepend order if an index field is configured. */
-      let order = (data as Record<string, unknown>).order as number | undefined;
+      let order = (data as Record<string, unknown>).order as number | string | undefined;
       if (order === undefined && config.orderIndexField) {
         const indexValue = (data as Record<string, unknown>)[config.orderIndexField] as string;
+        const useKeys = !!findTableConfig(config.table)?.orderKeys;
         if (indexValue) {
-          order = await prependOrder(config.table, config.orderIndexField, indexValue);
+          order = useKeys
+            ? await prependOrderKey(config.table, config.orderIndexField, indexValue)
+            : await prependOrder(config.table, config.orderIndexField, indexValue);
         } else {
-          order = 0;
+          order = useKeys ? orderKeyBetween(null, null) : 0;
         }
       }
 
@@ -439,20 +661,160 @@ export function createCrudCollectionStore<T extends Record<string, unknown>>(
       mutate((items) => items.filter((item) => (item as Record<string, unknown>).id !== id));
     },
 
-    async reorder(id: string, newOrder: number): Promise<T | undefined> {
+    async reorder(id: string, newOrder: number | string): Promise<T | undefined> {
       const updated = await reorderEntity<T>(config.table, id, newOrder);
       if (updated) {
         mutate((items) =>
           items
             .map((item) => ((item as Record<string, unknown>).id === id ? updated : item))
-            .sort(
-              (a, b) =>
-                (((a as Record<string, unknown>).order as number) ?? 0) -
-                (((b as Record<string, unknown>).order as number) ?? 0)
-            )
+            .sort(compareOrder)
         );
       }
       return updated;
     }
   };
 }
+
+// =============================================================================
+// Live Query Store Factory
+// =============================================================================
+
+/**
+ * Configuration for creating a live query store.
+ *
+ * @typeParam T - The value produced by the query (usually an entity array).
+ */
+export interface LiveQueryStoreConfig<T> {
+  /**
+   * Function that reads from the local DB. Every Dexie table (and key range)
+   * it touches is observed; a write to any of them re-runs the function.
+   *
+   * Must only read through IndexedDB — do not enable `remoteFallback` here,
+   * because network calls inside a live query escape Dexie's observation.
+   */
+  query: () => T | Promise<T>;
+
+  /** Value emitted before the first query result arrives. */
+  initial: T;
+}
+
+/**
+ * A read-only reactive store whose value is kept in sync with IndexedDB.
+ *
+ * @typeParam T - The value produced by the query.
+ */
+export interface LiveQueryStore<T> {
+  /** Standard Svelte store subscribe method. */
+  subscribe: (run: (value: T) => void) => () => void;
+
+  /** Read-only loading sub-store; `false` once the first result has arrived. */
+  loading: { subscribe: (run: (value: boolean) => void) => () => void };
+
+  /** Read-only sub-store holding the last query error, or `null`. */
+  error: { subscribe: (run: (value: unknown) => void) => () => void };
+}
+
+/**
+ * Create a store that re-runs its query whenever the data it reads changes.
+ *
+ * Built on Dexie's `liveQuery`, which records the tables and key ranges the
+ * query reads and re-executes it after any committed write that overlaps
+ * them. Because every engine write path goes through Dexie, this covers:
+ * - local writes (`engineCreate`, `engineUpdate`, `engineBatchWrite`, ...),
+ * - realtime applies from other devices,
+ * - sync pulls and hydration,
+ * - writes made in **other tabs** of the same origin (Dexie propagates
+ *   mutations between tabs via `BroadcastChannel`).
+ *
+ * The observation is lazy: it starts with the first subscriber and stops
+ * when the last one unsubscribes, so no explicit `load()` call is needed.
+ *
+ * @typeParam T - The value produced by the query.
+ * @param config - Configuration with a `query` function and an `initial` value.
+ * @returns A `LiveQueryStore<T>` instance.
+ *
+ * @example
+ * ```ts
+ * import { createLiveQueryStore } from 'stellar-drive/stores';
+ * import { query } from 'stellar-drive/data';
+ *
+ * const openTasks = createLiveQueryStore<Task[]>({
+ *   query: () => query<Task>('tasks').where('completed', 'eq', false).orderBy('order').toArray(),
+ *   initial: []
+ * });
+ *
+ * // $openTasks updates as soon as any component writes to `tasks`.
+ * ```
+ *
+ * @see {@link createCollectionStore} for the pull-based, sync-complete variant
+ */
+export function createLiveQueryStore<T>(config: LiveQueryStoreConfig<T>): LiveQueryStore<T> {
+  const loading = writable<boolean>(true);
+  const error = writable<unknown>(null);
+
+  const { subscribe } = writable<T>(config.initial, (set) => {
+    /* IndexedDB only exists in the browser; during SSR keep the initial value. */
+    if (typeof window === 'undefined') {
+      loading.set(false);
+      return;
+    }
+
+    const subscription = liveQuery(config.query).subscribe({
+      next: (value) => {
+        set(value);
+        error.set(null);
+        loading.set(false);
+      },
+      error: (err) => {
+        debugError('[LiveQuery] Query failed:', err);
+        error.set(err);
+        loading.set(false);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  });
+
+  return {
+    subscribe,
+    loading: { subscribe: loading.subscribe },
+    error: { subscribe: error.subscribe }
+  };
+}
+
+// =============================================================================
+// Aggregate Store Factory
+// =============================================================================
+
+/**
+ * Create a store holding the result of {@link engineAggregate}, recomputed
+ * whenever the aggregated table is written (locally, by realtime, by a pull,
+ * or from another tab).
+ *
+ * A thin wrapper over {@link createLiveQueryStore}: the aggregation streams
+ * over a Dexie cursor, so `liveQuery` observes exactly the key ranges it reads.
+ *
+ * @typeParam T - The entity type being aggregated.
+ * @param table - The Supabase table name.
+ * @param opts  - Filter, grouping and the aggregates to compute.
+ * @returns A `LiveQueryStore` of aggregate groups (initially empty).
+ *
+ * @example
+ * ```ts
+ * import { createAggregateStore } from 'stellar-drive/stores';
+ *
+ * const spendByCategory = createAggregateStore<Expense>('expenses', {
+ *   groupBy: 'category',
+ *   sum: ['amount']
+ * });
+ * ```
+ */
+export function createAggregateStore<T extends Record<string, unknown>>(
+  table: string,
+  opts?: AggregateOptions<T>
+): LiveQueryStore<AggregateGroup<T>[]> {
+  return createLiveQueryStore<AggregateGroup<T>[]>({
+    query: () => engineAggregate<T>(table, opts),
+    initial: []
+  });
+}
@@ -5,13 +5,14 @@
  *
  * The plugin hooks into three Vite/Rollup lifecycle events:
  *   - **`buildStart`** — generates `static/sw.js` from the compiled SW template.
- *     When `schema` is enabled, also generates TypeScript types and pushes the
- *     full idempotent schema SQL to Supabase via direct Postgres connection.
+ *     When `schema` is enabled, also generates TypeScript types, a typed
+ *     per-table repository module, and pushes the full idempotent schema SQL
+ *     to Supabase via direct Postgres connection.
  *   - **`closeBundle`** — after Rollup finishes writing chunks, scans the
  *     immutable output directory and writes `asset-manifest.json` listing
  *     all JS/CSS files for the service worker to precache.
  *   - **`configureServer`** (dev only) — watches the schema file and
- *     auto-generates TypeScript types + pushes schema to Supabase
+ *     auto-generates TypeScript types + repository + pushes schema to Supabase
  *     on every save, with 500ms debounce.
  *
  * @example
@@ -87,6 +88,14 @@ export interface SchemaConfig {
    */
   typesOutput?: string;
 
+  /**
+   * Path where the generated typed repository module (per-table
+   * create/update/get/query/delete functions) is written, relative to the
+   * project root. Pass `false` to skip generating it.
+   * @default 'repository.generated.ts' next to {@link SchemaConfig.typesOutput}
+   */
+  repositoryOutput?: string | false;
+
   /**
    * Whether to auto-push schema SQL to Supabase via direct Postgres connection.
    * When `true`, requires `DATABASE_URL` in `.env` and the `postgres`
@@ -139,7 +148,8 @@ export interface SWConfig {
    * full control over paths and behavior.
    *
    * When enabled, the plugin:
-   *   1. On every build (dev or production): generates types + pushes schema SQL
+   *   1. On every build (dev or production): generates types + repository +
+   *      pushes schema SQL
    *   2. During dev: also watches for changes with debounced re-processing
    *
    * @default undefined (disabled)
@@ -234,9 +244,14 @@ function findSwSource(): string {
  */
 function resolveSchemaOpts(schema: boolean | SchemaConfig): ResolvedSchemaConfig {
   if (typeof schema === 'object') {
+    const typesOutput = schema.typesOutput || 'src/lib/types.generated.ts';
     return {
       path: schema.path || 'src/lib/schema.ts',
-      typesOutput: schema.typesOutput || 'src/lib/types.generated.ts',
+      typesOutput,
+      repositoryOutput:
+        schema.repositoryOutput === false
+          ? false
+          : schema.repositoryOutput || join(dirname(typesOutput), 'repository.generated.ts'),
       autoMigrate: schema.autoMigrate !== false,
       customSQL: schema.customSQL
     };
@@ -244,11 +259,58 @@ function resolveSchemaOpts(schema: boolean | SchemaConfig): ResolvedSchemaConfig
   return {
     path: 'src/lib/schema.ts',
     typesOutput: 'src/lib/types.generated.ts',
+    repositoryOutput: 'src/lib/repository.generated.ts',
     autoMigrate: true,
     customSQL: undefined
   };
 }
 
+/**
+ * Write a generated source file only when its content changed, logging a
+ * line-level summary of what was added and removed.
+ *
+ * @param absPath - Absolute output path.
+ * @param content - The freshly generated source.
+ * @param label - What the file holds, for log messages (e.g., `'Types'`).
+ * @param projectRoot - Absolute path to the project root (for relative log paths).
+ */
+function writeGeneratedFile(
+  absPath: string,
+  content: string,
+  label: string,
+  projectRoot: string
+): void {
+  let existingContent = '';
+  if (existsSync(absPath)) {
+    existingContent = readFileSync(absPath, 'utf-8');
+  }
+
+  const relPath = relative(projectRoot, absPath);
+  if (content === existingContent) {
+    console.log(`[stellar-drive] ${label} unchanged at ${relPath}`);
+    return;
+  }
+
+  const dir = dirname(absPath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  writeFileSync(absPath, content, 'utf-8');
+
+  /* Log detailed diff of changes. */
+  const oldLines = existingContent.split('\n');
+  const newLines = content.split('\n');
+  const added = newLines.filter((l) => !oldLines.includes(l) && l.trim());
+  const removed = oldLines.filter((l) => !newLines.includes(l) && l.trim());
+  console.log(`[stellar-drive] ${label} updated at ${relPath}`);
+  if (removed.length)
+    console.log(
+      `[stellar-drive]   Removed:\n${removed.map((l) => `    - ${l.trim()}`).join('\n')}`
+    );
+  if (added.length)
+    console.log(`[stellar-drive]   Added:\n${added.map((l) => `    + ${l.trim()}`).join('\n')}`);
+}
+
 /**
  * Load a TypeScript schema file by transpiling it with esbuild and
  * dynamically importing the result.
@@ -307,36 +369,22 @@ async function processLoadedSchema(
   const typesAbsPath = resolve(schemaOpts.typesOutput);
 
   /* 1. Generate TypeScript types (only write if content changed). */
-  const { generateTypeScript } = await import('../../schema.js');
+  const { generateTypeScript, generateRepository } = await import('../../schema.js');
   const tsContent = generateTypeScript(schema as import('../../types').SchemaDefinition);
-
-  let existingContent = '';
-  if (existsSync(typesAbsPath)) {
-    existingContent = readFileSync(typesAbsPath, 'utf-8');
-  }
-
-  const relTypesPath = relative(projectRoot, typesAbsPath);
-  if (tsContent !== existingContent) {
-    const typesDir = dirname(typesAbsPath);
-    if (!existsSync(typesDir)) {
-      mkdirSync(typesDir, { recursive: true });
-    }
-    writeFileSync(typesAbsPath, tsContent, 'utf-8');
-
-    /* Log detailed diff of type changes. */
-    const oldLines = existingContent.split('\n');
-    const newLines = tsContent.split('\n');
-    const added = newLines.filter((l) => !oldLines.includes(l) && l.trim());
-    const removed = oldLines.filter((l) => !newLines.includes(l) && l.trim());
-    console.log(`[stellar-drive] Types updated at ${relTypesPath}`);
-    if (removed.length)
-      console.log(
-        `[stellar-drive]   Removed:\n${removed.map((l) => `    - ${l.trim()}`).join('\n')}`
-      );
-    if (added.length)
-      console.log(`[stellar-drive]   Added:\n${added.map((l) => `    + ${l.trim()}`).join('\n')}`);
-  } else {
-    console.log(`[stellar-drive] Types unchanged at ${relTypesPath}`);
+  writeGeneratedFile(typesAbsPath, tsContent, 'Types', projectRoot);
+
+  /* 1b. Generate the typed repository next to the types. Its type import is
+   *     relative to its own location, without the `.ts` extension. */
+  if (schemaOpts.repositoryOutput) {
+    const repoAbsPath = resolve(schemaOpts.repositoryOutput);
+    let typesImport = relative(dirname(repoAbsPath), typesAbsPath)
+      .replace(/\\/g, '/')
+      .replace(/\.ts$/, '');
+    if (!typesImport.startsWith('.')) typesImport = `./${typesImport}`;
+    const repoContent = generateRepository(schema as import('../../types').SchemaDefinition, {
+      typesImport
+    });
+    writeGeneratedFile(repoAbsPath, repoContent, 'Repository', projectRoot);
   }
 
   /* 2. Generate and push idempotent SQL to Supabase.
@@ -559,8 +607,9 @@ async function pushSchema(sql: string, opts: ResolvedSchemaConfig, root: string)
  * **`buildStart` hook (dev + production builds):**
  *   - Generates `static/sw.js` from the compiled SW template.
  *   - When `schema` is enabled: loads the schema file via esbuild, generates
- *     TypeScript types, and pushes the full idempotent schema SQL to Supabase
- *     via direct Postgres connection (`DATABASE_URL`).
+ *     TypeScript types and the typed repository module, and pushes the full
+ *     idempotent schema SQL to Supabase via direct Postgres connection
+ *     (`DATABASE_URL`).
  *
  * **`closeBundle` hook:**
  *   - Scans SvelteKit's immutable output directory for JS and CSS files.
@@ -570,7 +619,7 @@ async function pushSchema(sql: string, opts: ResolvedSchemaConfig, root: string)
  * **`configureServer` hook (dev only, when `schema` is enabled):**
  *   - On server start, processes the schema file once via Vite's SSR loader.
  *   - Watches the schema file for changes with 500ms debounce.
- *   - Each change re-generates types and pushes schema SQL.
+ *   - Each change re-generates types and the repository, and pushes schema SQL.
  *
  * @param config - The {@link SWConfig} with `prefix`, `name`, and optional `schema`.
  * @returns A Vite plugin object with `name`, `buildStart`, `closeBundle`, and
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Partial Replication Filters
+ *
+ * Tables can declare a `syncFilter` in the schema so that only a window of
+ * their rows lives on the device — e.g. "updated in the last 90 days" or
+ * "archived = false" for a transaction table too big to hydrate on a phone:
+ *
+ * ```ts
+ * transactions: {
+ *   syncFilter: () => [{ field: 'archived', op: 'eq', value: false }]
+ * }
+ * ```
+ *
+ * The same conditions are applied in three places:
+ * - **Remotely**, as PostgREST filters on hydration and incremental pulls
+ *   ({@link applySyncFilter}).
+ * - **In memory**, to realtime events and local rows ({@link matchesSyncFilter}).
+ * - **On eviction** — rows that leave the window (or were fetched on demand
+ *   through a `remoteFallback` read) are deleted from IndexedDB unless they
+ *   have pending changes ({@link evictOutsideSyncFilter}, {@link evictRows}).
+ *
+ * Eviction only removes the local copy: nothing is queued, and the server row
+ * is untouched.
+ *
+ * @see {@link ./types} for `SchemaTableConfig.syncFilter`
+ * @see {@link ./engine} for the pull, hydration and maintenance call sites
+ */
+
+import { findTableConfig, getDexieTableFor, getEngineConfig } from './config';
+import { getDb } from './database';
+import { debugError, debugLog } from './debug';
+import { filterRemote, matchesCondition } from './query';
+import { getPendingEntityIds } from './queue';
+import { updateSearchIndex } from './search';
+import type { SyncFilterCondition } from './types';
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/**
+ * Resolve a table's sync filter to its current conditions.
+ *
+ * @param table - Supabase table name or schema key.
+ * @returns The conditions, or `null` when the table replicates every row.
+ */
+export function getSyncFilter(table: string): SyncFilterCondition[] | null {
+  const filter = findTableConfig(table)?.syncFilter;
+  if (!filter) return null;
+  const conditions = typeof filter === 'function' ? filter() : filter;
+  return conditions.length > 0 ? conditions : null;
+}
+
+/**
+ * Whether a row falls inside its table's replicated window. Always `true`
+ * for tables without a sync filter.
+ */
+export function matchesSyncFilter(table: string, row: Record<string, unknown>): boolean {
+  const conditions = getSyncFilter(table);
+  return !conditions || conditions.every((condition) => matchesCondition(row, condition));
+}
+
+/**
+ * Narrow a PostgREST request to the table's replicated window. Returns the
+ * request unchanged for tables without a sync filter.
+ */
+export function applySyncFilter<
+  R extends { filter(column: string, operator: string, value: unknown): R }
+>(table: string, request: R): R {
+  const conditions = getSyncFilter(table);
+  return conditions ? filterRemote(request, conditions) : request;
+}
+
+// =============================================================================
+// EVICTION
+// =============================================================================
+
+/**
+ * Delete the local copies of the given rows, skipping rows with pending
+ * changes (they stay until pushed and are reconsidered on the next pass).
+ *
+ * @param table - Supabase table name.
+ * @param ids   - Primary keys of the rows to evict.
+ * @returns The number of rows deleted.
+ */
+export async function evictRows(table: string, ids: string[]): Promise<number> {
+  const tableConfig = findTableConfig(table);
+  if (!tableConfig || ids.length === 0) return 0;
+
+  const pending = await getPendingEntityIds();
+  const evictable = ids.filter((id) => !pending.has(id));
+  if (evictable.length === 0) return 0;
+
+  await getDb().table(getDexieTableFor(tableConfig)).bulkDelete(evictable);
+  await updateSearchIndex(table, evictable);
+  return evictable.length;
+}
+
+/**
+ * Evict every local row that falls outside its table's sync filter.
+ *
+ * Called by the engine during periodic maintenance, which is what eventually
+ * removes rows that aged out of a time window or were fetched on demand.
+ *
+ * @returns The number of rows evicted, or `0` if an error occurred.
+ */
+export async function evictOutsideSyncFilter(): Promise<number> {
+  let total = 0;
+  try {
+    for (const tableConfig of getEngineConfig().tables) {
+      const conditions = getSyncFilter(tableConfig.supabaseName);
+      if (!conditions) continue;
+
+      const outside = (await getDb()
+        .table(getDexieTableFor(tableConfig))
+        .filter(
+          (row: Record<string, unknown>) =>
+            !conditions.every((condition) => matchesCondition(row, condition))
+        )
+        .primaryKeys()) as string[];
+      total += await evictRows(tableConfig.supabaseName, outside);
+    }
+
+    if (total > 0) {
+      debugLog(`[SyncFilter] Evicted ${total} rows outside their sync filter`);
+    }
+  } catch (error) {
+    debugError('[SyncFilter] Failed to evict rows:', error);
+  }
+  return total;
+}
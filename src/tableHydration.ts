@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Per-Table Hydration Modes
+ *
+ * By default every table is hydrated when the engine starts and kept current
+ * by every sync pull. Tables that are large and rarely viewed (an archive, old
+ * statements, ...) can opt out with the schema `hydration` option:
+ *
+ * - `'eager'` (default) — hydrated on start, pulled on every sync.
+ * - `'lazy'` — skipped on start; hydrated the first time the table is read
+ *   (or {@link loadTable} is called), then pulled on every sync from its own
+ *   cursor.
+ * - `'none'` — never hydrated or pulled; rows arrive only through the
+ *   `remoteFallback` read paths and local writes.
+ *
+ * Until a lazy table is loaded — and always, for `'none'` tables — realtime
+ * changes are applied only to rows already cached on the device, so partial
+ * local data is never mistaken for the full table.
+ *
+ * This module holds the per-table state: the mode, the load state published
+ * through {@link tableHydrationStore}, and the per-table pull cursors
+ * (localStorage, per user, like the engine's global cursor). The loading
+ * itself lives in the engine next to `hydrateFromRemote`.
+ *
+ * @see {@link ./engine} for `loadTable`, hydration and pulls
+ * @see {@link ./types} for `SchemaTableConfig.hydration`
+ */
+
+import { writable } from 'svelte/store';
+import { findTableConfig, getEngineConfig } from './config';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** How a table is hydrated — see `SchemaTableConfig.hydration`. */
+export type TableHydrationMode = 'eager' | 'lazy' | 'none';
+
+/**
+ * Load state of a non-eager table:
+ * - `unloaded` — only rows fetched on demand (if any) are cached.
+ * - `loading` — the first full fetch is in flight.
+ * - `loaded` — the table is hydrated and kept current by sync.
+ */
+export type TableLoadState = 'unloaded' | 'loading' | 'loaded';
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** Load state per schema key, for non-eager tables. */
+let states: Record<string, TableLoadState> = {};
+
+const { subscribe, set } = writable<Record<string, TableLoadState>>({});
+
+/**
+ * Svelte store of the load state of every `'lazy'` and `'none'` table, keyed
+ * by schema key. Eager tables are not listed — use `hasHydrated()` for them.
+ *
+ * @example
+ * ```svelte
+ * {#if $tableHydrationStore.archive !== 'loaded'}
+ *   <ArchiveSkeleton />
+ * {/if}
+ * ```
+ */
+export const tableHydrationStore = { subscribe };
+
+/** The key a table is published under: its schema key when it has one. */
+function keyOf(table: string): string {
+  return findTableConfig(table)?.schemaKey ?? table;
+}
+
+/** Resolve the hydration mode of a table (`'eager'` for unknown tables). */
+export function getHydrationMode(table: string): TableHydrationMode {
+  return findTableConfig(table)?.hydration ?? 'eager';
+}
+
+/** Set and publish the load state of a table. */
+export function setTableLoadState(table: string, state: TableLoadState): void {
+  states = { ...states, [keyOf(table)]: state };
+  set(states);
+}
+
+/**
+ * Whether sync keeps the table current: eager tables, and lazy tables once
+ * loaded. Realtime inserts for other tables are not stored.
+ */
+export function isTableReplicated(table: string): boolean {
+  const mode = getHydrationMode(table);
+  if (mode === 'eager') return true;
+  return mode === 'lazy' && states[keyOf(table)] === 'loaded';
+}
+
+// =============================================================================
+// CURSORS
+// =============================================================================
+
+/** localStorage key of a lazy table's pull cursor. */
+function cursorKey(userId: string, table: string): string {
+  return `lastSyncCursor_${userId}_${keyOf(table)}`;
+}
+
+/**
+ * Read the pull cursor of a lazy table.
+ *
+ * @returns The newest `updated_at` seen, or `null` when the table has not
+ *          been loaded for this user.
+ */
+export function getTableCursor(userId: string, table: string): string | null {
+  if (typeof localStorage === 'undefined') return null;
+  return localStorage.getItem(cursorKey(userId, table));
+}
+
+/** Persist the pull cursor of a lazy table. */
+export function setTableCursor(userId: string, table: string, cursor: string): void {
+  if (typeof localStorage !== 'undefined') localStorage.setItem(cursorKey(userId, table), cursor);
+}
+
+/**
+ * Publish the load state of every non-eager table for a user: lazy tables
+ * with a cursor are `loaded`, everything else `unloaded`.
+ */
+export function initTableLoadStates(userId: string | null): void {
+  states = {};
+  for (const table of getEngineConfig().tables) {
+    const mode = table.hydration ?? 'eager';
+    if (mode === 'eager') continue;
+    const loaded =
+      mode === 'lazy' && userId !== null && getTableCursor(userId, table.supabaseName) !== null;
+    states[keyOf(table.supabaseName)] = loaded ? 'loaded' : 'unloaded';
+  }
+  set(states);
+}
+
+/**
+ * Forget every lazy table's cursor for a user — used when local data is
+ * cleared, so the tables load again on next read.
+ */
+export function clearTableCursors(userId: string | null): void {
+  if (typeof localStorage !== 'undefined' && userId) {
+    for (const table of getEngineConfig().tables) {
+      localStorage.removeItem(cursorKey(userId, table.supabaseName));
+    }
+  }
+  initTableLoadStates(null);
+}
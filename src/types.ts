@@ -20,15 +20,30 @@
 // =============================================================================
 
 /**
- * The four supported operation intents for the sync queue.
+ * The supported operation intents for the sync queue.
  *
  * Each intent carries different semantics during coalescing and push:
- * - `'increment'` — Add a numeric delta to a field (coalesceable: multiple deltas sum)
- * - `'set'`       — Overwrite field(s) with new value(s) (coalesceable: later sets win)
- * - `'create'`    — Insert a new entity (coalesceable: subsequent sets merge into the create payload)
- * - `'delete'`    — Soft-delete an entity (a create + delete pair cancels both out entirely)
+ * - `'increment'`   — Add a numeric delta to a field (coalesceable: multiple deltas sum)
+ * - `'set'`         — Overwrite field(s) with new value(s) (coalesceable: later sets win)
+ * - `'create'`      — Insert a new entity (coalesceable: subsequent sets merge into the create payload)
+ * - `'delete'`      — Soft-delete an entity (a create + delete pair cancels both out entirely)
+ * - `'arrayAdd'`    — Append items missing from a JSON array field (coalesceable: adds and removes net out)
+ * - `'arrayRemove'` — Remove items from a JSON array field
+ * - `'toggle'`      — Flip a boolean field (coalesceable: two toggles cancel)
+ * - `'patch'`       — Set or remove keys at paths inside a JSON field (coalesceable: entries concatenate)
+ *
+ * The last four are applied on the server to its current value, so concurrent
+ * edits from different devices all take effect — see {@link ./intents}.
  */
-export type OperationType = 'increment' | 'set' | 'create' | 'delete';
+export type OperationType =
+  | 'increment'
+  | 'set'
+  | 'create'
+  | 'delete'
+  | 'arrayAdd'
+  | 'arrayRemove'
+  | 'toggle'
+  | 'patch';
 
 /**
  * A single intent-based sync operation stored in the IndexedDB `syncQueue` table.
@@ -36,8 +51,8 @@ export type OperationType = 'increment' | 'set' | 'create' | 'delete';
  * Design decisions:
  * - `operationType` preserves the *intent* so the coalescer can intelligently merge
  *   (e.g., 50 increment ops → one +50 instead of 50 separate server requests).
- * - `field` is optional: increment/single-field set use it; create and multi-field
- *   set store data in `value` instead.
+ * - `field` is optional: increment, single-field set and the array/toggle/patch
+ *   intents use it; create and multi-field set store data in `value` instead.
  * - `retries` and `lastRetryAt` power exponential backoff for failed pushes.
  *
  * @example
@@ -49,6 +64,9 @@ export type OperationType = 'increment' | 'set' | 'create' | 'delete';
  *
  * // Create operation: full entity payload in `value`
  * { table: "goals", entityId: "abc", operationType: "create", value: { title: "Goal", target: 10 } }
+ *
+ * // Array intent: add a tag without overwriting tags added on other devices
+ * { table: "goals", entityId: "abc", operationType: "arrayAdd", field: "tags", value: ["urgent"] }
  */
 export interface SyncOperationItem {
   /** Auto-increment primary key (assigned by IndexedDB). */
@@ -57,18 +75,43 @@ export interface SyncOperationItem {
   table: string;
   /** UUID of the entity being operated on. */
   entityId: string;
-  /** The operation intent: `'increment'`, `'set'`, `'create'`, or `'delete'`. */
+  /** The operation intent — see {@link OperationType}. */
   operationType: OperationType;
-  /** Target field name — used by increment and single-field set operations. */
+  /** Target field name — used by increment, single-field set and the field intents. */
   field?: string;
-  /** Payload — delta (increment), new value (set), full entity (create), or unused (delete). */
+  /**
+   * Payload — delta (increment), new value (set), full entity (create), items
+   * (arrayAdd/arrayRemove), `JsonPatchEntry[]` (patch), or unused (delete, toggle).
+   */
   value?: unknown;
   /** ISO 8601 timestamp of when the operation was enqueued locally. */
   timestamp: string;
-  /** Number of failed push attempts (drives exponential backoff). */
+  /** Number of failed push attempts (drives the table's retry backoff). */
   retries: number;
   /** ISO 8601 timestamp of the last retry attempt (used for backoff calculation). */
   lastRetryAt?: string;
+  /** Error message of the most recent failed push attempt. */
+  lastError?: string;
+  /** Error code of the most recent failed push attempt, when it had one. */
+  lastErrorCode?: string;
+  /** ISO 8601 timestamp before which the operation is not retried (set after a failure). */
+  nextRetryAt?: string;
+  /** The most recent failed push attempts (up to 20), oldest first — carried into the dead-letter queue. */
+  attempts?: SyncAttempt[];
+}
+
+/**
+ * One failed push attempt of a sync operation.
+ *
+ * @see {@link SyncOperationItem.attempts}
+ */
+export interface SyncAttempt {
+  /** ISO 8601 timestamp of the attempt. */
+  at: string;
+  /** The error message the attempt failed with. */
+  error: string;
+  /** The error code (SQLSTATE, PostgREST code or HTTP status), when there was one. */
+  code?: string;
 }
 
 // =============================================================================
@@ -233,6 +276,8 @@ export interface SingleUserConfig {
  *
  * - **String shorthand:** `'string'`, `'number?'`, `'uuid'`, `'boolean'`, `'date'`, `'timestamp'`, `'json'`
  *   Append `?` for nullable (e.g., `'string?'` → `string | null` / `text`).
+ * - **`'orderKey'`:** a string fractional order key (see `orderKeyBetween`) →
+ *   `string` / SQL `text collate "C"`, so Postgres sorts keys the same way as clients.
  * - **Enum array:** `['a', 'b', 'c']` → union type `'a' | 'b' | 'c'` / SQL `text not null`.
  * - **Enum object:** `{ enum: ['a', 'b'], nullable: true, enumName: 'MyType' }` — full control.
  */
@@ -327,8 +372,12 @@ export interface SchemaTableConfig {
    * only enforce uniqueness on non-null values).
    *
    * In Dexie (IndexedDB), single-column unique constraints are enforced via
-   * the `&` prefix on the index. Multi-column constraints are advisory only
-   * in IndexedDB (enforced server-side).
+   * the `&` prefix on the index. In addition, engine writes check every
+   * constraint — multi-column ones too — against local data before anything
+   * is stored or queued, and throw a `UniqueConstraintError` on a duplicate.
+   * Partial constraints are checked when their `where` is a simple `and` of
+   * `is [not] null` / `=` / `<>` comparisons; other predicates are enforced
+   * server-side only. `engineUpsert` resolves rows by these constraints.
    *
    * @example
    * // Single column, partial (only non-null values):
@@ -347,6 +396,124 @@ export interface SchemaTableConfig {
     /** Optional SQL WHERE clause for partial unique indexes. */
     where?: string;
   }>;
+  /**
+   * Text fields to include in the local full-text search index.
+   *
+   * When set, the engine keeps a tokenized inverted index for this table in
+   * IndexedDB and {@link engineSearch} can query it offline. String and
+   * string-array fields are tokenized; other values are ignored.
+   *
+   * @example
+   * notes: { searchable: ['title', 'body', 'tags'] }
+   */
+  searchable?: string[];
+  /**
+   * Keep prior snapshots of each entity locally, for {@link engineGetHistory}
+   * and {@link engineRevertTo}. Snapshots are recorded on local writes,
+   * realtime applies, sync pulls and conflict merges.
+   *
+   * `true` uses the defaults; `limit` is the number of snapshots kept per
+   * entity (default 20) and `maxAgeDays` how long they are kept (default 30).
+   *
+   * @example
+   * notes: { history: { limit: 50, maxAgeDays: 90 } }
+   */
+  history?: boolean | { limit?: number; maxAgeDays?: number };
+  /**
+   * Fields encrypted end-to-end: encrypted on this device before push and
+   * decrypted on pull, so the server only stores ciphertext. Generated SQL
+   * types them as `text` and leaves them out of server-side constraints.
+   * Requires `encryption` in the engine config and an unlocked key
+   * (see {@link unlockEncryption}). Remote filters on these fields cannot match.
+   *
+   * @example
+   * journal_entries: { fields: { body: 'string' }, encrypted: ['body'] }
+   */
+  encrypted?: string[];
+  /**
+   * Replicate only part of the table locally. Hydration and incremental pulls
+   * fetch matching rows only, realtime changes to non-matching rows are not
+   * stored, and non-matching local rows without pending changes are evicted
+   * during periodic maintenance. Rows outside the window stay reachable
+   * through the `remoteFallback` read paths (cached until the next eviction).
+   *
+   * Conditions are ANDed. Pass a function for windows relative to the current
+   * time — it is re-evaluated on every pull and eviction pass.
+   *
+   * @example
+   * transactions: {
+   *   syncFilter: () => [
+   *     { field: 'updated_at', op: 'gte', value: new Date(Date.now() - 90 * 86_400_000).toISOString() },
+   *     { field: 'archived', op: 'eq', value: false }
+   *   ]
+   * }
+   */
+  syncFilter?: SyncFilterCondition[] | (() => SyncFilterCondition[]);
+  /**
+   * When the table is downloaded:
+   * - `'eager'` — hydrated when the engine starts and pulled on every sync.
+   * - `'lazy'` — hydrated the first time it is read (or on `loadTable`), then
+   *   pulled on every sync from its own cursor.
+   * - `'none'` — never hydrated or pulled; rows are fetched through the
+   *   `remoteFallback` read paths only.
+   *
+   * Load progress of non-eager tables is published by `tableHydrationStore`.
+   * Until a table is loaded, realtime changes only update rows already cached.
+   *
+   * @default 'eager'
+   */
+  hydration?: 'eager' | 'lazy' | 'none';
+  /**
+   * How failed pushes of this table's operations are retried before they are
+   * moved to the dead-letter queue. Unset options keep the defaults: 5
+   * attempts, exponential backoff from 1 s, no jitter.
+   *
+   * @example
+   * payments: { retry: { maxAttempts: Infinity, maxDelayMs: 600_000, jitter: 0.5 } },
+   * analytics_events: { retry: { maxAttempts: 2, permanentErrors: ['23514', '42501'] } }
+   */
+  retry?: RetryPolicy;
+}
+
+/**
+ * One condition of a {@link SchemaTableConfig.syncFilter}. Operators are the
+ * query builder's: `eq`, `neq`, `gt`, `gte`, `lt`, `lte`, `in` (array value),
+ * `startsWith` and `between` (`[lower, upper]` value).
+ */
+export interface SyncFilterCondition {
+  field: string;
+  op: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'startsWith' | 'between';
+  value: unknown;
+}
+
+/**
+ * Retry and backoff policy for failed pushes — {@link SchemaTableConfig.retry}.
+ *
+ * The delay before retry `n` (`n` = failed attempts so far) follows `backoff`:
+ * - `'exponential'` — `baseDelayMs * 2^(n-1)` (1 s, 2 s, 4 s, ... by default)
+ * - `'linear'`      — `baseDelayMs * n`
+ * - `'fixed'`       — `baseDelayMs`
+ *
+ * capped at `maxDelayMs`, then shortened by a random fraction of up to
+ * `jitter` so devices that failed together do not retry in lockstep.
+ */
+export interface RetryPolicy {
+  /** Failed attempts before the operation is dead-lettered. `Infinity` retries forever. @default 5 */
+  maxAttempts?: number;
+  /** Backoff curve. @default 'exponential' */
+  backoff?: 'exponential' | 'linear' | 'fixed';
+  /** Delay unit of the curve, in ms. @default 1000 */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay, in ms. @default 300000 (5 min) */
+  maxDelayMs?: number;
+  /** Fraction of each delay (0–1) that is randomized away. @default 0 */
+  jitter?: number;
+  /**
+   * Error codes that will not go away on retry: an operation failing with one
+   * is dead-lettered at once. Matched against the PostgreSQL SQLSTATE
+   * (`'23514'`), the PostgREST code (`'PGRST204'`) or the HTTP status (`'403'`).
+   */
+  permanentErrors?: string[];
 }
 
 /**
@@ -0,0 +1,299 @@
+/**
+ * @fileoverview Local Undo/Redo History
+ *
+ * Keeps an in-memory history of engine writes so apps can offer Ctrl+Z.
+ * Enabled with the `undo` option of `initEngine`:
+ *
+ * ```ts
+ * initEngine({ prefix: 'myapp', schema, undo: { limit: 50 } });
+ *
+ * await engineUpdate('goals', id, { title: 'Renamed' });
+ * await engineUndo(); // title is back, and the revert syncs like any write
+ * ```
+ *
+ * Every engine write (`engineCreate`, `engineUpdate`, `engineDelete`,
+ * `engineIncrement`, `engineBatchWrite`, `engineTransaction`, ...) records
+ * the **inverse operations** needed to revert it, captured from the row state
+ * inside the write's own transaction. One call is one history entry; wrap
+ * several calls in {@link undoGroup} to undo them as a single user action.
+ *
+ * Inverses are expressed as the same kinds of operations the sync queue
+ * understands — `set` (restore previous field values), `delete` (tombstone a
+ * created row) and `increment` (apply the negated delta, so concurrent
+ * increments from other devices survive an undo). `engineUndo`/`engineRedo`
+ * in `data.ts` replay them through the normal write + queue path.
+ *
+ * The history is per tab and per page load; it is not persisted, and it is
+ * cleared by `clearLocalCache`. Writes applied from sync pulls or realtime
+ * are never recorded.
+ *
+ * @see {@link ./data} for the write paths that record history and for
+ *      `engineUndo` / `engineRedo`
+ */
+
+import { writable } from 'svelte/store';
+import { getEngineConfig } from './config';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * One operation of a recorded inverse (or its redo counterpart).
+ * `table` is whatever name the original write was called with.
+ */
+export type UndoOperation =
+  | { type: 'set'; table: string; id: string; fields: Record<string, unknown> }
+  | { type: 'delete'; table: string; id: string }
+  | { type: 'increment'; table: string; id: string; field: string; amount: number };
+
+/**
+ * The history record of a single write: the operations that revert it and
+ * those that re-apply it.
+ */
+export interface UndoChange {
+  undo: UndoOperation[];
+  redo: UndoOperation[];
+}
+
+/** One undoable user action — a single write call or an {@link undoGroup}. */
+export interface UndoEntry {
+  label: string | null;
+  /** Applied in order to revert the action (already reversed). */
+  undo: UndoOperation[];
+  /** Applied in order to re-apply the action. */
+  redo: UndoOperation[];
+}
+
+/** Reactive summary of the history, for toolbar buttons and shortcuts. */
+export interface UndoState {
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Label of the entry `engineUndo` would revert (`null` if unlabelled). */
+  undoLabel: string | null;
+  /** Label of the entry `engineRedo` would re-apply (`null` if unlabelled). */
+  redoLabel: string | null;
+}
+
+// =============================================================================
+// STATE
+// =============================================================================
+
+/** Default maximum number of entries kept on the undo stack. */
+const DEFAULT_UNDO_LIMIT = 100;
+
+let undoStack: UndoEntry[] = [];
+let redoStack: UndoEntry[] = [];
+
+/** The entry being collected by the outermost open {@link undoGroup}. */
+let openGroup: UndoEntry | null = null;
+let groupDepth = 0;
+
+const { subscribe, set } = writable<UndoState>({
+  canUndo: false,
+  canRedo: false,
+  undoLabel: null,
+  redoLabel: null
+});
+
+/**
+ * Svelte store reflecting whether undo/redo is available.
+ *
+ * @example
+ * ```svelte
+ * <button disabled={!$undoStore.canUndo} on:click={engineUndo}>Undo</button>
+ * ```
+ */
+export const undoStore = { subscribe };
+
+/** Push the current stack state to {@link undoStore}. */
+function publish(): void {
+  set({
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+    redoLabel: redoStack[redoStack.length - 1]?.label ?? null
+  });
+}
+
+/** Maximum undo stack size, or `0` when history is disabled. */
+function getUndoLimit(): number {
+  const option = getEngineConfig().undo;
+  if (!option) return 0;
+  return option === true ? DEFAULT_UNDO_LIMIT : (option.limit ?? DEFAULT_UNDO_LIMIT);
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Whether writes should capture their inverse. Write paths check this before
+ * doing the extra row reads recording needs.
+ */
+export function isUndoEnabled(): boolean {
+  return getUndoLimit() > 0;
+}
+
+/**
+ * Turn target field values into operations. A target of `deleted: true` is
+ * expressed as a `delete` so it syncs (and coalesces) as a real deletion.
+ */
+function toOperations(table: string, id: string, fields: Record<string, unknown>): UndoOperation[] {
+  const { deleted, ...rest } = fields;
+  const ops: UndoOperation[] = [];
+  if (deleted === false) ops.push({ type: 'set', table, id, fields: { deleted: false } });
+  if (Object.keys(rest).length > 0) ops.push({ type: 'set', table, id, fields: rest });
+  if (deleted === true) ops.push({ type: 'delete', table, id });
+  return ops;
+}
+
+/**
+ * Describe a write that moved a row's fields from `before` to `after`.
+ * Both records hold the same keys (the fields the write touched).
+ *
+ * @param table  - Table name the write was called with.
+ * @param id     - Primary key of the row.
+ * @param before - Field values before the write.
+ * @param after  - Field values after the write.
+ */
+export function describeChange(
+  table: string,
+  id: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): UndoChange {
+  return { undo: toOperations(table, id, before), redo: toOperations(table, id, after) };
+}
+
+/**
+ * Describe an increment write. The inverse is the negated delta plus the
+ * previous values of any fields set alongside it.
+ *
+ * @param table   - Table name the write was called with.
+ * @param id      - Primary key of the row.
+ * @param field   - The incremented field.
+ * @param amount  - The applied delta.
+ * @param before  - Previous values of the additional fields (may be empty).
+ * @param after   - The additional fields that were set (may be empty).
+ */
+export function describeIncrement(
+  table: string,
+  id: string,
+  field: string,
+  amount: number,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): UndoChange {
+  const change = describeChange(table, id, before, after);
+  change.undo.unshift({ type: 'increment', table, id, field, amount: -amount });
+  change.redo.unshift({ type: 'increment', table, id, field, amount });
+  return change;
+}
+
+/**
+ * Record the changes made by one committed write call.
+ *
+ * Inside an {@link undoGroup} the changes join the group's entry; otherwise
+ * they become a new entry. Either way the redo stack is cleared, as a new
+ * action invalidates anything previously undone.
+ *
+ * @param changes - One change per row the write touched, in write order.
+ */
+export function recordUndo(changes: UndoChange[]): void {
+  const limit = getUndoLimit();
+  if (limit === 0 || changes.length === 0) return;
+
+  const entry = openGroup ?? { label: null, undo: [], redo: [] };
+  /* Undo runs newest-first; redo replays in the original order. */
+  for (const change of changes) {
+    entry.undo.unshift(...change.undo);
+    entry.redo.push(...change.redo);
+  }
+
+  if (!openGroup) {
+    undoStack.push(entry);
+    if (undoStack.length > limit) undoStack.splice(0, undoStack.length - limit);
+  }
+  redoStack = [];
+  publish();
+}
+
+/**
+ * Group every engine write made while `fn` runs into one history entry, so a
+ * single {@link engineUndo} reverts all of them.
+ *
+ * Groups may nest; only the outermost one creates an entry. Writes from
+ * unrelated code that run concurrently with `fn` land in the group too.
+ *
+ * @param label - Optional description (exposed via {@link undoStore}).
+ * @param fn    - The action to run.
+ * @returns Whatever `fn` resolves to.
+ *
+ * @example
+ * ```ts
+ * await undoGroup('Move task', async () => {
+ *   await engineUpdate('tasks', id, { project_id: target });
+ *   await reorderEntity('tasks', id, calculateNewOrder(items, from, to));
+ * });
+ * ```
+ */
+export async function undoGroup<R>(label: string | null, fn: () => Promise<R>): Promise<R> {
+  const outermost = groupDepth === 0;
+  if (outermost) openGroup = { label, undo: [], redo: [] };
+  groupDepth++;
+  try {
+    return await fn();
+  } finally {
+    groupDepth--;
+    if (outermost) {
+      const entry = openGroup!;
+      openGroup = null;
+      if (entry.undo.length > 0) {
+        undoStack.push(entry);
+        const limit = getUndoLimit();
+        if (undoStack.length > limit) undoStack.splice(0, undoStack.length - limit);
+        publish();
+      }
+    }
+  }
+}
+
+// =============================================================================
+// REPLAY BOOKKEEPING
+// =============================================================================
+
+/**
+ * Take the next entry to replay off the `undo` or `redo` stack.
+ *
+ * @returns The operations to apply, or `null` when the stack is empty.
+ */
+export function takeHistoryEntry(direction: 'undo' | 'redo'): UndoEntry | null {
+  const stack = direction === 'undo' ? undoStack : redoStack;
+  return stack.pop() ?? null;
+}
+
+/**
+ * Settle an entry taken with {@link takeHistoryEntry}: after a successful
+ * replay it moves to the opposite stack, otherwise it goes back where it was.
+ */
+export function settleHistoryEntry(
+  direction: 'undo' | 'redo',
+  entry: UndoEntry,
+  applied: boolean
+): void {
+  const opposite = direction === 'undo' ? redoStack : undoStack;
+  const origin = direction === 'undo' ? undoStack : redoStack;
+  (applied ? opposite : origin).push(entry);
+  publish();
+}
+
+/**
+ * Drop all undo and redo history. Called by `clearLocalCache`, since the
+ * recorded rows no longer exist locally.
+ */
+export function clearUndoHistory(): void {
+  undoStack = [];
+  redoStack = [];
+  publish();
+}
@@ -174,6 +174,137 @@ export function calculateNewOrder<T extends { order: number }>(
   return midpoint;
 }
 
+/*
+ * String order keys (the `'orderKey'` field type) are base-62 fractions:
+ * `'V'` is 31/62, `'V8'` is 31/62 + 8/62². Digits are in ASCII order, so
+ * plain string comparison — in JS, IndexedDB and Postgres `collate "C"` —
+ * orders keys by value. A key never ends in `'0'`, which keeps every value
+ * a single canonical string, and there is always room between two keys.
+ */
+
+/** Order key digits, in ascending ASCII order. */
+const ORDER_KEY_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/** Random digits appended to new keys so concurrent inserts rarely collide. */
+const ORDER_KEY_JITTER = 2;
+
+/** Whether `key` is a well-formed order key. */
+export function isOrderKey(key: unknown): key is string {
+  return (
+    typeof key === 'string' &&
+    key.length > 0 &&
+    !key.endsWith('0') &&
+    [...key].every((c) => ORDER_KEY_DIGITS.includes(c))
+  );
+}
+
+/** The shortest fraction strictly between `a` (`''` = 0) and `b` (`null` = 1). */
+function midpointKey(a: string, b: string | null): string {
+  if (b !== null) {
+    /* Keep the common prefix, then split the remainder. */
+    let n = 0;
+    while ((a[n] ?? '0') === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpointKey(a.slice(n), b.slice(n));
+  }
+  const digitA = a ? ORDER_KEY_DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? ORDER_KEY_DIGITS.indexOf(b[0]) : ORDER_KEY_DIGITS.length;
+  if (digitB - digitA > 1) return ORDER_KEY_DIGITS[Math.round((digitA + digitB) / 2)];
+  /* Adjacent first digits: b's first digit alone is still above a... */
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  /* ...otherwise keep a's first digit and split the rest. */
+  return ORDER_KEY_DIGITS[digitA] + midpointKey(a.slice(1), null);
+}
+
+/**
+ * Generate a string order key that sorts strictly between two neighbours.
+ *
+ * Unlike numeric midpoints, string keys never run out of precision: a key can
+ * always be generated between two distinct keys, only growing by about one
+ * character per ~6 halvings. A couple of random digits are appended, so two
+ * devices inserting into the same gap at the same time almost never produce
+ * equal keys; sort with {@link compareOrder} so that, if they do, every device
+ * still agrees on the order.
+ *
+ * @param before - Key of the preceding item, or `null` for the start of the list.
+ * @param after  - Key of the following item, or `null` for the end of the list.
+ * @returns A new key with `before < key < after`.
+ * @throws {Error} If a bound is not a valid order key, or `before >= after`.
+ *
+ * @example
+ * const first = orderKeyBetween(null, null);     // e.g. 'Vk3'
+ * const second = orderKeyBetween(first, null);   // sorts after `first`
+ * const middle = orderKeyBetween(first, second); // sorts between them
+ */
+export function orderKeyBetween(before: string | null, after: string | null): string {
+  if ((before !== null && !isOrderKey(before)) || (after !== null && !isOrderKey(after))) {
+    throw new Error(`Invalid order key: ${!isOrderKey(before) ? before : after}`);
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Order key ${before} must sort before ${after}`);
+  }
+
+  const key = midpointKey(before ?? '', after);
+  let jitter = '';
+  for (let i = 0; i < ORDER_KEY_JITTER; i++) {
+    /* Never `'0'`, so the jittered key stays canonical. */
+    jitter += ORDER_KEY_DIGITS[1 + Math.floor(Math.random() * (ORDER_KEY_DIGITS.length - 1))];
+  }
+  /* `key` can be a prefix of `after`; only keep the jitter when it stays below. */
+  return after === null || key + jitter < after ? key + jitter : key;
+}
+
+/**
+ * Generate `count` evenly spaced, ascending order keys — for seeding a list
+ * or rebalancing one whose keys have grown long.
+ *
+ * @param count - Number of keys.
+ * @returns Keys of equal length (before trailing-zero trimming), as short as possible.
+ *
+ * @example
+ * spreadOrderKeys(3); // → ['G', 'V', 'l']
+ */
+export function spreadOrderKeys(count: number): string[] {
+  const base = ORDER_KEY_DIGITS.length;
+  let width = 1;
+  while (Math.pow(base, width) <= count) width++;
+  const step = Math.pow(base, width) / (count + 1);
+
+  const keys: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    let value = Math.round(i * step);
+    let key = '';
+    for (let d = 0; d < width; d++) {
+      key = ORDER_KEY_DIGITS[value % base] + key;
+      value = Math.floor(value / base);
+    }
+    keys.push(key.replace(/0+$/, ''));
+  }
+  return keys;
+}
+
+/**
+ * Comparator for sorting rows by `order`, numeric or order key, breaking ties
+ * by `id` so that every device sorts equal orders the same way. Rows without
+ * an `order` sort first.
+ *
+ * @example
+ * items.sort(compareOrder);
+ */
+export function compareOrder(
+  a: { order?: unknown; id?: unknown },
+  b: { order?: unknown; id?: unknown }
+): number {
+  const orderA = a.order as number | string | null | undefined;
+  const orderB = b.order as number | string | null | undefined;
+  if (orderA == null || orderB == null) {
+    if (orderA != null) return 1;
+    if (orderB != null) return -1;
+  } else if (orderA !== orderB) {
+    return orderA < orderB ? -1 : 1;
+  }
+  return String(a.id ?? '').localeCompare(String(b.id ?? ''));
+}
+
 // =============================================================================
 // Concurrency Utilities
 // =============================================================================
@@ -0,0 +1,248 @@
+/**
+ * @fileoverview Runtime Write Validation Against Schema `fields`
+ *
+ * Checks write payloads against the `fields` declared in the schema before
+ * anything reaches IndexedDB or the sync queue. Without this, a bad value
+ * (a string in a `'number'` column, an unknown enum member, a typo'd column
+ * name) is stored locally and only fails at push time with a Postgres error,
+ * after which the operation burns its retries.
+ *
+ * Rules, per {@link FieldType}:
+ * - `'string'` → string; `'number'` → finite number; `'boolean'` → boolean.
+ * - `'uuid'` → UUID-formatted string (any string in demo mode, whose seed
+ *   data commonly uses readable IDs like `'demo-list-1'`).
+ * - `'date'` / `'timestamp'` → string that `Date.parse` accepts.
+ * - `'orderKey'` → well-formed fractional order key (see `orderKeyBetween`).
+ * - `'json'` → any value.
+ * - enums (array or `{ enum }` form) → one of the listed strings.
+ * - A trailing `?` (or `nullable: true`) additionally allows `null`.
+ * - Keys that are neither declared fields, `sqlColumns` keys nor system columns
+ *   are rejected.
+ * - On create, non-nullable fields that have no SQL default (everything except
+ *   `number`/`boolean`, unless overridden via `sqlColumns`) are required.
+ *
+ * Tables without `fields` — and engines configured with manual `tables`
+ * instead of a `schema` — are not validated.
+ *
+ * @see {@link ./types} for `FieldType` and `SchemaTableConfig.fields`
+ * @see {@link ./data} for the write paths that call {@link validateWrite}
+ */
+
+import { findTableConfig, getEngineConfig } from './config';
+import { isDemoMode } from './demo';
+import type { FieldType, SchemaTableConfig } from './types';
+import { isOrderKey } from './utils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A single problem found in a write payload.
+ */
+export interface ValidationIssue {
+  /** Column the issue refers to. */
+  field: string;
+  /**
+   * What went wrong:
+   * - `unknown_column` — the column is not declared in the schema.
+   * - `required` — a non-nullable column without a default is missing on create.
+   * - `null` — `null` was given for a non-nullable column.
+   * - `type` — the value has the wrong type or format.
+   * - `enum` — the value is not one of the declared enum members.
+   */
+  code: 'unknown_column' | 'required' | 'null' | 'type' | 'enum';
+  /** Human-readable description. */
+  message: string;
+  /** The offending value (`undefined` for `required`). */
+  value?: unknown;
+}
+
+/**
+ * Thrown by engine writes whose payload does not match the schema `fields`.
+ * Nothing has been written locally or queued when it is thrown.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await engineCreate('goals', { title: 42 });
+ * } catch (e) {
+ *   if (e instanceof ValidationError) showErrors(e.issues);
+ * }
+ * ```
+ */
+export class ValidationError extends Error {
+  /** Table the rejected write targeted. */
+  readonly table: string;
+  /** Every issue found in the payload. */
+  readonly issues: ValidationIssue[];
+
+  constructor(table: string, issues: ValidationIssue[]) {
+    super(
+      `Invalid write to ${table}: ` + issues.map((i) => `${i.field} — ${i.message}`).join('; ')
+    );
+    this.name = 'ValidationError';
+    this.table = table;
+    this.issues = issues;
+  }
+}
+
+// =============================================================================
+// FIELD RULES
+// =============================================================================
+
+/** Columns the engine adds to every table, with their runtime types. */
+const SYSTEM_COLUMN_TYPES: Record<string, FieldType> = {
+  id: 'string',
+  created_at: 'timestamp',
+  updated_at: 'timestamp',
+  deleted: 'boolean',
+  _version: 'number',
+  device_id: 'string?'
+};
+
+/** Field types whose generated SQL column has a default, so they may be omitted on create. */
+const DEFAULTED_TYPES = new Set(['number', 'boolean']);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Normalised form of a {@link FieldType}. */
+interface FieldRule {
+  base: string;
+  nullable: boolean;
+  enumValues?: string[];
+}
+
+/** Parse a {@link FieldType} shorthand into a {@link FieldRule}. */
+function parseFieldType(field: FieldType): FieldRule {
+  if (Array.isArray(field)) return { base: 'enum', nullable: false, enumValues: field };
+  if (typeof field === 'object') {
+    return { base: 'enum', nullable: !!field.nullable, enumValues: field.enum };
+  }
+  const nullable = field.endsWith('?');
+  return { base: nullable ? field.slice(0, -1) : field, nullable };
+}
+
+/**
+ * Check one value against its rule.
+ *
+ * @returns An issue, or `null` when the value is valid.
+ */
+function checkValue(field: string, rule: FieldRule, value: unknown): ValidationIssue | null {
+  if (value === null || value === undefined) {
+    return rule.nullable
+      ? null
+      : { field, code: 'null', message: 'must not be null', value: value ?? null };
+  }
+
+  if (rule.enumValues) {
+    return typeof value === 'string' && rule.enumValues.includes(value)
+      ? null
+      : {
+          field,
+          code: 'enum',
+          message: `must be one of ${rule.enumValues.map((v) => `'${v}'`).join(', ')}`,
+          value
+        };
+  }
+
+  let valid: boolean;
+  switch (rule.base) {
+    case 'string':
+      valid = typeof value === 'string';
+      break;
+    case 'number':
+      valid = typeof value === 'number' && Number.isFinite(value);
+      break;
+    case 'boolean':
+      valid = typeof value === 'boolean';
+      break;
+    case 'uuid':
+      valid = typeof value === 'string' && (isDemoMode() || UUID_PATTERN.test(value));
+      break;
+    case 'date':
+    case 'timestamp':
+      valid = typeof value === 'string' && !Number.isNaN(Date.parse(value));
+      break;
+    case 'orderKey':
+      valid = isOrderKey(value);
+      break;
+    default:
+      /* `json` and unrecognised shorthands accept any value. */
+      valid = true;
+  }
+  return valid ? null : { field, code: 'type', message: `must be a ${rule.base}`, value };
+}
+
+/** Resolve the schema config for a table, when it declares `fields`. */
+function getFieldSchema(table: string): SchemaTableConfig | null {
+  const schema = getEngineConfig().schema;
+  if (!schema) return null;
+  const definition = schema[findTableConfig(table)?.schemaKey ?? table];
+  if (!definition || typeof definition === 'string' || !definition.fields) return null;
+  return definition;
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+/**
+ * Validate a write payload against the table's schema `fields`.
+ *
+ * @param table  - Supabase table name or schema key.
+ * @param values - The row (`create`) or the changed fields (`update`).
+ * @param mode   - `'create'` also checks that required fields are present.
+ * @throws {ValidationError} If any issue is found.
+ */
+export function validateWrite(
+  table: string,
+  values: Record<string, unknown>,
+  mode: 'create' | 'update'
+): void {
+  const config = getFieldSchema(table);
+  if (!config) return;
+
+  const rules = new Map<string, FieldRule>();
+  for (const [name, type] of Object.entries(SYSTEM_COLUMN_TYPES)) {
+    rules.set(name, parseFieldType(type));
+  }
+  /* Every table that is not a `{ parent, fk }` child gets a `user_id` column,
+     besides a custom ownership column. */
+  if (typeof config.ownership !== 'object') {
+    rules.set('user_id', parseFieldType('string'));
+    if (config.ownership) rules.set(config.ownership, parseFieldType('string'));
+  }
+  /* Columns declared only in `sqlColumns` are real columns too; their SQL
+     type is not checked here, so any value (or null) is accepted. */
+  for (const name of Object.keys(config.sqlColumns ?? {})) {
+    rules.set(name, parseFieldType('json?'));
+  }
+  for (const [name, type] of Object.entries(config.fields!)) {
+    rules.set(name, parseFieldType(type));
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const [field, value] of Object.entries(values)) {
+    const rule = rules.get(field);
+    if (!rule) {
+      issues.push({ field, code: 'unknown_column', message: 'is not a declared column', value });
+      continue;
+    }
+    /* `undefined` means "not provided" — it is dropped when serialised. */
+    if (value === undefined) continue;
+    const issue = checkValue(field, rule, value);
+    if (issue) issues.push(issue);
+  }
+
+  if (mode === 'create') {
+    for (const [field, type] of Object.entries(config.fields!)) {
+      const rule = parseFieldType(type);
+      if (rule.nullable || values[field] !== undefined) continue;
+      if (DEFAULTED_TYPES.has(rule.base) || config.sqlColumns?.[field]) continue;
+      issues.push({ field, code: 'required', message: 'is required' });
+    }
+  }
+
+  if (issues.length > 0) throw new ValidationError(table, issues);
+}
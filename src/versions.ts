@@ -0,0 +1,287 @@
+/**
+ * @fileoverview Per-Entity Version History
+ *
+ * Keeps prior snapshots of entities locally so apps can show "what did this
+ * look like before?" and restore an earlier state. Enabled per table with the
+ * schema `history` option:
+ *
+ * ```ts
+ * schema: {
+ *   notes: { fields: { ... }, history: { limit: 50, maxAgeDays: 90 } }
+ * }
+ * ```
+ *
+ * Storage layout (`entityVersions` system table, one row per snapshot):
+ * ```
+ * { id: 17, table: 'notes', entityId: 'abc', version: 3, updatedAt, recordedAt, source: 'remote', snapshot: {...} }
+ * ```
+ * - `[table+entityId]` is indexed, so an entity's history is one range read.
+ * - `snapshot` is the full row as it was **before** the change that
+ *   superseded it; the current state lives in the entity table as usual.
+ * - `version` is the snapshot's `_version`. Local edits keep `_version`
+ *   unchanged (only conflict merges bump it), so several snapshots may share
+ *   one; `updatedAt` distinguishes them.
+ *
+ * Snapshots are fed by every path that replaces a row's state: local writes
+ * in `data.ts` (`source: 'local'`), realtime applies and sync pulls
+ * (`'remote'`), and conflict merges (`'conflict'`). Each write records the
+ * row it is about to replace, inside its own transaction.
+ *
+ * Retention: each entity keeps at most `limit` snapshots (oldest dropped on
+ * write), and snapshots older than `maxAgeDays` are purged by
+ * {@link cleanupEntityVersions} during the engine's periodic maintenance.
+ * Recording failures are logged and swallowed — history is best-effort and
+ * must never fail a write.
+ *
+ * @see {@link ./types} for `SchemaTableConfig.history`
+ * @see {@link ./data} for `engineRevertTo`, which restores a snapshot
+ */
+
+import { findTableConfig, getEngineConfig, resolveSupabaseName } from './config';
+import { getDb, TABLE } from './database';
+import { debugError, debugLog } from './debug';
+import { now } from './utils';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * What replaced the recorded state:
+ * - `local` — a write made on this device.
+ * - `remote` — a change from another device (realtime or sync pull).
+ * - `conflict` — a field-level merge of local and remote changes.
+ */
+export type VersionSource = 'local' | 'remote' | 'conflict';
+
+/**
+ * One recorded prior state of an entity, as returned by {@link engineGetHistory}.
+ */
+export interface EntityVersion {
+  /** The snapshot's `_version` (`1` when the row had none). */
+  version: number;
+  /** The snapshot's `updated_at` — when this state was written. */
+  updatedAt: string;
+  /** When this state was superseded and recorded. */
+  recordedAt: string;
+  /** What superseded this state. */
+  source: VersionSource;
+  /** The full row as it was. */
+  snapshot: Record<string, unknown>;
+}
+
+/** A row in the `entityVersions` system table. */
+interface EntityVersionRow extends EntityVersion {
+  id?: number;
+  /** Supabase table name the entity belongs to. */
+  table: string;
+  /** Primary key of the entity. */
+  entityId: string;
+}
+
+/** Snapshots kept per entity when `history: true`. */
+const DEFAULT_LIMIT = 20;
+
+/** Days a snapshot is kept when `history: true`. */
+const DEFAULT_MAX_AGE_DAYS = 30;
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+/**
+ * Resolve the retention settings of a table.
+ *
+ * @returns The settings, or `null` when history is disabled for the table.
+ */
+function getRetention(table: string): { limit: number; maxAgeDays: number } | null {
+  const option = findTableConfig(table)?.history;
+  if (!option) return null;
+  return {
+    limit: option.limit ?? DEFAULT_LIMIT,
+    maxAgeDays: option.maxAgeDays ?? DEFAULT_MAX_AGE_DAYS
+  };
+}
+
+/**
+ * Whether the table keeps version history. Write paths check this before
+ * doing the extra row read a snapshot needs.
+ */
+export function isVersioned(table: string): boolean {
+  return getRetention(table) !== null;
+}
+
+// =============================================================================
+// RECORDING
+// =============================================================================
+
+/**
+ * Record `row` as a prior state of its entity, then trim the entity's history
+ * to the table's `limit`.
+ *
+ * Must run inside the transaction of the write that replaces `row` — with the
+ * `entityVersions` table in its scope — or outside any transaction. No-ops
+ * when history is disabled for the table, when `row` is `undefined`, and when
+ * the newest snapshot already holds the same state (e.g. a realtime echo of
+ * this device's own write). Never throws.
+ *
+ * @param table  - Supabase table name or schema key.
+ * @param row    - The row about to be replaced.
+ * @param source - What is replacing it.
+ */
+export async function recordVersion(
+  table: string,
+  row: Record<string, unknown> | undefined,
+  source: VersionSource
+): Promise<void> {
+  const retention = getRetention(table);
+  if (!retention || !row) return;
+
+  try {
+    const store = getDb().table(TABLE.ENTITY_VERSIONS);
+    const supaTable = resolveSupabaseName(table);
+    const entityId = row.id as string;
+    const version = typeof row._version === 'number' ? row._version : 1;
+    const updatedAt = (row.updated_at as string) ?? '';
+
+    /* Equal compound keys are ordered by primary key, i.e. oldest first. */
+    const existing = (await store
+      .where('[table+entityId]')
+      .equals([supaTable, entityId])
+      .toArray()) as EntityVersionRow[];
+    const newest = existing[existing.length - 1];
+    if (newest && newest.updatedAt === updatedAt && newest.version === version) return;
+
+    const entry: EntityVersionRow = {
+      table: supaTable,
+      entityId,
+      version,
+      updatedAt,
+      recordedAt: now(),
+      source,
+      snapshot: { ...row }
+    };
+    await store.add(entry);
+
+    const excess = existing.length + 1 - retention.limit;
+    if (excess > 0) {
+      await store.bulkDelete(existing.slice(0, excess).map((e) => e.id!));
+    }
+  } catch (error) {
+    debugError('[Versions] Failed to record version:', error);
+  }
+}
+
+// =============================================================================
+// READING
+// =============================================================================
+
+/**
+ * Read the recorded prior states of an entity, newest first. The current
+ * state is not included — read it with `engineGet`.
+ *
+ * @param table - Supabase table name or schema key.
+ * @param id    - Primary key of the entity.
+ * @returns The snapshots (empty when history is disabled or none exist).
+ *
+ * @example
+ * ```ts
+ * const versions = await engineGetHistory('notes', noteId);
+ * for (const v of versions) console.log(v.updatedAt, v.source, v.snapshot.title);
+ * ```
+ */
+export async function engineGetHistory(table: string, id: string): Promise<EntityVersion[]> {
+  const rows = (await getDb()
+    .table(TABLE.ENTITY_VERSIONS)
+    .where('[table+entityId]')
+    .equals([resolveSupabaseName(table), id])
+    .toArray()) as EntityVersionRow[];
+  return rows.reverse().map(({ version, updatedAt, recordedAt, source, snapshot }) => ({
+    version,
+    updatedAt,
+    recordedAt,
+    source,
+    snapshot
+  }));
+}
+
+/**
+ * Find the state an entity had at a given version or point in time.
+ *
+ * Candidates are the current row and every recorded snapshot, newest
+ * `updated_at` first:
+ * - a **number** selects the newest candidate whose `_version` equals it;
+ * - a **string** (ISO timestamp) selects the newest candidate written at or
+ *   before that time — the state the entity was in at that moment.
+ *
+ * @param table             - Supabase table name or schema key.
+ * @param current           - The entity's current row.
+ * @param versionOrTimestamp - `_version` number or ISO timestamp.
+ * @returns The matching state, or `null` when none matches.
+ * @throws {Error} If `versionOrTimestamp` is a string that is not a valid date.
+ */
+export async function findVersion(
+  table: string,
+  current: Record<string, unknown>,
+  versionOrTimestamp: number | string
+): Promise<Record<string, unknown> | null> {
+  const history = await engineGetHistory(table, current.id as string);
+  const candidates = [current, ...history.map((entry) => entry.snapshot)].sort((a, b) =>
+    String(b.updated_at ?? '').localeCompare(String(a.updated_at ?? ''))
+  );
+
+  if (typeof versionOrTimestamp === 'number') {
+    return (
+      candidates.find(
+        (row) => (typeof row._version === 'number' ? row._version : 1) === versionOrTimestamp
+      ) ?? null
+    );
+  }
+
+  const time = Date.parse(versionOrTimestamp);
+  if (Number.isNaN(time)) throw new Error(`Invalid timestamp: ${versionOrTimestamp}`);
+  const cutoff = new Date(time).toISOString();
+  return candidates.find((row) => String(row.updated_at ?? '') <= cutoff) ?? null;
+}
+
+// =============================================================================
+// CLEANUP
+// =============================================================================
+
+/**
+ * Purge snapshots older than their table's `maxAgeDays`, and all snapshots
+ * of tables whose history has since been disabled.
+ *
+ * Called by the engine alongside conflict-history cleanup.
+ *
+ * @returns The number of snapshots deleted, or `0` if an error occurred.
+ */
+export async function cleanupEntityVersions(): Promise<number> {
+  const cutoffs = new Map<string, string>();
+  for (const table of getEngineConfig().tables) {
+    const retention = getRetention(table.supabaseName);
+    if (!retention) continue;
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - retention.maxAgeDays);
+    cutoffs.set(table.supabaseName, cutoff.toISOString());
+  }
+
+  try {
+    const count = await getDb()
+      .table(TABLE.ENTITY_VERSIONS)
+      .filter((entry: EntityVersionRow) => {
+        const cutoff = cutoffs.get(entry.table);
+        return cutoff === undefined || entry.recordedAt < cutoff;
+      })
+      .delete();
+
+    if (count > 0) {
+      debugLog(`[Versions] Cleaned up ${count} old entity versions`);
+    }
+
+    return count;
+  } catch (error) {
+    debugError('[Versions] Failed to cleanup entity versions:', error);
+    return 0;
+  }
+}